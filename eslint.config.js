@@ -0,0 +1,60 @@
+import { fileURLToPath } from 'node:url';
+
+import js from '@eslint/js';
+import tsPlugin from '@typescript-eslint/eslint-plugin';
+import tsParser from '@typescript-eslint/parser';
+import prettier from 'eslint-config-prettier';
+import importPlugin from 'eslint-plugin-import';
+
+export default [
+    {
+        ignores: ['**/dist/**', '**/node_modules/**', '**/coverage/**'],
+    },
+    js.configs.recommended,
+    ...tsPlugin.configs['flat/recommended-type-checked'],
+    importPlugin.flatConfigs.recommended,
+    importPlugin.flatConfigs.typescript,
+    prettier,
+    {
+        files: ['**/*.ts'],
+        languageOptions: {
+            parser: tsParser,
+            ecmaVersion: 2022,
+            sourceType: 'module',
+            parserOptions: {
+                project: ['./packages/*/tsconfig.json'],
+                tsconfigRootDir: fileURLToPath(new URL('.', import.meta.url)),
+            },
+        },
+        rules: {
+            '@typescript-eslint/no-unused-vars': ['error', { argsIgnorePattern: '^_' }],
+            '@typescript-eslint/explicit-function-return-type': 'error',
+            '@typescript-eslint/no-explicit-any': 'warn',
+            'import/order': ['error', { 'newlines-between': 'always' }],
+        },
+        settings: {
+            'import/resolver': {
+                typescript: {
+                    project: ['./packages/*/tsconfig.json'],
+                    noWarnOnMultipleProjects: true,
+                },
+            },
+        },
+    },
+    {
+        // Tests are not part of the package builds, so they are linted without type information
+        files: ['**/__tests__/**/*.ts'],
+        ...tsPlugin.configs['flat/disable-type-checked'],
+        languageOptions: {
+            parserOptions: {
+                project: false,
+                program: null,
+                projectService: false,
+            },
+        },
+        rules: {
+            ...tsPlugin.configs['flat/disable-type-checked'].rules,
+            '@typescript-eslint/explicit-function-return-type': 'off',
+        },
+    },
+];
@@ -0,0 +1,47 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import { createJsonRpcClient, JsonRpcClientTransport } from '../index.js';
+
+type CalculatorContract = {
+    add: { params: { a: number; b: number }; result: number };
+    reset: { params: undefined; result: boolean };
+    log: { params: { message: string }; result: void };
+};
+
+declare const transport: JsonRpcClientTransport;
+
+describe('contract typing', () => {
+    const client = createJsonRpcClient<CalculatorContract>(transport);
+
+    it('should type calls from the contract', () => {
+        expectTypeOf(client.call('add', { a: 1, b: 2 })).toEqualTypeOf<Promise<number>>();
+        expectTypeOf(client.call('reset')).toEqualTypeOf<Promise<boolean>>();
+        expectTypeOf(client.methods.add).parameter(0).toEqualTypeOf<{ a: number; b: number }>();
+
+        // @ts-expect-error Unknown method
+        void client.call('substract', { a: 1, b: 2 });
+        // @ts-expect-error Wrong params
+        void client.call('add', { a: '1', b: 2 });
+        // @ts-expect-error Missing params
+        void client.call('add');
+        // @ts-expect-error Result schema of another type
+        void client.call('add', { a: 1, b: 2 }, { result: { validate: () => ({ success: true, value: 'sum' }) } });
+    });
+
+    it('should type notifications from the contract', () => {
+        expectTypeOf(client.notify('log', { message: 'Hello' })).toBeVoid();
+        expectTypeOf(client.notify('reset')).toBeVoid();
+
+        // @ts-expect-error Unknown method
+        client.notify('debug', { message: 'Hello' });
+        // @ts-expect-error Wrong params
+        client.notify('log', { text: 'Hello' });
+    });
+
+    it('should accept any method without a contract', () => {
+        const untyped = createJsonRpcClient(transport);
+
+        expectTypeOf(untyped.call<number>('add', { a: 1, b: 2 })).toEqualTypeOf<Promise<number>>();
+        expectTypeOf(untyped.call('anything')).toEqualTypeOf<Promise<unknown>>();
+        expectTypeOf(untyped.notify('log', { message: 'Hello' })).toBeVoid();
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createFetchTransport, createJsonRpcClient, JsonRpcHttpError } from '../index.js';
+import { createJsonRpcError, createJsonRpcErrorResponse, createJsonRpcSuccessResponse } from '@ts-json-rpc/core';
+
+function jsonResponse(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('createFetchTransport', () => {
+    it('should POST payloads as JSON and return the responses', async () => {
+        const fetch = vi.fn(async () => jsonResponse(createJsonRpcSuccessResponse(1, 3)));
+        const client = createJsonRpcClient(createFetchTransport('https://example.com/rpc', { fetch }));
+
+        await expect(client.call('add', { a: 1, b: 2 })).resolves.toBe(3);
+
+        const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+        expect(url).toBe('https://example.com/rpc');
+        expect(init.method).toBe('POST');
+        expect(JSON.parse(init.body as string)).toEqual({ jsonrpc: '2.0', method: 'add', params: { a: 1, b: 2 }, id: 1 });
+        expect(new Headers(init.headers).get('content-type')).toBe('application/json');
+    });
+
+    it('should send static and dynamic headers along with extra fetch options', async () => {
+        const fetch = vi.fn(async () => jsonResponse(createJsonRpcSuccessResponse(1, 'ok')));
+        const getHeaders = vi.fn(async () => ({ Authorization: 'Bearer token' }));
+
+        const transport = createFetchTransport('https://example.com/rpc', {
+            fetch,
+            headers: getHeaders,
+            init: { credentials: 'include' },
+        });
+        await transport({ jsonrpc: '2.0', method: 'test', id: 1 });
+
+        const [, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+        expect(new Headers(init.headers).get('authorization')).toBe('Bearer token');
+        expect(init.credentials).toBe('include');
+        expect(getHeaders).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resolve notification-only payloads answered with 204 to no response', async () => {
+        const fetch = vi.fn(async () => new Response(null, { status: 204 }));
+        const transport = createFetchTransport('https://example.com/rpc', { fetch });
+
+        await expect(transport([{ jsonrpc: '2.0', method: 'log' }])).resolves.toBeNull();
+    });
+
+    it('should return JSON-RPC errors sent with an HTTP error status', async () => {
+        const fetch = vi.fn(async () =>
+            jsonResponse(createJsonRpcErrorResponse(1, createJsonRpcError(-32601, 'Method not found')), 404),
+        );
+        const client = createJsonRpcClient(createFetchTransport('https://example.com/rpc', { fetch }));
+
+        await expect(client.call('missing')).rejects.toMatchObject({ code: -32601, message: 'Method not found' });
+    });
+
+    it('should reject with an HTTP error for other error statuses', async () => {
+        const fetch = vi.fn(async () => new Response('Unauthorized', { status: 401, statusText: 'Unauthorized' }));
+        const client = createJsonRpcClient(createFetchTransport('https://example.com/rpc', { fetch }));
+
+        const error = await client.call('secret').catch((reason: unknown) => reason);
+
+        expect(error).toBeInstanceOf(JsonRpcHttpError);
+        expect(error).toMatchObject({ status: 401, statusText: 'Unauthorized', body: 'Unauthorized' });
+    });
+
+    it('should reject bodies that are not JSON-RPC responses', async () => {
+        const fetch = vi.fn(async () => new Response('<html></html>', { status: 200 }));
+        const transport = createFetchTransport('https://example.com/rpc', { fetch });
+
+        await expect(transport({ jsonrpc: '2.0', method: 'test', id: 1 })).rejects.toThrow(
+            'Invalid JSON-RPC response received over HTTP',
+        );
+    });
+
+    it('should let custom response handling take over', async () => {
+        const fetch = vi.fn(async () => new Response('Too Many Requests', { status: 429 }));
+        const onResponse = vi.fn((response: Response) => {
+            if (response.status === 429) {
+                throw new Error('Rate limited');
+            }
+            return undefined;
+        });
+        const transport = createFetchTransport('https://example.com/rpc', { fetch, onResponse });
+
+        await expect(transport({ jsonrpc: '2.0', method: 'test', id: 1 })).rejects.toThrow('Rate limited');
+    });
+});
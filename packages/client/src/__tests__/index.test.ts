@@ -1,12 +1,28 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { createJsonRpcClient, JsonRpcClientTransport } from '../index.js';
 import {
+    createJsonRpcClient,
+    JsonRpcAbortError,
+    JsonRpcClientTransport,
+    JsonRpcConnectionClosedError,
+    JsonRpcMissingResponseError,
+    JsonRpcResultValidationError,
+    JsonRpcTimeoutError,
+} from '../index.js';
+import {
+    createJsonSchemaValidator,
     createJsonRpcSuccessResponse,
+    isJSONRPCSuccessResponse,
     createJsonRpcErrorResponse,
     createJsonRpcError,
+    JsonRpcException,
+    MethodNotFoundException,
     JSONRPCRequest,
     JSONRPCNotification,
     JSONRPCResponse,
+    JsonRpcMessageChannel,
+    JsonRpcSpanOptions,
+    JsonRpcTracer,
+    JSONRPC_SPAN_STATUS,
 } from '@ts-json-rpc/core';
 
 describe('createJsonRpcClient', () => {
@@ -69,6 +85,23 @@ describe('createJsonRpcClient', () => {
             }
         });
 
+        it('should reject with JSON-RPC exceptions matching the error code', async () => {
+            mockTransport
+                .mockResolvedValueOnce(createJsonRpcErrorResponse(1, createJsonRpcError(-32601, 'Method not found')))
+                .mockResolvedValueOnce(createJsonRpcErrorResponse(2, createJsonRpcError(-32001, 'Insufficient funds', { balance: 10 })));
+
+            const client = createJsonRpcClient(mockTransport);
+
+            const missing = await client.call('missing').catch((error: unknown) => error);
+            expect(missing).toBeInstanceOf(MethodNotFoundException);
+            expect(missing).toBeInstanceOf(JsonRpcException);
+
+            const custom = await client.call('withdraw').catch((error: unknown) => error);
+            expect(custom).toBeInstanceOf(JsonRpcException);
+            expect(custom).not.toBeInstanceOf(MethodNotFoundException);
+            expect(custom).toMatchObject({ code: -32001, message: 'Insufficient funds', data: { balance: 10 } });
+        });
+
         it('should handle transport errors', async () => {
             const transportError = new Error('Network error');
             mockTransport.mockRejectedValue(transportError);
@@ -78,6 +111,14 @@ describe('createJsonRpcClient', () => {
             await expect(client.call('test_method')).rejects.toThrow('Network error');
         });
 
+        it('should wrap transport failures that are not errors', async () => {
+            mockTransport.mockRejectedValue('offline');
+
+            const client = createJsonRpcClient(mockTransport);
+
+            await expect(client.call('test_method')).rejects.toEqual(new Error('offline'));
+        });
+
         it('should generate unique request IDs', async () => {
             const successResponse1 = createJsonRpcSuccessResponse(1, 'result1');
             const successResponse2 = createJsonRpcSuccessResponse(2, 'result2');
@@ -123,6 +164,16 @@ describe('createJsonRpcClient', () => {
             expect(result2).toBe('result2');
         });
 
+        it('should reject with a missing response error when the transport answers without it', async () => {
+            mockTransport.mockResolvedValue(createJsonRpcSuccessResponse(999, 'unknown result'));
+
+            const client = createJsonRpcClient(mockTransport);
+            const error = await client.call('test_method').catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(JsonRpcMissingResponseError);
+            expect(error).toMatchObject({ id: 1 });
+        });
+
         it('should ignore responses for unknown request IDs', async () => {
             const unknownResponse = createJsonRpcSuccessResponse(999, 'unknown result');
             const validResponse = createJsonRpcSuccessResponse(1, 'valid result');
@@ -139,6 +190,1040 @@ describe('createJsonRpcClient', () => {
         });
     });
 
+    describe('result validation', () => {
+        const userSchema = createJsonSchemaValidator<{ name: string }>({
+            type: 'object',
+            properties: { name: { type: 'string' } },
+            required: ['name'],
+        });
+
+        it('should resolve with results matching the schema', async () => {
+            mockTransport.mockResolvedValue(createJsonRpcSuccessResponse(1, { name: 'Alice' }));
+
+            const client = createJsonRpcClient(mockTransport);
+            const user = await client.call('getUser', { id: 1 }, { result: userSchema });
+
+            expect(user).toEqual({ name: 'Alice' });
+        });
+
+        it('should resolve with the transformed value', async () => {
+            mockTransport.mockResolvedValue(createJsonRpcSuccessResponse(1, '42'));
+
+            const client = createJsonRpcClient(mockTransport);
+            const result = await client.call('count', undefined, {
+                result: { parse: (value: unknown) => Number(value) },
+            });
+
+            expect(result).toBe(42);
+        });
+
+        it('should reject malformed results with a typed error', async () => {
+            mockTransport.mockResolvedValue(createJsonRpcSuccessResponse(1, { name: 7 }));
+
+            const client = createJsonRpcClient(mockTransport);
+            const error = await client.call('getUser', { id: 1 }, { result: userSchema }).catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(JsonRpcResultValidationError);
+            expect(error).toMatchObject({
+                message: 'Invalid result for JSON-RPC method getUser',
+                method: 'getUser',
+                id: 1,
+                issues: [{ path: ['name'], message: 'Expected string, received integer' }],
+            });
+        });
+
+        it('should accept a result schema through the methods proxy', async () => {
+            mockTransport.mockResolvedValue(createJsonRpcSuccessResponse(1, {}));
+
+            const client = createJsonRpcClient<{ getUser: { params: { id: number }; result: { name: string } } }>(
+                mockTransport,
+            );
+
+            await expect(client.methods.getUser({ id: 1 }, { result: userSchema })).rejects.toBeInstanceOf(
+                JsonRpcResultValidationError,
+            );
+        });
+    });
+
+    describe('interceptors', () => {
+        it('should run interceptors in order around the transport', async () => {
+            const calls: string[] = [];
+            mockTransport.mockImplementation(async () => {
+                calls.push('transport');
+                return createJsonRpcSuccessResponse(1, 'ok');
+            });
+
+            const client = createJsonRpcClient(mockTransport, {
+                interceptors: [
+                    async (_payload, next) => {
+                        calls.push('options:before');
+                        const response = await next();
+                        calls.push('options:after');
+                        return response;
+                    },
+                ],
+            });
+            client.use(async (_payload, next) => {
+                calls.push('use:before');
+                const response = await next();
+                calls.push('use:after');
+                return response;
+            });
+
+            await expect(client.call('test')).resolves.toBe('ok');
+            expect(calls).toEqual(['options:before', 'use:before', 'transport', 'use:after', 'options:after']);
+        });
+
+        it('should rewrite outgoing calls and notifications', async () => {
+            mockTransport.mockImplementation(async (payload) => {
+                const message = payload as JSONRPCRequest;
+                return 'id' in message ? createJsonRpcSuccessResponse(message.id, message.params) : [];
+            });
+
+            const client = createJsonRpcClient(mockTransport).use((payload, next) => {
+                const message = payload as JSONRPCRequest<Record<string, unknown>>;
+                return next({ ...message, params: { ...message.params, token: 'secret' } });
+            });
+
+            await expect(client.call('test', { a: 1 })).resolves.toEqual({ a: 1, token: 'secret' });
+
+            client.notify('log', { message: 'hi' });
+            await Promise.resolve();
+
+            expect(mockTransport).toHaveBeenLastCalledWith({
+                jsonrpc: '2.0',
+                method: 'log',
+                params: { message: 'hi', token: 'secret' },
+            });
+        });
+
+        it('should rewrite responses and errors', async () => {
+            mockTransport.mockRejectedValueOnce(new Error('Network error'));
+            mockTransport.mockResolvedValueOnce(
+                createJsonRpcErrorResponse(2, createJsonRpcError(-32000, 'Server error')),
+            );
+
+            const client = createJsonRpcClient(mockTransport, {
+                interceptors: [
+                    async (payload, next) => {
+                        try {
+                            const response = await next();
+                            return Array.isArray(response)
+                                ? response
+                                : { ...response, error: { code: -32000, message: 'Rewritten' } };
+                        } catch {
+                            throw new Error('Offline');
+                        }
+                    },
+                ],
+            });
+
+            await expect(client.call('test')).rejects.toThrow('Offline');
+            await expect(client.call('test')).rejects.toThrow('Rewritten');
+        });
+
+        it('should allow retrying by calling next again', async () => {
+            mockTransport
+                .mockRejectedValueOnce(new Error('Network error'))
+                .mockResolvedValueOnce(createJsonRpcSuccessResponse(1, 'ok'));
+
+            const client = createJsonRpcClient(mockTransport).use(async (_payload, next) => {
+                try {
+                    return await next();
+                } catch {
+                    return next();
+                }
+            });
+
+            await expect(client.call('test')).resolves.toBe('ok');
+            expect(mockTransport).toHaveBeenCalledTimes(2);
+        });
+
+        it('should reject the call when an interceptor throws synchronously', async () => {
+            const client = createJsonRpcClient(mockTransport).use(() => {
+                throw new Error('Blocked');
+            });
+
+            await expect(client.call('test')).rejects.toThrow('Blocked');
+            expect(mockTransport).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('batch method', () => {
+        it('should send a single batch and settle each call individually', async () => {
+            mockTransport.mockResolvedValue([
+                createJsonRpcErrorResponse(2, createJsonRpcError(-32601, 'Method not found')),
+                createJsonRpcSuccessResponse(1, 3),
+            ]);
+
+            const client = createJsonRpcClient(mockTransport);
+            let sum!: Promise<number>;
+            let missing!: Promise<unknown>;
+
+            await client.batch((batch) => {
+                sum = batch.call('add', { a: 1, b: 2 });
+                missing = batch.call('missing');
+                batch.notify('log', { message: 'batched' });
+            });
+
+            await expect(sum).resolves.toBe(3);
+            await expect(missing).rejects.toThrow('Method not found');
+            expect(mockTransport).toHaveBeenCalledTimes(1);
+            expect(mockTransport).toHaveBeenCalledWith([
+                { jsonrpc: '2.0', method: 'add', id: 1, params: { a: 1, b: 2 } },
+                { jsonrpc: '2.0', method: 'missing', id: 2 },
+                { jsonrpc: '2.0', method: 'log', params: { message: 'batched' } },
+            ]);
+        });
+
+        it('should handle a null response for an all-notification batch', async () => {
+            mockTransport.mockResolvedValue(null);
+
+            const client = createJsonRpcClient(mockTransport);
+
+            await expect(
+                client.batch((batch) => {
+                    batch.notify('log', { message: 'first' });
+                    batch.notify('log', { message: 'second' });
+                }),
+            ).resolves.toBeUndefined();
+            expect(mockTransport).toHaveBeenCalledTimes(1);
+        });
+
+        it('should reject calls left without a response', async () => {
+            mockTransport.mockResolvedValue([createJsonRpcSuccessResponse(1, 'ok')]);
+
+            const client = createJsonRpcClient(mockTransport);
+            let answered!: Promise<unknown>;
+            let unanswered!: Promise<unknown>;
+
+            await client.batch((batch) => {
+                answered = batch.call('first');
+                unanswered = batch.call('second');
+            });
+
+            await expect(answered).resolves.toBe('ok');
+            await expect(unanswered).rejects.toBeInstanceOf(JsonRpcMissingResponseError);
+        });
+
+        it('should reject every call with a batch-level error response', async () => {
+            mockTransport.mockResolvedValue(createJsonRpcErrorResponse(null, createJsonRpcError(-32600, 'Invalid Request')));
+
+            const client = createJsonRpcClient(mockTransport);
+            let first!: Promise<unknown>;
+            let second!: Promise<unknown>;
+
+            await client.batch((batch) => {
+                first = batch.call('first');
+                second = batch.call('second');
+            });
+
+            await expect(first).rejects.toMatchObject({ message: 'Invalid Request', code: -32600 });
+            await expect(second).rejects.toMatchObject({ message: 'Invalid Request', code: -32600 });
+        });
+
+        it('should reject the batch and its calls on transport errors', async () => {
+            mockTransport.mockRejectedValue(new Error('Network error'));
+
+            const client = createJsonRpcClient(mockTransport);
+            let result!: Promise<unknown>;
+
+            await expect(
+                client.batch((batch) => {
+                    result = batch.call('test');
+                }),
+            ).rejects.toThrow('Network error');
+            await expect(result).rejects.toThrow('Network error');
+        });
+
+        it('should not report the calls of a failed batch as unhandled rejections', async () => {
+            mockTransport.mockRejectedValue(new Error('Network error'));
+            const unhandled = vi.fn();
+            process.on('unhandledRejection', unhandled);
+
+            try {
+                const client = createJsonRpcClient(mockTransport);
+                const batchResult = client.batch((batch) => {
+                    batch.call('first');
+                    batch.call('second');
+                });
+
+                await expect(batchResult).rejects.toThrow('Network error');
+                await new Promise((resolve) => setTimeout(resolve, 10));
+                expect(unhandled).not.toHaveBeenCalled();
+            } finally {
+                process.off('unhandledRejection', unhandled);
+            }
+        });
+
+        it('should not report aborted batch calls as unhandled rejections', async () => {
+            const unhandled = vi.fn();
+            process.on('unhandledRejection', unhandled);
+
+            try {
+                const client = createJsonRpcClient(mockTransport);
+                let aborted!: Promise<unknown>;
+
+                await client.batch((batch) => {
+                    batch.call('ignored', undefined, { signal: AbortSignal.abort() });
+                    aborted = batch.call('awaited', undefined, { signal: AbortSignal.abort() });
+                });
+                await new Promise((resolve) => setTimeout(resolve, 10));
+
+                expect(unhandled).not.toHaveBeenCalled();
+                expect(mockTransport).not.toHaveBeenCalled();
+                await expect(aborted).rejects.toBeInstanceOf(JsonRpcAbortError);
+            } finally {
+                process.off('unhandledRejection', unhandled);
+            }
+        });
+
+        it('should not send empty batches', async () => {
+            const client = createJsonRpcClient(mockTransport);
+
+            await client.batch(() => {});
+
+            expect(mockTransport).not.toHaveBeenCalled();
+        });
+
+        it('should refuse entries added after the batch was sent', async () => {
+            mockTransport.mockResolvedValue(null);
+
+            const client = createJsonRpcClient(mockTransport);
+            let builder!: Parameters<Parameters<typeof client.batch>[0]>[0];
+
+            await client.batch((batch) => {
+                builder = batch;
+                batch.notify('log');
+            });
+
+            expect(() => builder.notify('late')).toThrow('JSON-RPC batch has already been sent');
+        });
+
+        it('should run interceptors once for the whole batch', async () => {
+            mockTransport.mockResolvedValue([createJsonRpcSuccessResponse(1, 'a'), createJsonRpcSuccessResponse(2, 'b')]);
+            const interceptor = vi.fn((_payload, next: () => Promise<unknown>) => next());
+
+            const client = createJsonRpcClient(mockTransport, { interceptors: [interceptor as never] });
+            const results: Promise<unknown>[] = [];
+
+            await client.batch((batch) => {
+                results.push(batch.call('a'), batch.call('b'));
+            });
+
+            await expect(Promise.all(results)).resolves.toEqual(['a', 'b']);
+            expect(interceptor).toHaveBeenCalledTimes(1);
+            expect(interceptor.mock.calls[0][0]).toHaveLength(2);
+        });
+    });
+
+    describe('automatic batching', () => {
+        function answerBatch(payload: Parameters<JsonRpcClientTransport>[0]): ReturnType<JsonRpcClientTransport> {
+            const messages = Array.isArray(payload) ? payload : [payload];
+            const responses = messages
+                .filter((message): message is JSONRPCRequest => 'id' in message)
+                .map((request) => createJsonRpcSuccessResponse(request.id, `${request.method}_result`));
+            return Promise.resolve(Array.isArray(payload) ? responses : responses[0] ?? null);
+        }
+
+        it('should coalesce calls made in the same tick into one batch', async () => {
+            mockTransport.mockImplementation(answerBatch);
+
+            const client = createJsonRpcClient(mockTransport, { batching: true });
+            const results = Promise.all([client.call('a'), client.call('b', { x: 1 })]);
+            client.notify('log');
+
+            await expect(results).resolves.toEqual(['a_result', 'b_result']);
+            expect(mockTransport).toHaveBeenCalledTimes(1);
+            expect(mockTransport).toHaveBeenCalledWith([
+                { jsonrpc: '2.0', method: 'a', id: 1 },
+                { jsonrpc: '2.0', method: 'b', id: 2, params: { x: 1 } },
+                { jsonrpc: '2.0', method: 'log' },
+            ]);
+        });
+
+        it('should send a lone call as a single request', async () => {
+            mockTransport.mockImplementation(answerBatch);
+
+            const client = createJsonRpcClient(mockTransport, { batching: true });
+
+            await expect(client.call('a')).resolves.toBe('a_result');
+            expect(mockTransport).toHaveBeenCalledWith({ jsonrpc: '2.0', method: 'a', id: 1 });
+        });
+
+        it('should collect calls within a time window', async () => {
+            vi.useFakeTimers();
+            try {
+                mockTransport.mockImplementation(answerBatch);
+
+                const client = createJsonRpcClient(mockTransport, { batching: { window: 20 } });
+                const first = client.call('a');
+                await vi.advanceTimersByTimeAsync(10);
+                const second = client.call('b');
+
+                expect(mockTransport).not.toHaveBeenCalled();
+                await vi.advanceTimersByTimeAsync(10);
+
+                await expect(Promise.all([first, second])).resolves.toEqual(['a_result', 'b_result']);
+                expect(mockTransport).toHaveBeenCalledTimes(1);
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+
+        it('should flush as soon as the maximum batch size is reached', async () => {
+            mockTransport.mockImplementation(answerBatch);
+
+            const client = createJsonRpcClient(mockTransport, { batching: { maxBatchSize: 2 } });
+            const results = Promise.all([client.call('a'), client.call('b'), client.call('c')]);
+
+            expect(mockTransport).toHaveBeenCalledTimes(1);
+            await expect(results).resolves.toEqual(['a_result', 'b_result', 'c_result']);
+            expect(mockTransport).toHaveBeenCalledTimes(2);
+            expect(mockTransport.mock.calls[0][0]).toHaveLength(2);
+            expect(mockTransport.mock.calls[1][0]).toEqual({ jsonrpc: '2.0', method: 'c', id: 3 });
+        });
+
+        it('should reject every coalesced call on transport errors', async () => {
+            const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            const transportError = new Error('Network error');
+            mockTransport.mockRejectedValue(transportError);
+
+            const client = createJsonRpcClient(mockTransport, { batching: true });
+            const first = client.call('a');
+            const second = client.call('b');
+            client.notify('log');
+
+            await expect(first).rejects.toThrow('Network error');
+            await expect(second).rejects.toThrow('Network error');
+            expect(consoleSpy).toHaveBeenCalledWith('JSON-RPC notification transport error:', transportError);
+            consoleSpy.mockRestore();
+        });
+    });
+
+    describe('timeouts and cancellation', () => {
+        const neverAnswer = (): ReturnType<JsonRpcClientTransport> => new Promise(() => {});
+
+        it('should reject with a timeout error using the client default', async () => {
+            vi.useFakeTimers();
+            try {
+                mockTransport.mockImplementation(neverAnswer);
+
+                const client = createJsonRpcClient(mockTransport, { timeout: 100 });
+                const promise = client.call('slow');
+                const assertion = expect(promise).rejects.toBeInstanceOf(JsonRpcTimeoutError);
+
+                await vi.advanceTimersByTimeAsync(100);
+
+                await assertion;
+                await expect(promise).rejects.toMatchObject({ method: 'slow', id: 1, timeout: 100 });
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+
+        it('should let calls override or disable the default timeout', async () => {
+            vi.useFakeTimers();
+            try {
+                let respond!: (response: JSONRPCResponse) => void;
+                mockTransport
+                    .mockImplementationOnce(neverAnswer)
+                    .mockImplementationOnce(() => new Promise((resolve) => (respond = resolve)));
+
+                const client = createJsonRpcClient(mockTransport, { timeout: 100 });
+                const short = client.call('short', undefined, { timeout: 10 });
+                const unlimited = client.call('unlimited', undefined, { timeout: 0 });
+                const shortAssertion = expect(short).rejects.toMatchObject({ timeout: 10 });
+
+                await vi.advanceTimersByTimeAsync(1000);
+                await shortAssertion;
+
+                respond(createJsonRpcSuccessResponse(2, 'done'));
+                await expect(unlimited).resolves.toBe('done');
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+
+        it('should ignore late responses after a timeout', async () => {
+            vi.useFakeTimers();
+            try {
+                let respond!: (response: JSONRPCResponse) => void;
+                mockTransport.mockImplementation(() => new Promise((resolve) => (respond = resolve)));
+
+                const client = createJsonRpcClient(mockTransport);
+                const promise = client.call('slow', undefined, { timeout: 50 });
+                const assertion = expect(promise).rejects.toBeInstanceOf(JsonRpcTimeoutError);
+
+                await vi.advanceTimersByTimeAsync(50);
+                await assertion;
+
+                respond(createJsonRpcSuccessResponse(1, 'late'));
+                await vi.advanceTimersByTimeAsync(0);
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+
+        it('should reject with an abort error when the signal is aborted', async () => {
+            mockTransport.mockImplementation(neverAnswer);
+
+            const client = createJsonRpcClient(mockTransport);
+            const controller = new AbortController();
+            const promise = client.call('slow', undefined, { signal: controller.signal });
+
+            controller.abort('user cancelled');
+
+            const error = await promise.catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(JsonRpcAbortError);
+            expect(error).toMatchObject({ method: 'slow', id: 1, reason: 'user cancelled' });
+        });
+
+        it('should not send calls whose signal is already aborted', async () => {
+            const client = createJsonRpcClient(mockTransport);
+            const controller = new AbortController();
+            controller.abort();
+
+            await expect(client.call('test', undefined, { signal: controller.signal })).rejects.toMatchObject({
+                name: 'JsonRpcAbortError',
+                id: null,
+            });
+
+            let batched!: Promise<unknown>;
+            await client.batch((batch) => {
+                batched = batch.call('test', undefined, { signal: controller.signal });
+            });
+
+            await expect(batched).rejects.toBeInstanceOf(JsonRpcAbortError);
+            expect(mockTransport).not.toHaveBeenCalled();
+        });
+
+        it('should send a cancel notification when cancellation is enabled', async () => {
+            vi.useFakeTimers();
+            try {
+                mockTransport.mockImplementation((payload) =>
+                    'id' in payload ? neverAnswer() : Promise.resolve(null),
+                );
+
+                const client = createJsonRpcClient(mockTransport, { cancellation: true });
+                const controller = new AbortController();
+                const aborted = client.call('first', undefined, { signal: controller.signal });
+                const timedOut = client.call('second', undefined, { timeout: 10 });
+                const assertions = Promise.all([
+                    expect(aborted).rejects.toBeInstanceOf(JsonRpcAbortError),
+                    expect(timedOut).rejects.toBeInstanceOf(JsonRpcTimeoutError),
+                ]);
+
+                controller.abort();
+                await vi.advanceTimersByTimeAsync(10);
+                await assertions;
+
+                expect(mockTransport).toHaveBeenCalledWith({ jsonrpc: '2.0', method: '$/cancelRequest', params: { id: 1 } });
+                expect(mockTransport).toHaveBeenCalledWith({ jsonrpc: '2.0', method: '$/cancelRequest', params: { id: 2 } });
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+
+        it('should not send cancel notifications by default with a transport function', async () => {
+            mockTransport.mockImplementation(neverAnswer);
+
+            const client = createJsonRpcClient(mockTransport);
+            const controller = new AbortController();
+            const promise = client.call('slow', undefined, { signal: controller.signal });
+            controller.abort();
+
+            await expect(promise).rejects.toBeInstanceOf(JsonRpcAbortError);
+            expect(mockTransport).toHaveBeenCalledTimes(1);
+        });
+
+        it('should apply timeouts to batch entries', async () => {
+            vi.useFakeTimers();
+            try {
+                mockTransport.mockImplementation(neverAnswer);
+
+                const client = createJsonRpcClient(mockTransport, { timeout: 20 });
+                let result!: Promise<unknown>;
+                void client.batch((batch) => {
+                    result = batch.call('slow');
+                });
+                const assertion = expect(result).rejects.toBeInstanceOf(JsonRpcTimeoutError);
+
+                await vi.advanceTimersByTimeAsync(20);
+                await assertion;
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+    });
+
+    describe('retry', () => {
+        const retry = { initialDelay: 100, jitter: false };
+
+        function respondWith(result: unknown) {
+            return (payload: unknown) => Promise.resolve(createJsonRpcSuccessResponse((payload as JSONRPCRequest).id, result));
+        }
+
+        function failWithCode(code: number) {
+            return (payload: unknown) =>
+                Promise.resolve(createJsonRpcErrorResponse((payload as JSONRPCRequest).id, createJsonRpcError(code, 'Failure')));
+        }
+
+        it('should retry idempotent methods on transport errors with exponential backoff', async () => {
+            vi.useFakeTimers();
+            try {
+                mockTransport
+                    .mockRejectedValueOnce(new Error('Network error'))
+                    .mockRejectedValueOnce(new Error('Network error'))
+                    .mockImplementationOnce(respondWith('ok'));
+
+                const client = createJsonRpcClient(mockTransport, {
+                    retry,
+                    methodOptions: { getUser: { idempotent: true } },
+                });
+                const promise = client.call('getUser');
+
+                await vi.advanceTimersByTimeAsync(99);
+                expect(mockTransport).toHaveBeenCalledTimes(1);
+                await vi.advanceTimersByTimeAsync(1);
+                expect(mockTransport).toHaveBeenCalledTimes(2);
+                await vi.advanceTimersByTimeAsync(200);
+
+                await expect(promise).resolves.toBe('ok');
+                expect(mockTransport.mock.calls.map(([payload]) => (payload as JSONRPCRequest).id)).toEqual([1, 2, 3]);
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+
+        it('should never retry methods not marked as idempotent', async () => {
+            mockTransport.mockRejectedValue(new Error('Network error'));
+
+            const client = createJsonRpcClient(mockTransport, {
+                retry,
+                methodOptions: { createOrder: { idempotent: false, retry: { maxAttempts: 5 } } },
+            });
+
+            await expect(client.call('createOrder')).rejects.toThrow('Network error');
+            await expect(client.call('unknown')).rejects.toThrow('Network error');
+            expect(mockTransport).toHaveBeenCalledTimes(2);
+        });
+
+        it('should only retry JSON-RPC errors with a retryable code', async () => {
+            vi.useFakeTimers();
+            try {
+                mockTransport
+                    .mockImplementationOnce(failWithCode(-32001))
+                    .mockImplementationOnce(failWithCode(-32602));
+
+                const client = createJsonRpcClient(mockTransport, {
+                    retry: { ...retry, retryableErrorCodes: [-32001] },
+                    methodOptions: { getUser: { idempotent: true } },
+                });
+                const promise = client.call('getUser');
+                const assertion = expect(promise).rejects.toMatchObject({ code: -32602 });
+
+                await vi.advanceTimersByTimeAsync(100);
+                await assertion;
+                expect(mockTransport).toHaveBeenCalledTimes(2);
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+
+        it('should apply per-method overrides and give up after the last attempt', async () => {
+            vi.useFakeTimers();
+            try {
+                mockTransport.mockRejectedValue(new Error('Network error'));
+
+                const client = createJsonRpcClient(mockTransport, {
+                    retry: { ...retry, maxAttempts: 5 },
+                    methodOptions: {
+                        getUser: { idempotent: true, retry: { maxAttempts: 2 } },
+                        getOrders: { idempotent: true, retry: false },
+                    },
+                });
+                const promise = client.call('getUser');
+                const assertion = expect(promise).rejects.toThrow('Network error');
+
+                await vi.advanceTimersByTimeAsync(1000);
+                await assertion;
+                expect(mockTransport).toHaveBeenCalledTimes(2);
+
+                await expect(client.call('getOrders')).rejects.toThrow('Network error');
+                expect(mockTransport).toHaveBeenCalledTimes(3);
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+
+        it('should use a custom retry predicate', async () => {
+            vi.useFakeTimers();
+            try {
+                const shouldRetry = vi.fn((error: unknown) => (error as { code?: number }).code === -32603);
+                mockTransport.mockImplementationOnce(failWithCode(-32603)).mockImplementationOnce(respondWith(42));
+
+                const client = createJsonRpcClient(mockTransport, {
+                    retry: { ...retry, shouldRetry },
+                    methodOptions: { getAnswer: { idempotent: true } },
+                });
+                const promise = client.call('getAnswer');
+
+                await vi.advanceTimersByTimeAsync(100);
+                await expect(promise).resolves.toBe(42);
+                expect(shouldRetry).toHaveBeenCalledWith(expect.objectContaining({ code: -32603 }), 1);
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+
+        it('should stop retrying when the call is aborted during the backoff', async () => {
+            vi.useFakeTimers();
+            try {
+                mockTransport.mockRejectedValue(new Error('Network error'));
+
+                const client = createJsonRpcClient(mockTransport, {
+                    retry,
+                    methodOptions: { getUser: { idempotent: true } },
+                });
+                const controller = new AbortController();
+                const promise = client.call('getUser', undefined, { signal: controller.signal });
+                const assertion = expect(promise).rejects.toBeInstanceOf(JsonRpcAbortError);
+
+                await vi.advanceTimersByTimeAsync(50);
+                controller.abort();
+                await assertion;
+                await vi.advanceTimersByTimeAsync(1000);
+                expect(mockTransport).toHaveBeenCalledTimes(1);
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+    });
+
+    describe('tracing', () => {
+        /**
+         * Creates a tracer recording its spans in memory.
+         */
+        function createTracer() {
+            const spans: {
+                name: string;
+                options: JsonRpcSpanOptions;
+                attributes: Record<string, unknown>;
+                status?: { code: number; message?: string };
+                exceptions: Error[];
+                ended: boolean;
+            }[] = [];
+            const tracer: JsonRpcTracer = {
+                startSpan(name, options) {
+                    const span = { name, options, attributes: { ...options.attributes }, exceptions: [] as Error[], ended: false };
+                    spans.push(span);
+                    const spanId = spans.length.toString(16).padStart(16, '0');
+                    return {
+                        spanContext: () => ({ traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId, traceFlags: 1 }),
+                        setAttribute: (key, value) => (span.attributes[key] = value),
+                        setStatus: (status) => Object.assign(span, { status }),
+                        recordException: (exception) => span.exceptions.push(exception),
+                        end: () => (span.ended = true),
+                    };
+                },
+            };
+            return { tracer, spans };
+        }
+
+        const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000001-01';
+
+        it('should create a client span per call and send its traceparent with the request', async () => {
+            mockTransport.mockResolvedValue(createJsonRpcSuccessResponse(1, 3));
+            const { tracer, spans } = createTracer();
+
+            const client = createJsonRpcClient(mockTransport, { tracer });
+            await expect(client.call('add', { a: 1, b: 2 })).resolves.toBe(3);
+
+            expect(mockTransport).toHaveBeenCalledWith({
+                jsonrpc: '2.0',
+                method: 'add',
+                params: { a: 1, b: 2 },
+                id: 1,
+                _meta: { traceparent },
+            });
+            expect(spans).toEqual([
+                {
+                    name: 'add',
+                    options: expect.objectContaining({ kind: 'client' }),
+                    attributes: { 'rpc.system': 'jsonrpc', 'rpc.method': 'add', 'rpc.jsonrpc.version': '2.0' },
+                    exceptions: [],
+                    ended: true,
+                },
+            ]);
+        });
+
+        it('should not send request metadata without a tracer', async () => {
+            mockTransport.mockResolvedValue(createJsonRpcSuccessResponse(1, 3));
+
+            const client = createJsonRpcClient(mockTransport);
+            await client.call('add', { a: 1, b: 2 });
+
+            expect(mockTransport.mock.calls[0][0]).not.toHaveProperty('_meta');
+        });
+
+        it('should record JSON-RPC error codes as span status', async () => {
+            mockTransport.mockResolvedValue(createJsonRpcErrorResponse(1, createJsonRpcError(-32001, 'Not authorized')));
+            const { tracer, spans } = createTracer();
+
+            const client = createJsonRpcClient(mockTransport, { tracer });
+            await expect(client.call('deleteUser')).rejects.toBeInstanceOf(JsonRpcException);
+
+            expect(spans[0].attributes).toMatchObject({
+                'rpc.jsonrpc.error_code': -32001,
+                'rpc.jsonrpc.error_message': 'Not authorized',
+            });
+            expect(spans[0].status).toEqual({ code: JSONRPC_SPAN_STATUS.ERROR, message: 'Not authorized' });
+            expect(spans[0].ended).toBe(true);
+        });
+
+        it('should record other failures as exceptions', async () => {
+            const transportError = new Error('Network error');
+            mockTransport.mockRejectedValue(transportError);
+            const { tracer, spans } = createTracer();
+
+            const client = createJsonRpcClient(mockTransport, { tracer });
+            await expect(client.call('add')).rejects.toBe(transportError);
+
+            expect(spans[0].status).toEqual({ code: JSONRPC_SPAN_STATUS.ERROR, message: 'Network error' });
+            expect(spans[0].exceptions).toEqual([transportError]);
+            expect(spans[0].attributes).not.toHaveProperty('rpc.jsonrpc.error_code');
+        });
+
+        it('should log the errors of the tracer without failing calls', async () => {
+            mockTransport.mockResolvedValue(createJsonRpcSuccessResponse(1, 3));
+            const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            const tracerError = new Error('Exporter unavailable');
+
+            try {
+                const client = createJsonRpcClient(mockTransport, {
+                    tracer: {
+                        startSpan: () => {
+                            throw tracerError;
+                        },
+                    },
+                });
+
+                await expect(client.call('add', { a: 1, b: 2 })).resolves.toBe(3);
+                expect(mockTransport.mock.calls[0][0]).not.toHaveProperty('_meta');
+                expect(warn).toHaveBeenCalledWith('JSON-RPC tracer error:', tracerError);
+            } finally {
+                warn.mockRestore();
+            }
+        });
+
+        it('should keep retried attempts within the span of the call', async () => {
+            mockTransport
+                .mockRejectedValueOnce(new Error('Network error'))
+                .mockImplementationOnce((payload) =>
+                    Promise.resolve(createJsonRpcSuccessResponse((payload as JSONRPCRequest).id, 'ok')),
+                );
+            const { tracer, spans } = createTracer();
+
+            const client = createJsonRpcClient(mockTransport, {
+                tracer,
+                retry: { initialDelay: 1, jitter: false },
+                methodOptions: { getUser: { idempotent: true } },
+            });
+            await expect(client.call('getUser')).resolves.toBe('ok');
+
+            expect(spans).toHaveLength(1);
+            expect(spans[0].status).toBeUndefined();
+            expect(mockTransport.mock.calls.map(([payload]) => (payload as JSONRPCRequest)._meta)).toEqual([
+                { traceparent },
+                { traceparent },
+            ]);
+        });
+    });
+
+    describe('message channel transport', () => {
+        function createMockChannel() {
+            const messageListeners = new Set<(message: unknown) => void>();
+            const closeListeners = new Set<() => void>();
+            const channel = {
+                send: vi.fn<Parameters<JsonRpcMessageChannel['send']>, void>(),
+                onMessage: vi.fn((listener: (message: unknown) => void) => {
+                    messageListeners.add(listener);
+                    return () => messageListeners.delete(listener);
+                }),
+                onClose: (listener: () => void) => {
+                    closeListeners.add(listener);
+                    return () => closeListeners.delete(listener);
+                },
+                close: vi.fn(),
+            };
+            return {
+                channel,
+                receive: (message: unknown) => messageListeners.forEach((listener) => listener(message)),
+                closeRemotely: () => closeListeners.forEach((listener) => listener()),
+                listenerCount: () => messageListeners.size,
+            };
+        }
+
+        it('should send cancel notifications on the channel by default', async () => {
+            const { channel } = createMockChannel();
+            const client = createJsonRpcClient(channel);
+            const controller = new AbortController();
+
+            const promise = client.call('slow', undefined, { signal: controller.signal });
+            controller.abort();
+
+            await expect(promise).rejects.toBeInstanceOf(JsonRpcAbortError);
+            expect(channel.send).toHaveBeenLastCalledWith({ jsonrpc: '2.0', method: '$/cancelRequest', params: { id: 1 } });
+        });
+
+        it('should not send cancel notifications on the channel when cancellation is disabled', async () => {
+            const { channel } = createMockChannel();
+            const client = createJsonRpcClient(channel, { cancellation: false });
+            const controller = new AbortController();
+
+            const promise = client.call('slow', undefined, { signal: controller.signal });
+            controller.abort();
+
+            await expect(promise).rejects.toBeInstanceOf(JsonRpcAbortError);
+            expect(channel.send).toHaveBeenCalledTimes(1);
+        });
+
+        it('should send calls on the channel and settle them from incoming messages in any order', async () => {
+            const { channel, receive } = createMockChannel();
+            const client = createJsonRpcClient(channel);
+
+            const first = client.call('first');
+            const second = client.call('second');
+            await Promise.resolve();
+
+            expect(channel.send).toHaveBeenCalledWith({ jsonrpc: '2.0', method: 'first', id: 1 });
+            expect(channel.send).toHaveBeenCalledWith({ jsonrpc: '2.0', method: 'second', id: 2 });
+
+            receive(createJsonRpcSuccessResponse(2, 'second result'));
+            await expect(second).resolves.toBe('second result');
+
+            receive(createJsonRpcErrorResponse(1, createJsonRpcError(-32000, 'Failure')));
+            await expect(first).rejects.toMatchObject({ message: 'Failure', code: -32000 });
+        });
+
+        it('should settle batch calls from a batch response and ignore unrelated messages', async () => {
+            const { channel, receive } = createMockChannel();
+            const client = createJsonRpcClient(channel);
+
+            let a!: Promise<unknown>;
+            let b!: Promise<unknown>;
+            const answered = client.batch((batch) => {
+                a = batch.call('a');
+                b = batch.call('b');
+            });
+
+            receive({ jsonrpc: '2.0', method: 'serverPush', params: {} });
+            receive(createJsonRpcSuccessResponse(42, 'unknown'));
+            receive([createJsonRpcSuccessResponse(2, 'b'), createJsonRpcSuccessResponse(1, 'a')]);
+
+            await answered;
+            await expect(a).resolves.toBe('a');
+            await expect(b).resolves.toBe('b');
+        });
+
+        it('should run interceptors around the responses received on the channel', async () => {
+            const { channel, receive } = createMockChannel();
+            const seen: unknown[] = [];
+            const client = createJsonRpcClient(channel).use(async (_payload, next) => {
+                const response = await next();
+                seen.push(response);
+                return isJSONRPCSuccessResponse(response) ? { ...response, result: `${String(response.result)}!` } : response;
+            });
+
+            const single = client.call('a');
+            const batch = client.batch((builder) => {
+                void builder.call('b');
+                builder.notify('log');
+            });
+            await Promise.resolve();
+            receive(createJsonRpcSuccessResponse(2, 'b'));
+            receive(createJsonRpcSuccessResponse(1, 'a'));
+
+            await expect(single).resolves.toBe('a!');
+            await batch;
+            expect(seen).toEqual([[createJsonRpcSuccessResponse(2, 'b')], createJsonRpcSuccessResponse(1, 'a')]);
+        });
+
+        it('should not keep interceptors waiting for requests given up on or a closed channel', async () => {
+            const { channel, closeRemotely } = createMockChannel();
+            const responses: unknown[] = [];
+            const client = createJsonRpcClient(channel, { cancellation: false }).use(async (_payload, next) => {
+                try {
+                    responses.push(await next());
+                } catch (error) {
+                    responses.push(error);
+                }
+                return null;
+            });
+
+            const controller = new AbortController();
+            const aborted = client.call('aborted', undefined, { signal: controller.signal });
+            const closed = client.call('closed');
+            await Promise.resolve();
+            controller.abort();
+            closeRemotely();
+
+            await expect(aborted).rejects.toBeInstanceOf(JsonRpcAbortError);
+            await expect(closed).rejects.toBeInstanceOf(JsonRpcConnectionClosedError);
+            await vi.waitFor(() => expect(responses).toEqual([null, expect.any(JsonRpcConnectionClosedError)]));
+        });
+
+        it('should leave calls pending until their response arrives', async () => {
+            const { channel, receive } = createMockChannel();
+            const client = createJsonRpcClient(channel);
+            const onSettled = vi.fn();
+
+            const promise = client.call('slow');
+            promise.then(onSettled, onSettled);
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            expect(onSettled).not.toHaveBeenCalled();
+
+            receive(createJsonRpcSuccessResponse(1, 'done'));
+            await expect(promise).resolves.toBe('done');
+        });
+
+        it('should reject pending and later calls once closed', async () => {
+            const { channel, listenerCount } = createMockChannel();
+            const client = createJsonRpcClient(channel);
+
+            const pending = client.call('slow');
+            client.close();
+            client.close();
+
+            await expect(pending).rejects.toBeInstanceOf(JsonRpcConnectionClosedError);
+            await expect(client.call('later')).rejects.toBeInstanceOf(JsonRpcConnectionClosedError);
+            expect(channel.close).toHaveBeenCalledTimes(1);
+            expect(listenerCount()).toBe(0);
+        });
+
+        it('should reject pending calls when the channel is closed by the other side', async () => {
+            const { channel, closeRemotely } = createMockChannel();
+            const client = createJsonRpcClient(channel);
+
+            const pending = client.call('slow');
+            closeRemotely();
+
+            await expect(pending).rejects.toBeInstanceOf(JsonRpcConnectionClosedError);
+            expect(channel.close).not.toHaveBeenCalled();
+        });
+
+        it('should reject calls when sending on the channel fails', async () => {
+            const { channel } = createMockChannel();
+            channel.send.mockImplementation(() => {
+                throw new Error('Socket not open');
+            });
+            const client = createJsonRpcClient(channel);
+
+            await expect(client.call('test')).rejects.toThrow('Socket not open');
+        });
+    });
+
     describe('notify method', () => {
         it('should send a notification with params', () => {
             mockTransport.mockResolvedValue([]);
@@ -184,6 +1269,53 @@ describe('createJsonRpcClient', () => {
         });
     });
 
+    describe('methods proxy', () => {
+        type CalculatorContract = {
+            add: { params: { a: number; b: number }; result: number };
+            reset: { params: undefined; result: boolean };
+        };
+
+        it('should call the remote method named by the property', async () => {
+            mockTransport.mockImplementation((request) => {
+                const req = request as JSONRPCRequest<{ a: number; b: number }>;
+                return Promise.resolve(createJsonRpcSuccessResponse(req.id, req.params!.a + req.params!.b));
+            });
+
+            const client = createJsonRpcClient<CalculatorContract>(mockTransport);
+            const result: number = await client.methods.add({ a: 2, b: 3 });
+
+            expect(result).toBe(5);
+            expect(mockTransport).toHaveBeenCalledWith({
+                jsonrpc: '2.0',
+                method: 'add',
+                id: 1,
+                params: { a: 2, b: 3 },
+            });
+        });
+
+        it('should allow omitting optional params', async () => {
+            mockTransport.mockResolvedValue(createJsonRpcSuccessResponse(1, true));
+
+            const client = createJsonRpcClient<CalculatorContract>(mockTransport);
+            const result = await client.methods.reset();
+
+            expect(result).toBe(true);
+            expect(mockTransport).toHaveBeenCalledWith({
+                jsonrpc: '2.0',
+                method: 'reset',
+                id: 1,
+            });
+        });
+
+        it('should not be mistaken for a thenable', async () => {
+            const client = createJsonRpcClient<CalculatorContract>(mockTransport);
+
+            expect((client.methods as unknown as { then?: unknown }).then).toBeUndefined();
+            await expect(Promise.resolve(client.methods)).resolves.toBe(client.methods);
+            expect(mockTransport).not.toHaveBeenCalled();
+        });
+    });
+
     describe('concurrent operations', () => {
         it('should handle multiple concurrent calls correctly', async () => {
             mockTransport.mockImplementation((request) => {
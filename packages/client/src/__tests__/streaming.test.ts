@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createJsonRpcClient, JsonRpcAbortError, JsonRpcConnectionClosedError } from '../index.js';
+import {
+    createInMemoryChannelPair,
+    createJsonRpcStreamChunkNotification,
+    createJsonRpcSuccessResponse,
+    JSONRPC_CANCEL_REQUEST_METHOD,
+    JSONRPC_STREAM_ACK_METHOD,
+    JSONRPCNotification,
+    JSONRPCRequest,
+} from '@ts-json-rpc/core';
+
+/**
+ * Connects a client to a scripted server end recording the messages it receives.
+ */
+function setup() {
+    const [clientChannel, serverChannel] = createInMemoryChannelPair();
+    const received: (JSONRPCRequest | JSONRPCNotification)[] = [];
+    serverChannel.onMessage((message) => received.push(message as JSONRPCRequest | JSONRPCNotification));
+    const client = createJsonRpcClient(clientChannel);
+    return { client, serverChannel, received };
+}
+
+describe('client.stream', () => {
+    it('should yield chunks as they arrive and acknowledge them as they are consumed', async () => {
+        const { client, serverChannel, received } = setup();
+
+        const iterator = client.stream<string>('tailLogs', { file: 'app.log' })[Symbol.asyncIterator]();
+        const first = iterator.next();
+        await vi.waitFor(() => expect(received).toHaveLength(1));
+        expect(received[0]).toEqual({ jsonrpc: '2.0', method: 'tailLogs', id: 1, params: { file: 'app.log' } });
+
+        serverChannel.send(createJsonRpcStreamChunkNotification(1, 'line 1'));
+        serverChannel.send(createJsonRpcStreamChunkNotification(1, 'line 2'));
+        serverChannel.send(createJsonRpcSuccessResponse(1, null));
+
+        await expect(first).resolves.toEqual({ value: 'line 1', done: false });
+        await vi.waitFor(() => expect(received).toHaveLength(2));
+        expect(received[1]).toEqual({ jsonrpc: '2.0', method: JSONRPC_STREAM_ACK_METHOD, params: { id: 1, count: 1 } });
+
+        await expect(iterator.next()).resolves.toEqual({ value: 'line 2', done: false });
+        await expect(iterator.next()).resolves.toEqual({ value: undefined, done: true });
+    });
+
+    it('should cancel the request when iteration stops early', async () => {
+        const { client, serverChannel, received } = setup();
+        serverChannel.onMessage((message) => {
+            if ((message as JSONRPCRequest).method === 'count') {
+                serverChannel.send(createJsonRpcStreamChunkNotification(1, 1));
+                serverChannel.send(createJsonRpcStreamChunkNotification(1, 2));
+            }
+        });
+
+        const values: number[] = [];
+        for await (const value of client.stream<number>('count')) {
+            values.push(value);
+            break;
+        }
+
+        expect(values).toEqual([1]);
+        await vi.waitFor(() =>
+            expect(received.at(-1)).toEqual({ jsonrpc: '2.0', method: JSONRPC_CANCEL_REQUEST_METHOD, params: { id: 1 } }),
+        );
+    });
+
+    it('should throw a JsonRpcAbortError and cancel the request when the signal is aborted', async () => {
+        const { client, received } = setup();
+        const controller = new AbortController();
+
+        const iterator = client.stream('count', undefined, { signal: controller.signal })[Symbol.asyncIterator]();
+        const next = iterator.next();
+        controller.abort('stop');
+
+        await expect(next).rejects.toBeInstanceOf(JsonRpcAbortError);
+        await vi.waitFor(() => expect(received.map((message) => message.method)).toContain(JSONRPC_CANCEL_REQUEST_METHOD));
+    });
+
+    it('should throw a JsonRpcConnectionClosedError when the connection closes', async () => {
+        const { client, serverChannel } = setup();
+
+        const iterator = client.stream('count')[Symbol.asyncIterator]();
+        const next = iterator.next();
+        serverChannel.close();
+
+        await expect(next).rejects.toBeInstanceOf(JsonRpcConnectionClosedError);
+    });
+
+    it('should iterate over the collected chunks with a transport function', async () => {
+        const transport = vi.fn(async (request: unknown) =>
+            createJsonRpcSuccessResponse((request as JSONRPCRequest).id, ['a', 'b']),
+        );
+        const client = createJsonRpcClient(transport);
+
+        const chunks: string[] = [];
+        for await (const chunk of client.stream<string>('letters')) {
+            chunks.push(chunk);
+        }
+
+        expect(chunks).toEqual(['a', 'b']);
+    });
+});
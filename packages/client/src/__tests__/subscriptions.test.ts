@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createJsonRpcClient, JsonRpcConnectionClosedError } from '../index.js';
+import {
+    createInMemoryChannelPair,
+    createJsonRpcSubscriptionNotification,
+    createJsonRpcSuccessResponse,
+    JSONRPC_UNSUBSCRIBE_METHOD,
+    JSONRPCRequest,
+} from '@ts-json-rpc/core';
+
+/**
+ * Connects a client to a scripted server end, answering subscribe calls with the given ID.
+ */
+function setup(subscriptionId: string | number = 'sub-1') {
+    const [clientChannel, serverChannel] = createInMemoryChannelPair();
+    const requests: JSONRPCRequest[] = [];
+    serverChannel.onMessage((message) => {
+        const request = message as JSONRPCRequest;
+        requests.push(request);
+        const result = request.method === JSONRPC_UNSUBSCRIBE_METHOD ? true : subscriptionId;
+        serverChannel.send(createJsonRpcSuccessResponse(request.id, result));
+    });
+    const client = createJsonRpcClient(clientChannel);
+    const emit = (event: unknown, id = subscriptionId) =>
+        serverChannel.send(createJsonRpcSubscriptionNotification(id, event));
+    return { client, clientChannel, serverChannel, requests, emit };
+}
+
+describe('client.subscribe', () => {
+    it('should deliver events to the callback until unsubscribed', async () => {
+        const { client, requests, emit } = setup();
+        const onEvent = vi.fn();
+
+        const subscription = await client.subscribe('subscribePrices', { symbol: 'ACME' }, onEvent);
+        emit(1);
+        emit(2, 'other');
+        await vi.waitFor(() => expect(onEvent).toHaveBeenCalledTimes(1));
+
+        await subscription.unsubscribe();
+        emit(3);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+
+        expect(subscription.id).toBe('sub-1');
+        expect(onEvent).toHaveBeenCalledWith(1);
+        expect(onEvent).toHaveBeenCalledTimes(1);
+        expect(requests.map((request) => [request.method, request.params])).toEqual([
+            ['subscribePrices', { symbol: 'ACME' }],
+            [JSONRPC_UNSUBSCRIBE_METHOD, { subscription: 'sub-1' }],
+        ]);
+    });
+
+    it('should keep events received before the subscribe call resumes', async () => {
+        const [clientChannel, serverChannel] = createInMemoryChannelPair();
+        serverChannel.onMessage((message) => {
+            serverChannel.send(createJsonRpcSuccessResponse((message as JSONRPCRequest).id, 7));
+            serverChannel.send(createJsonRpcSubscriptionNotification(7, 'first'));
+        });
+        const client = createJsonRpcClient(clientChannel);
+        const onEvent = vi.fn();
+
+        await client.subscribe('watch', undefined, onEvent);
+
+        expect(onEvent).toHaveBeenCalledWith('first');
+    });
+
+    it('should be iterable and unsubscribe when iteration stops', async () => {
+        const { client, requests, emit } = setup();
+
+        const subscription = await client.subscribe<number>('subscribePrices');
+        emit(1);
+        emit(2);
+        emit(3);
+
+        const prices: number[] = [];
+        for await (const price of subscription) {
+            prices.push(price);
+            if (price === 2) {
+                break;
+            }
+        }
+
+        expect(prices).toEqual([1, 2]);
+        expect(requests.at(-1)?.method).toBe(JSONRPC_UNSUBSCRIBE_METHOD);
+    });
+
+    it('should end iteration with an error when the connection closes', async () => {
+        const { client, serverChannel } = setup();
+        const subscription = await client.subscribe('subscribePrices');
+        const iterator = subscription[Symbol.asyncIterator]();
+
+        const next = iterator.next();
+        serverChannel.close();
+
+        await expect(next).rejects.toBeInstanceOf(JsonRpcConnectionClosedError);
+        await expect(iterator.next()).resolves.toEqual({ value: undefined, done: true });
+        await expect(subscription.unsubscribe()).resolves.toBeUndefined();
+    });
+
+    it('should require a message channel transport', async () => {
+        const client = createJsonRpcClient(async () => null);
+
+        await expect(client.subscribe('subscribePrices')).rejects.toThrow(
+            'JSON-RPC subscriptions require a message channel transport',
+        );
+    });
+});
@@ -0,0 +1,239 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createJsonRpcClient, createWebSocketChannel, JsonRpcConnectionClosedError } from '../index.js';
+import { createJsonRpcSuccessResponse, JSONRPCRequest } from '@ts-json-rpc/core';
+
+/**
+ * In-process stand-in for the standard `WebSocket`, driven by the tests as the server side.
+ */
+class FakeWebSocket extends EventTarget {
+    static instances: FakeWebSocket[] = [];
+
+    readyState = 0;
+    sent: string[] = [];
+
+    constructor(
+        readonly url: string | URL,
+        readonly protocols?: string | string[],
+    ) {
+        super();
+        FakeWebSocket.instances.push(this);
+    }
+
+    send(data: string): void {
+        this.sent.push(data);
+    }
+
+    close(): void {
+        this.readyState = 3;
+    }
+
+    /** Server side: accepts the connection */
+    accept(): void {
+        this.readyState = 1;
+        this.dispatchEvent(new Event('open'));
+    }
+
+    /** Server side: sends a frame to the client */
+    receive(data: unknown): void {
+        this.dispatchEvent(new MessageEvent('message', { data: typeof data === 'string' ? data : JSON.stringify(data) }));
+    }
+
+    /** Server side: sends a frame with raw data (e.g. binary) to the client */
+    receiveRaw(data: unknown): void {
+        this.dispatchEvent(new MessageEvent('message', { data }));
+    }
+
+    /** Server side: drops the connection */
+    drop(): void {
+        this.readyState = 3;
+        this.dispatchEvent(new Event('close'));
+    }
+
+    /** Server side: answers every request sent so far with its params */
+    echoRequests(): void {
+        for (const data of this.sent.splice(0)) {
+            const request = JSON.parse(data) as JSONRPCRequest;
+            this.receive(createJsonRpcSuccessResponse(request.id, request.params));
+        }
+    }
+}
+
+function lastSocket(): FakeWebSocket {
+    return FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+}
+
+describe('createWebSocketChannel', () => {
+    const WebSocket = FakeWebSocket as unknown as typeof globalThis.WebSocket;
+
+    beforeEach(() => {
+        FakeWebSocket.instances = [];
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should queue calls until the socket is open and correlate responses', async () => {
+        const client = createJsonRpcClient(createWebSocketChannel('ws://localhost/rpc', { WebSocket, protocols: 'jsonrpc' }));
+        const socket = lastSocket();
+
+        const first = client.call('echo', { value: 1 });
+        const second = client.call('echo', { value: 2 });
+        await Promise.resolve();
+        expect(socket.sent).toHaveLength(0);
+        expect(socket.protocols).toBe('jsonrpc');
+
+        socket.accept();
+        expect(socket.sent.map((data) => JSON.parse(data).id)).toEqual([1, 2]);
+
+        socket.echoRequests();
+        await expect(first).resolves.toEqual({ value: 1 });
+        await expect(second).resolves.toEqual({ value: 2 });
+    });
+
+    it('should reject calls in flight when the connection drops, then reconnect', async () => {
+        const client = createJsonRpcClient(
+            createWebSocketChannel('ws://localhost/rpc', { WebSocket, reconnect: { initialDelay: 100 } }),
+        );
+        lastSocket().accept();
+
+        const inFlight = client.call('echo', 'lost');
+        await Promise.resolve();
+        lastSocket().drop();
+        await expect(inFlight).rejects.toBeInstanceOf(JsonRpcConnectionClosedError);
+
+        const queued = client.call('echo', 'queued');
+        await vi.advanceTimersByTimeAsync(100);
+        expect(FakeWebSocket.instances).toHaveLength(2);
+
+        lastSocket().accept();
+        lastSocket().echoRequests();
+        await expect(queued).resolves.toBe('queued');
+    });
+
+    it('should back off between failed attempts and close the channel when giving up', async () => {
+        const channel = createWebSocketChannel('ws://localhost/rpc', {
+            WebSocket,
+            reconnect: { maxAttempts: 3, initialDelay: 100, factor: 2 },
+        });
+        const onClose = vi.fn();
+        channel.onClose?.(onClose);
+        const client = createJsonRpcClient(channel);
+        const pending = client.call('echo');
+        const assertion = expect(pending).rejects.toBeInstanceOf(JsonRpcConnectionClosedError);
+
+        lastSocket().drop();
+        await vi.advanceTimersByTimeAsync(199);
+        expect(FakeWebSocket.instances).toHaveLength(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(FakeWebSocket.instances).toHaveLength(2);
+
+        lastSocket().drop();
+        await vi.advanceTimersByTimeAsync(400);
+        expect(FakeWebSocket.instances).toHaveLength(3);
+
+        lastSocket().drop();
+        await assertion;
+        expect(onClose).toHaveBeenCalledTimes(1);
+        expect(() => channel.send({ jsonrpc: '2.0', method: 'log' })).toThrow('WebSocket channel is closed');
+    });
+
+    it('should close the channel when the connection drops without reconnect', async () => {
+        const channel = createWebSocketChannel('ws://localhost/rpc', { WebSocket, reconnect: false });
+        const onClose = vi.fn();
+        channel.onClose?.(onClose);
+        lastSocket().accept();
+
+        lastSocket().drop();
+        await vi.advanceTimersByTimeAsync(10_000);
+
+        expect(onClose).toHaveBeenCalledTimes(1);
+        expect(FakeWebSocket.instances).toHaveLength(1);
+    });
+
+    it('should close the socket and stop reconnecting when closed', async () => {
+        const client = createJsonRpcClient(createWebSocketChannel('ws://localhost/rpc', { WebSocket }));
+        const socket = lastSocket();
+        socket.accept();
+
+        const pending = client.call('echo');
+        client.close();
+
+        await expect(pending).rejects.toBeInstanceOf(JsonRpcConnectionClosedError);
+        expect(socket.readyState).toBe(3);
+        socket.drop();
+        await vi.advanceTimersByTimeAsync(10_000);
+        expect(FakeWebSocket.instances).toHaveLength(1);
+    });
+
+    it('should notify close listeners when closed locally', () => {
+        const channel = createWebSocketChannel('ws://localhost/rpc', { WebSocket });
+        const onClose = vi.fn();
+        channel.onClose?.(onClose);
+        lastSocket().accept();
+
+        channel.close();
+        channel.close();
+
+        expect(onClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reconnect when the server stays silent for a heartbeat interval', async () => {
+        const ping = { jsonrpc: '2.0' as const, method: 'ping' };
+        const channel = createWebSocketChannel('ws://localhost/rpc', {
+            WebSocket,
+            reconnect: { initialDelay: 100 },
+            heartbeat: { interval: 1000, message: ping },
+        });
+        const onDisconnect = vi.fn();
+        channel.onDisconnect?.(onDisconnect);
+        const socket = lastSocket();
+        socket.accept();
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(socket.sent).toEqual([JSON.stringify(ping)]);
+        socket.receive({ jsonrpc: '2.0', method: 'pong' });
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(onDisconnect).not.toHaveBeenCalled();
+
+        // Silent server: no frame since the previous heartbeat
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(socket.readyState).toBe(3);
+        expect(onDisconnect).toHaveBeenCalledTimes(1);
+
+        // The late close event of the abandoned socket is ignored
+        socket.drop();
+        await vi.advanceTimersByTimeAsync(100);
+        expect(onDisconnect).toHaveBeenCalledTimes(1);
+        expect(FakeWebSocket.instances).toHaveLength(2);
+    });
+
+    it('should hand frames that are not JSON over as text', () => {
+        const channel = createWebSocketChannel('ws://localhost/rpc', { WebSocket });
+        const listener = vi.fn();
+        channel.onMessage(listener);
+
+        lastSocket().receive('not json');
+
+        expect(listener).toHaveBeenCalledWith('not json');
+    });
+
+    it('should decode binary frames and ignore frames it cannot decode', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const channel = createWebSocketChannel('ws://localhost/rpc', { WebSocket });
+        const listener = vi.fn();
+        channel.onMessage(listener);
+        const socket = lastSocket();
+        const response = createJsonRpcSuccessResponse(1, 'ok');
+
+        socket.receiveRaw(new TextEncoder().encode(JSON.stringify(response)).buffer);
+        socket.receiveRaw(new Blob(['{}']));
+
+        expect(socket).toHaveProperty('binaryType', 'arraybuffer');
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith(response);
+        expect(warn).toHaveBeenCalledWith('JSON-RPC WebSocket frame ignored, its data cannot be decoded:', expect.any(Blob));
+        warn.mockRestore();
+    });
+});
@@ -0,0 +1,94 @@
+import { JSONRPCRequest, JSONRPCNotification } from '@ts-json-rpc/core';
+
+/**
+ * Configuration of automatic request coalescing.
+ *
+ * @example
+ * ```typescript
+ * // Collect everything issued within 10ms, up to 20 messages per batch
+ * const batching: JsonRpcBatchingOptions = { window: 10, maxBatchSize: 20 };
+ * ```
+ */
+export interface JsonRpcBatchingOptions {
+    /**
+     * How long messages are collected before being sent.
+     * - `'microtask'` (default): messages issued in the same tick are sent together
+     * - number: messages issued within this many milliseconds are sent together
+     */
+    window?: 'microtask' | number;
+    /**
+     * Maximum number of messages per batch. The batch is sent as soon as it is reached.
+     * Defaults to no limit.
+     */
+    maxBatchSize?: number;
+}
+
+/**
+ * Queue collecting outgoing messages and flushing them in batches.
+ *
+ * @internal
+ */
+export interface JsonRpcMessageQueue {
+    /**
+     * Adds a message to the current batch, scheduling a flush if needed.
+     *
+     * @param message The request or notification to send
+     */
+    enqueue(message: JSONRPCRequest | JSONRPCNotification): void;
+}
+
+/**
+ * Creates a queue coalescing messages according to the batching options.
+ *
+ * @param options The batching options
+ * @param flush Function sending the collected messages
+ * @returns The message queue
+ *
+ * @internal
+ */
+export function createMessageQueue(
+    options: JsonRpcBatchingOptions,
+    flush: (messages: (JSONRPCRequest | JSONRPCNotification)[]) => void,
+): JsonRpcMessageQueue {
+    const window = options.window ?? 'microtask';
+    const maxBatchSize = options.maxBatchSize ?? Infinity;
+    let queue: (JSONRPCRequest | JSONRPCNotification)[] = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let scheduled = false;
+
+    function flushQueue(): void {
+        if (timer !== undefined) {
+            clearTimeout(timer);
+            timer = undefined;
+        }
+        scheduled = false;
+
+        const messages = queue;
+        queue = [];
+        if (messages.length > 0) {
+            flush(messages);
+        }
+    }
+
+    function enqueue(message: JSONRPCRequest | JSONRPCNotification): void {
+        queue.push(message);
+
+        if (queue.length >= maxBatchSize) {
+            flushQueue();
+            return;
+        }
+
+        if (!scheduled) {
+            scheduled = true;
+            if (window === 'microtask') {
+                queueMicrotask(flushQueue);
+            } else {
+                timer = setTimeout(flushQueue, window);
+            }
+        }
+    }
+
+    return {
+        enqueue,
+    };
+}
@@ -0,0 +1,194 @@
+import { JsonRpcValidationIssue } from '@ts-json-rpc/core';
+
+/**
+ * Error thrown when a call result does not satisfy the result schema passed to `call`.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.call('getUser', { id: 1 }, { result: userSchema });
+ * } catch (error) {
+ *   if (error instanceof JsonRpcResultValidationError) {
+ *     console.error(error.method, error.id, error.issues);
+ *   }
+ * }
+ * ```
+ */
+export class JsonRpcResultValidationError extends Error {
+    /** Name of the called method */
+    readonly method: string;
+    /** ID of the request whose result was rejected */
+    readonly id: string | number;
+    /** Issues reported by the result validator */
+    readonly issues: JsonRpcValidationIssue[];
+
+    /**
+     * @param method Name of the called method
+     * @param id ID of the request whose result was rejected
+     * @param issues Issues reported by the result validator
+     */
+    constructor(method: string, id: string | number, issues: JsonRpcValidationIssue[]) {
+        super(`Invalid result for JSON-RPC method ${method}`);
+        this.name = 'JsonRpcResultValidationError';
+        this.method = method;
+        this.id = id;
+        this.issues = issues;
+    }
+}
+
+/**
+ * Error thrown when the transport completed without returning a response for a request,
+ * for example when a batch response omits one of the requests.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.call('add', { a: 1, b: 2 });
+ * } catch (error) {
+ *   if (error instanceof JsonRpcMissingResponseError) {
+ *     console.error(`No response for request ${error.id}`);
+ *   }
+ * }
+ * ```
+ */
+export class JsonRpcMissingResponseError extends Error {
+    /** ID of the request left without a response */
+    readonly id: string | number;
+
+    /**
+     * @param id ID of the request left without a response
+     */
+    constructor(id: string | number) {
+        super(`No response received for JSON-RPC request ${id}`);
+        this.name = 'JsonRpcMissingResponseError';
+        this.id = id;
+    }
+}
+
+/**
+ * Error thrown when a call did not receive a response within its timeout.
+ * The request is no longer tracked by the client; a late response is ignored.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.call('slowMethod', undefined, { timeout: 1000 });
+ * } catch (error) {
+ *   if (error instanceof JsonRpcTimeoutError) {
+ *     console.error(`${error.method} timed out after ${error.timeout}ms`);
+ *   }
+ * }
+ * ```
+ */
+export class JsonRpcTimeoutError extends Error {
+    /** Name of the called method */
+    readonly method: string;
+    /** ID of the request that timed out */
+    readonly id: string | number;
+    /** Timeout that elapsed, in milliseconds */
+    readonly timeout: number;
+
+    /**
+     * @param method Name of the called method
+     * @param id ID of the request that timed out
+     * @param timeout Timeout that elapsed, in milliseconds
+     */
+    constructor(method: string, id: string | number, timeout: number) {
+        super(`JSON-RPC request ${id} (${method}) timed out after ${timeout}ms`);
+        this.name = 'JsonRpcTimeoutError';
+        this.method = method;
+        this.id = id;
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * Error thrown when a call is cancelled through its `AbortSignal`.
+ * The request is no longer tracked by the client; a late response is ignored.
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const promise = client.call('search', { query }, { signal: controller.signal });
+ * controller.abort();
+ *
+ * await promise; // rejects with a JsonRpcAbortError
+ * ```
+ */
+export class JsonRpcAbortError extends Error {
+    /** Name of the called method */
+    readonly method: string;
+    /** ID of the aborted request, or null if the call was aborted before being sent */
+    readonly id: string | number | null;
+    /** Reason passed to `AbortController.abort()` */
+    readonly reason: unknown;
+
+    /**
+     * @param method Name of the called method
+     * @param id ID of the aborted request, or null if the call was aborted before being sent
+     * @param reason Reason passed to `AbortController.abort()`
+     */
+    constructor(method: string, id: string | number | null, reason: unknown) {
+        super(id === null ? `JSON-RPC call to ${method} was aborted` : `JSON-RPC request ${id} (${method}) was aborted`);
+        this.name = 'JsonRpcAbortError';
+        this.method = method;
+        this.id = id;
+        this.reason = reason;
+    }
+}
+
+/**
+ * Error thrown for calls still pending when the client is closed, or made after it was closed,
+ * including when the other side of a message channel closes the connection.
+ *
+ * @example
+ * ```typescript
+ * const promise = client.call('watch', { path });
+ * client.close();
+ *
+ * await promise; // rejects with a JsonRpcConnectionClosedError
+ * ```
+ */
+export class JsonRpcConnectionClosedError extends Error {
+    constructor() {
+        super('JSON-RPC connection closed');
+        this.name = 'JsonRpcConnectionClosedError';
+    }
+}
+
+/**
+ * Error thrown by the fetch transport when the server answers with an HTTP error status
+ * and no JSON-RPC response.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.call('add', { a: 1, b: 2 });
+ * } catch (error) {
+ *   if (error instanceof JsonRpcHttpError && error.status === 401) {
+ *     redirectToLogin();
+ *   }
+ * }
+ * ```
+ */
+export class JsonRpcHttpError extends Error {
+    /** HTTP status code */
+    readonly status: number;
+    /** HTTP status text */
+    readonly statusText: string;
+    /** Response body, as text */
+    readonly body: string;
+
+    /**
+     * @param status HTTP status code
+     * @param statusText HTTP status text
+     * @param body Response body, as text
+     */
+    constructor(status: number, statusText: string, body: string) {
+        super(`JSON-RPC HTTP request failed with status ${status}${statusText ? ` ${statusText}` : ''}`);
+        this.name = 'JsonRpcHttpError';
+        this.status = status;
+        this.statusText = statusText;
+        this.body = body;
+    }
+}
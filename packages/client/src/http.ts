@@ -0,0 +1,128 @@
+import { isJSONRPCResponse } from '@ts-json-rpc/core';
+
+import { JsonRpcHttpError } from './errors.js';
+import type { JsonRpcClientTransportResult } from './interceptors.js';
+
+import type { JsonRpcClientTransport } from './index.js';
+
+/**
+ * Configuration options for the fetch transport.
+ *
+ * @example
+ * ```typescript
+ * const options: JsonRpcFetchTransportOptions = {
+ *   headers: async () => ({ Authorization: `Bearer ${await getToken()}` }),
+ *   init: { credentials: 'include' },
+ * };
+ * ```
+ */
+export interface JsonRpcFetchTransportOptions {
+    /**
+     * Extra request headers, or a function returning them for every request (e.g. to add a fresh token).
+     * `Content-Type` and `Accept` default to `application/json`.
+     */
+    headers?: HeadersInit | (() => HeadersInit | Promise<HeadersInit>);
+    /**
+     * Extra `fetch` options (credentials, mode, keepalive...). The method and body are set by the transport.
+     */
+    init?: Omit<RequestInit, 'method' | 'body' | 'headers'>;
+    /**
+     * Custom handling of HTTP responses, called before the default handling.
+     * Return the response payload to use it, throw to reject the payload's calls,
+     * or return `undefined` to fall back to the default handling.
+     *
+     * @param response The HTTP response
+     * @returns The response payload, or undefined to use the default handling
+     */
+    onResponse?: (
+        response: Response,
+    ) => JsonRpcClientTransportResult | undefined | Promise<JsonRpcClientTransportResult | undefined>;
+    /**
+     * `fetch` implementation to use. Defaults to the global `fetch`.
+     */
+    fetch?: typeof fetch;
+}
+
+/**
+ * Parses a response body as JSON.
+ *
+ * @param text The response body
+ * @returns The parsed body, or undefined if it is not valid JSON
+ */
+function parseBody(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Checks whether a parsed body is a JSON-RPC response or a batch of responses.
+ *
+ * @param body The parsed body
+ * @returns True if the body can be handed to the client
+ */
+function isResponsePayload(body: unknown): body is JsonRpcClientTransportResult {
+    return Array.isArray(body) ? body.every(isJSONRPCResponse) : isJSONRPCResponse(body);
+}
+
+/**
+ * Creates a client transport sending payloads as HTTP `POST` requests with `fetch`.
+ *
+ * - 204 No Content and empty bodies (e.g. for notification-only payloads) resolve to no response
+ * - JSON-RPC responses are returned whatever the HTTP status, so that servers answering errors
+ *   with 4xx/5xx statuses still reject calls with the JSON-RPC error
+ * - Other error statuses reject the payload's calls with a `JsonRpcHttpError`
+ *
+ * @param url The URL of the JSON-RPC endpoint
+ * @param options Optional configuration for the transport
+ * @returns A transport function for `createJsonRpcClient`
+ *
+ * @example
+ * ```typescript
+ * const client = createJsonRpcClient(
+ *   createFetchTransport('https://example.com/rpc', {
+ *     headers: { Authorization: `Bearer ${token}` },
+ *   }),
+ * );
+ * ```
+ */
+export function createFetchTransport(url: string | URL, options: JsonRpcFetchTransportOptions = {}): JsonRpcClientTransport {
+    return async (payload) => {
+        const fetchImplementation = options.fetch ?? globalThis.fetch;
+        const headers = new Headers({ 'Content-Type': 'application/json', Accept: 'application/json' });
+        const extraHeaders = typeof options.headers === 'function' ? await options.headers() : options.headers;
+        new Headers(extraHeaders).forEach((value, name) => headers.set(name, value));
+
+        const response = await fetchImplementation(url, {
+            ...options.init,
+            method: 'POST',
+            headers,
+            body: JSON.stringify(payload),
+        });
+
+        const handled = await options.onResponse?.(response);
+        if (handled !== undefined) {
+            return handled;
+        }
+
+        if (response.status === 204) {
+            return null;
+        }
+
+        const text = await response.text();
+        const body = parseBody(text);
+        if (isResponsePayload(body)) {
+            return body;
+        }
+
+        if (!response.ok) {
+            throw new JsonRpcHttpError(response.status, response.statusText, text);
+        }
+        if (text.trim() === '') {
+            return null;
+        }
+        throw new Error('Invalid JSON-RPC response received over HTTP');
+    };
+}
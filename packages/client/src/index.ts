@@ -2,18 +2,69 @@ import {
     JSONRPCRequest,
     JSONRPCResponse,
     JSONRPCNotification,
-    JSONRPCSuccessResponse,
-    JSONRPCErrorResponse,
+    JSONRPCError,
     createJsonRpcRequest,
     createJsonRpcNotification,
+    createJsonRpcCancelNotification,
+    isJSONRPCRequest,
     isJSONRPCSuccessResponse,
     isJSONRPCErrorResponse,
+    isJSONRPCResponse,
+    JsonRpcContract,
+    JsonRpcContractMethod,
+    JsonRpcContractMethodName,
+    JsonRpcContractParams,
+    JsonRpcContractResult,
+    JsonRpcMessageChannel,
+    JsonRpcSchema,
+    toJsonRpcValidator,
+    isJsonRpcSubscriptionNotification,
+    JSONRPC_UNSUBSCRIBE_METHOD,
+    JsonRpcUnsubscribeParams,
+    createJsonRpcStreamAckNotification,
+    isJsonRpcStreamChunkNotification,
+    createJsonRpcException,
+    JsonRpcRequestMeta,
+    JsonRpcTracer,
 } from '@ts-json-rpc/core';
 
+import { createMessageQueue, JsonRpcBatchingOptions } from './batching.js';
+import {
+    JsonRpcAbortError,
+    JsonRpcConnectionClosedError,
+    JsonRpcMissingResponseError,
+    JsonRpcResultValidationError,
+    JsonRpcTimeoutError,
+} from './errors.js';
+import {
+    composeInterceptors,
+    JsonRpcClientInterceptor,
+    JsonRpcClientPayload,
+    JsonRpcClientTransportResult,
+} from './interceptors.js';
+import { createAsyncQueue } from './queue.js';
+import { JsonRpcRetryPolicy, runWithRetry } from './retry.js';
+import { createSubscriptionHandle, JsonRpcSubscription, JsonRpcSubscriptionHandle } from './subscriptions.js';
+import { traceCall } from './tracing.js';
+
+export type { JsonRpcBatchingOptions } from './batching.js';
+export * from './errors.js';
+export * from './http.js';
+export type {
+    JsonRpcClientInterceptor,
+    JsonRpcClientInterceptorNext,
+    JsonRpcClientPayload,
+    JsonRpcClientTransportResult,
+} from './interceptors.js';
+export type { JsonRpcRetryPolicy } from './retry.js';
+export type { JsonRpcSubscription } from './subscriptions.js';
+export * from './websocket.js';
+
 /**
  * Transport function type for JSON-RPC client.
  * This function is responsible for sending JSON-RPC requests/notifications to the server
  * and returning the responses. It abstracts the underlying transport mechanism (HTTP, WebSocket, etc.).
+ * Persistent connections delivering responses at any time should use a `JsonRpcMessageChannel` instead.
  * 
  * @param request A single request/notification or an array of requests/notifications for batch processing
  * @returns A promise that resolves to a single response or array of responses
@@ -31,12 +82,255 @@ import {
  * ```
  */
 export type JsonRpcClientTransport = (
-    request: JSONRPCRequest | JSONRPCNotification | (JSONRPCRequest | JSONRPCNotification)[]
-) => Promise<JSONRPCResponse | JSONRPCResponse[]>;
+    request: JsonRpcClientPayload
+) => Promise<JsonRpcClientTransportResult>;
+
+/**
+ * Configuration options for the JSON-RPC client.
+ * 
+ * @example
+ * ```typescript
+ * const options: JsonRpcClientOptions = {
+ *   batching: { window: 10, maxBatchSize: 20 },
+ *   interceptors: [
+ *     async (payload, next) => {
+ *       console.debug('-->', payload);
+ *       return next();
+ *     },
+ *   ],
+ * };
+ * ```
+ */
+export interface JsonRpcClientOptions {
+    /**
+     * Optional interceptors wrapped around the transport for every call, notification and batch.
+     * They run in array order, the first being the outermost; more can be added later with `client.use`.
+     */
+    interceptors?: JsonRpcClientInterceptor[];
+    /**
+     * Opt-in coalescing of calls and notifications into JSON-RPC batches.
+     * When enabled, messages issued within the batching window are sent together through the transport
+     * and each caller's promise is still settled individually. `true` uses the default options
+     * (same microtask, no size limit). Explicit `client.batch` calls are never coalesced.
+     */
+    batching?: boolean | JsonRpcBatchingOptions;
+    /**
+     * Default time in milliseconds to wait for a response before rejecting the call
+     * with a `JsonRpcTimeoutError`. Can be overridden per call. Defaults to no timeout.
+     */
+    timeout?: number;
+    /**
+     * Whether to send a `$/cancelRequest` notification when a call is aborted or times out,
+     * so that the server can stop working on it. Defaults to `true` on message channels,
+     * and to `false` with a transport function, as a stateless server (e.g. over HTTP) cannot match
+     * the notification with the request.
+     */
+    cancellation?: boolean;
+    /**
+     * Default retry policy for failed calls. Only methods marked as `idempotent` in `methodOptions`
+     * are ever retried, so that a call with side effects cannot run twice by accident.
+     */
+    retry?: JsonRpcRetryPolicy;
+    /**
+     * Per-method configuration keyed by method name.
+     */
+    methodOptions?: Record<string, JsonRpcClientMethodOptions>;
+    /**
+     * Optional tracer creating a span per call (see `JsonRpcTracer`). The `traceparent` of the span
+     * is sent in the `_meta` member of the request, so that the server span becomes its child.
+     */
+    tracer?: JsonRpcTracer;
+}
+
+/**
+ * Configuration of a single remote method.
+ * 
+ * @example
+ * ```typescript
+ * const methodOptions: Record<string, JsonRpcClientMethodOptions> = {
+ *   getUser: { idempotent: true },
+ *   search: { idempotent: true, retry: { maxAttempts: 5 } },
+ *   createOrder: { idempotent: false },
+ * };
+ * ```
+ */
+export interface JsonRpcClientMethodOptions {
+    /**
+     * Marks the method as safe to call several times with the same params.
+     * Calls are only retried for idempotent methods. Defaults to `false`.
+     */
+    idempotent?: boolean;
+    /**
+     * Retry policy overriding fields of the client `retry` option for this method,
+     * or `false` to disable retries for it.
+     */
+    retry?: JsonRpcRetryPolicy | false;
+}
+
+/**
+ * Options accepted by a single call.
+ * 
+ * @template TResult The expected type of the result
+ * 
+ * @example
+ * ```typescript
+ * const options: JsonRpcCallOptions<User> = {
+ *   result: userSchema,
+ *   timeout: 5000,
+ *   signal: controller.signal,
+ * };
+ * ```
+ */
+export interface JsonRpcCallOptions<TResult = unknown> {
+    /**
+     * Optional schema the result must satisfy.
+     * Accepts a `JsonRpcValidator` or any Zod/Valibot-style schema with `safeParse` or `parse`.
+     * A result that does not match rejects the call with a `JsonRpcResultValidationError`,
+     * otherwise the call resolves to the validated (possibly transformed) value.
+     */
+    result?: JsonRpcSchema<TResult>;
+    /**
+     * Time in milliseconds to wait for the response before rejecting with a `JsonRpcTimeoutError`.
+     * Overrides the client `timeout` option; `0` disables the timeout for this call.
+     */
+    timeout?: number;
+    /**
+     * Signal cancelling the call. Aborting rejects the call with a `JsonRpcAbortError`;
+     * an already aborted signal rejects without sending the request.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Options accepted by a streamed call.
+ * 
+ * @example
+ * ```typescript
+ * const options: JsonRpcStreamOptions = { signal: AbortSignal.timeout(10_000) };
+ * ```
+ */
+export interface JsonRpcStreamOptions {
+    /**
+     * Signal cancelling the stream. Aborting makes iteration throw a `JsonRpcAbortError`
+     * and tells the server to stop producing chunks.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Function signature used to call a single contract method through the typed proxy.
+ * Parameters are optional when the contract allows `undefined` for them.
+ * 
+ * @template TMethod The contract method description
+ */
+export type JsonRpcContractCaller<TMethod extends JsonRpcContractMethod> =
+    undefined extends TMethod['params']
+        ? (params?: TMethod['params'], options?: JsonRpcCallOptions<TMethod['result']>) => Promise<TMethod['result']>
+        : (params: TMethod['params'], options?: JsonRpcCallOptions<TMethod['result']>) => Promise<TMethod['result']>;
+
+/**
+ * Typed proxy exposing every method of a contract as an async function.
+ * 
+ * @template TContract The contract describing the remote methods
+ * 
+ * @example
+ * ```typescript
+ * type CalculatorContract = {
+ *   add: { params: { a: number; b: number }; result: number };
+ * };
+ * 
+ * const methods: JsonRpcClientMethods<CalculatorContract> = client.methods;
+ * const sum = await methods.add({ a: 1, b: 2 }); // sum: number
+ * ```
+ */
+export type JsonRpcClientMethods<TContract extends JsonRpcContract> = {
+    readonly [TMethod in keyof TContract & string]: JsonRpcContractCaller<TContract[TMethod]>;
+};
+
+/**
+ * Signature of `client.call`.
+ * With a contract, only its methods can be called, and params and result are typed from it;
+ * with the default contract, any method can be called and the result type is given explicitly.
+ * 
+ * @template TContract The contract describing the remote methods
+ * 
+ * @example
+ * ```typescript
+ * const typed: JsonRpcClientCall<CalculatorContract> = client.call;
+ * const sum = await typed('add', { a: 1, b: 2 }); // sum: number
+ * ```
+ */
+export type JsonRpcClientCall<TContract extends JsonRpcContract> = string extends keyof TContract
+    ? <TResult = unknown, TParams = unknown>(
+          method: string,
+          params?: TParams,
+          options?: JsonRpcCallOptions<TResult>
+      ) => Promise<TResult>
+    : <TMethod extends JsonRpcContractMethodName<TContract>>(
+          method: TMethod,
+          ...args: Parameters<JsonRpcContractCaller<TContract[TMethod]>>
+      ) => Promise<JsonRpcContractResult<TContract, TMethod>>;
+
+/**
+ * Signature of `client.notify`.
+ * With a contract, only its methods can be notified, with params typed from it;
+ * with the default contract, any method and params are accepted.
+ * 
+ * @template TContract The contract describing the remote methods
+ */
+export type JsonRpcClientNotify<TContract extends JsonRpcContract> = string extends keyof TContract
+    ? <TParams = unknown>(method: string, params?: TParams) => void
+    : <TMethod extends JsonRpcContractMethodName<TContract>>(
+          method: TMethod,
+          ...args: undefined extends JsonRpcContractParams<TContract, TMethod>
+              ? [params?: JsonRpcContractParams<TContract, TMethod>]
+              : [params: JsonRpcContractParams<TContract, TMethod>]
+      ) => void;
+
+/**
+ * Builder collecting the calls and notifications of a batch.
+ * Each call returns a promise settled individually once the batch response arrives.
+ * 
+ * @example
+ * ```typescript
+ * await client.batch((batch) => {
+ *   const sum = batch.call<number>('add', { a: 1, b: 2 });
+ *   batch.notify('log', { message: 'batched' });
+ * });
+ * ```
+ */
+export interface JsonRpcBatchBuilder {
+    /**
+     * Adds a call to the batch.
+     * 
+     * @template TResult The expected type of the result
+     * @template TParams The type of the parameters object
+     * @param method The name of the remote method to call
+     * @param params Optional parameters to pass to the method
+     * @param options Optional per-call options (e.g. a result schema)
+     * @returns A promise that resolves to the method result or rejects with an error
+     */
+    call<TResult = unknown, TParams = unknown>(
+        method: string,
+        params?: TParams,
+        options?: JsonRpcCallOptions<TResult>
+    ): Promise<TResult>;
+
+    /**
+     * Adds a notification to the batch.
+     * 
+     * @template TParams The type of the parameters object
+     * @param method The name of the remote method to call
+     * @param params Optional parameters to pass to the method
+     */
+    notify<TParams = unknown>(method: string, params?: TParams): void;
+}
 
 /**
  * JSON-RPC client interface providing methods for making RPC calls and sending notifications.
  * 
+ * @template TContract The contract describing the remote methods (defaults to untyped methods)
+ * 
  * @example
  * ```typescript
  * const client = createJsonRpcClient(transport);
@@ -48,45 +342,182 @@ export type JsonRpcClientTransport = (
  * client.notify('log', { message: 'Hello world' });
  * ```
  */
-export interface JsonRpcClient {
+export interface JsonRpcClient<TContract extends JsonRpcContract = JsonRpcContract> {
     /**
-     * Makes a JSON-RPC call and waits for a response.
+     * Typed proxy for the methods declared by the client contract.
+     * Each property access returns a function that performs a `call` for that method.
      * 
-     * @template TResult The expected type of the result
-     * @template TParams The type of the parameters object
-     * @param method The name of the remote method to call
-     * @param params Optional parameters to pass to the method
-     * @returns A promise that resolves to the method result or rejects with an error
+     * @example
+     * ```typescript
+     * const client = createJsonRpcClient<CalculatorContract>(transport);
+     * const sum = await client.methods.add({ a: 1, b: 2 }); // sum: number
+     * 
+     * client.methods.substract({ a: 1 }); // Compile-time error: unknown method
+     * ```
+     */
+    readonly methods: JsonRpcClientMethods<TContract>;
+
+    /**
+     * Makes a JSON-RPC call and waits for a response.
+     * With a contract, the method name, params and result are checked against it (see `JsonRpcClientCall`).
+     * Takes the name of the remote method, its params, and optional per-call options (e.g. a result schema),
+     * and returns a promise that resolves to the method result or rejects with a `JsonRpcException` for JSON-RPC errors.
      * 
      * @example
      * ```typescript
      * const result = await client.call<number>('add', { a: 1, b: 2 });
      * console.log(result); // 3
+     * 
+     * // Reject malformed results with a JsonRpcResultValidationError
+     * const user = await client.call('getUser', { id: 1 }, { result: userSchema });
+     * 
+     * // With a contract
+     * const typedClient = createJsonRpcClient<CalculatorContract>(transport);
+     * const sum = await typedClient.call('add', { a: 1, b: 2 }); // sum: number
+     * typedClient.call('add', { a: '1' }); // Compile-time error: wrong params
      * ```
      */
-    call<TResult = unknown, TParams = unknown>(
-        method: string,
-        params?: TParams
-    ): Promise<TResult>;
+    readonly call: JsonRpcClientCall<TContract>;
     
     /**
      * Sends a JSON-RPC notification (fire-and-forget).
      * Notifications do not expect a response and any errors are logged to console.
+     * With a contract, the method name and params are checked against it (see `JsonRpcClientNotify`).
+     * 
+     * @example
+     * ```typescript
+     * client.notify('log', { message: 'Operation completed' });
+     * client.notify('updateStatus', { status: 'active' });
+     * ```
+     */
+    readonly notify: JsonRpcClientNotify<TContract>;
+
+    /**
+     * Sends several calls and notifications as a single JSON-RPC batch.
+     * The builder runs synchronously; every entry added to it is sent in one transport round trip,
+     * and each call promise is settled individually from the batch response.
+     * Calls left without a response reject with a `JsonRpcMissingResponseError`.
+     * 
+     * @param build Function adding the entries of the batch
+     * @returns A promise that resolves once the batch response has been dispatched,
+     * or rejects if the transport fails
+     * 
+     * @example
+     * ```typescript
+     * let sum: Promise<number>;
+     * let user: Promise<User>;
+     * 
+     * await client.batch((batch) => {
+     *   sum = batch.call('add', { a: 1, b: 2 });
+     *   user = batch.call('getUser', { id: 1 });
+     *   batch.notify('log', { message: 'batched' });
+     * });
+     * 
+     * console.log(await sum, await user);
+     * ```
+     */
+    batch(build: (batch: JsonRpcBatchBuilder) => void): Promise<void>;
+
+    /**
+     * Subscribes to server events: calls a method creating a subscription on the server,
+     * which answers with a subscription ID and then pushes events as `$/subscription` notifications.
+     * Requires a message channel transport.
+     * 
+     * Events are delivered to `onEvent` or, without it, through the async iterable subscription.
+     * When the connection drops or closes, the subscription ends with a `JsonRpcConnectionClosedError`.
      * 
+     * @template TEvent The type of the events
+     * @template TParams The type of the parameters object
+     * @param method The name of the remote method creating the subscription
+     * @param params Optional parameters to pass to the method
+     * @param onEvent Optional callback receiving every event
+     * @returns A promise that resolves to the subscription once the server has created it
+     * 
+     * @example
+     * ```typescript
+     * // Callback style
+     * const subscription = await client.subscribe('subscribeLogs', { level: 'error' }, (entry) => {
+     *   console.error(entry);
+     * });
+     * await subscription.unsubscribe();
+     * 
+     * // Async iteration
+     * for await (const price of await client.subscribe<number>('subscribePrices', { symbol: 'ACME' })) {
+     *   console.log(price);
+     * }
+     * ```
+     */
+    subscribe<TEvent = unknown, TParams = unknown>(
+        method: string,
+        params?: TParams,
+        onEvent?: (event: TEvent) => void
+    ): Promise<JsonRpcSubscription<TEvent>>;
+
+    /**
+     * Calls a method whose handler streams its result (returns an `AsyncIterable`), and iterates
+     * over the chunks as they arrive. The request is sent when iteration starts.
+     * 
+     * On a message channel, chunks arrive as `$/streamChunk` notifications and are acknowledged
+     * as they are consumed, so the server pauses while the consumer lags behind (backpressure).
+     * Stopping iteration early (`break`) or aborting the signal sends a `$/cancelRequest` notification.
+     * With a transport function, the server answers with the chunks collected into an array,
+     * which is iterated over instead.
+     * 
+     * @template TChunk The type of the chunks
      * @template TParams The type of the parameters object
      * @param method The name of the remote method to call
      * @param params Optional parameters to pass to the method
+     * @param options Optional stream options (e.g. an abort signal)
+     * @returns An async iterable over the chunks of the result
      * 
      * @example
      * ```typescript
-     * client.notify('log', { message: 'Operation completed' });
-     * client.notify('updateStatus', { status: 'active' });
+     * for await (const line of client.stream<string>('tailLogs', { file: 'app.log' })) {
+     *   console.log(line);
+     *   if (line.includes('ready')) {
+     *     break; // Cancels the request on the server
+     *   }
+     * }
      * ```
      */
-    notify<TParams = unknown>(
+    stream<TChunk = unknown, TParams = unknown>(
         method: string,
-        params?: TParams
-    ): void;
+        params?: TParams,
+        options?: JsonRpcStreamOptions
+    ): AsyncIterable<TChunk>;
+
+    /**
+     * Registers an interceptor wrapped around the transport for every call, notification and batch.
+     * Interceptors run in registration order, after those passed in the client options;
+     * the first registered is the outermost.
+     * 
+     * @param interceptor The interceptor to register
+     * @returns The client instance, for chaining
+     * 
+     * @example
+     * ```typescript
+     * client.use(async (payload, next) => {
+     *   const start = Date.now();
+     *   const response = await next();
+     *   console.debug(`JSON-RPC round trip took ${Date.now() - start}ms`);
+     *   return response;
+     * });
+     * ```
+     */
+    use(interceptor: JsonRpcClientInterceptor): JsonRpcClient<TContract>;
+
+    /**
+     * Closes the client, and its message channel if it was created with one.
+     * Pending calls and any later call reject with a `JsonRpcConnectionClosedError`.
+     * 
+     * @example
+     * ```typescript
+     * const client = createJsonRpcClient(channel);
+     * // ...
+     * client.close();
+     * ```
+     */
+    close(): void;
 }
 
 /**
@@ -103,11 +534,32 @@ type PendingRequest = {
 };
 
 /**
- * Creates a JSON-RPC 2.0 client with the provided transport function.
+ * Internal type representing a payload sent on a message channel, waiting for the responses
+ * of its requests before handing them to the interceptors.
+ * 
+ * @internal
+ */
+type PendingChannelPayload = {
+    /** Function collecting the response of one of the requests */
+    collect: (id: string | number, response: JSONRPCResponse) => void;
+    /** Function to stop waiting for a request given up on (timed out, aborted...) */
+    release: (id: string | number) => void;
+    /** Function to reject the payload, e.g. when the connection closes */
+    fail: (error: Error) => void;
+};
+
+/**
+ * Creates a JSON-RPC 2.0 client with the provided transport.
  * The client manages request IDs, handles responses, and provides a simple interface
  * for making RPC calls and sending notifications.
  * 
- * @param transport The transport function to use for sending requests
+ * The transport is either a function returning the responses of each payload,
+ * or a duplex `JsonRpcMessageChannel` on which responses may arrive at any time and in any order;
+ * they are then correlated to pending calls by ID.
+ * 
+ * @template TContract The contract describing the remote methods (defaults to untyped methods)
+ * @param transport The transport function or message channel to use for sending requests
+ * @param options Optional configuration for the client
  * @returns A JSON-RPC client instance
  * 
  * @example
@@ -127,11 +579,38 @@ type PendingRequest = {
  * // Use the client
  * const result = await client.call('add', { a: 1, b: 2 });
  * client.notify('log', { message: 'Hello world' });
+ * 
+ * // Typed calls through a shared contract
+ * const typedClient = createJsonRpcClient<CalculatorContract>(httpTransport);
+ * const sum = await typedClient.methods.add({ a: 1, b: 2 });
+ * 
+ * // Persistent connection
+ * const channelClient = createJsonRpcClient(webSocketChannel);
  * ```
  */
-export function createJsonRpcClient(transport: JsonRpcClientTransport): JsonRpcClient {
+export function createJsonRpcClient<TContract extends JsonRpcContract = JsonRpcContract>(
+    transport: JsonRpcClientTransport | JsonRpcMessageChannel,
+    options: JsonRpcClientOptions = {},
+): JsonRpcClient<TContract> {
     let nextId = 1;
+    let closed = false;
+    const channel = typeof transport === 'function' ? undefined : transport;
     const pendingRequests = new Map<string | number, PendingRequest>();
+    // Payloads sent on the message channel, by the IDs of the requests still waiting for a response
+    const pendingChannelPayloads = new Map<string | number, PendingChannelPayload>();
+    const interceptors: JsonRpcClientInterceptor[] = [...(options.interceptors ?? [])];
+    const defaultTimeout = options.timeout;
+    const cancellation = options.cancellation ?? channel !== undefined;
+    const methodOptions = options.methodOptions ?? {};
+    const tracer = options.tracer;
+    const messageQueue = options.batching
+        ? createMessageQueue(options.batching === true ? {} : options.batching, flushMessages)
+        : undefined;
+    const subscriptions = new Map<string | number, JsonRpcSubscriptionHandle>();
+    // Events may arrive before the subscribe call has resumed; keep them while a subscribe call is pending
+    const earlyEvents = new Map<string | number, unknown[]>();
+    let pendingSubscribeCalls = 0;
+    const streams = new Map<string | number, (chunk: unknown) => void>();
 
     /**
      * Generates a unique ID for the next request.
@@ -143,57 +622,394 @@ export function createJsonRpcClient(transport: JsonRpcClientTransport): JsonRpcC
         return nextId++;
     }
 
+    /**
+     * Sends a payload through the interceptor chain and then the transport.
+     * 
+     * @param payload The request, notification or batch to send
+     * @returns A promise that resolves to the response payload
+     */
+    function send(payload: JsonRpcClientPayload): Promise<JsonRpcClientTransportResult> {
+        return composeInterceptors(interceptors, sendThroughTransport)(payload);
+    }
+
+    /**
+     * Final step of the interceptor chain, handing the payload to the transport.
+     * 
+     * @param payload The request, notification or batch to send
+     * @returns A promise that resolves to the response payload
+     */
+    async function sendThroughTransport(payload: JsonRpcClientPayload): Promise<JsonRpcClientTransportResult> {
+        if (closed) {
+            throw new JsonRpcConnectionClosedError();
+        }
+        if (typeof transport === 'function') {
+            return transport(payload);
+        }
+
+        return sendOnChannel(transport, payload);
+    }
+
+    /**
+     * Sends a payload on the message channel and collects the responses of its requests as they arrive,
+     * so that interceptors get them like the responses of a transport function.
+     * Requests given up on (timed out, aborted...) are not waited for.
+     * 
+     * @param messageChannel The message channel
+     * @param payload The request, notification or batch to send
+     * @returns A promise that resolves to the response (or batch of responses) once every request
+     * is answered, to null if the payload contains no request
+     */
+    function sendOnChannel(
+        messageChannel: JsonRpcMessageChannel,
+        payload: JsonRpcClientPayload
+    ): Promise<JsonRpcClientTransportResult> {
+        const requestIds = (Array.isArray(payload) ? payload : [payload]).filter(isJSONRPCRequest).map((request) => request.id);
+        if (requestIds.length === 0) {
+            messageChannel.send(payload);
+            return Promise.resolve(null);
+        }
+
+        return new Promise<JsonRpcClientTransportResult>((resolve, reject) => {
+            const responses: JSONRPCResponse[] = [];
+            const remaining = new Set(requestIds);
+
+            const release = (id: string | number): void => {
+                if (!remaining.delete(id)) {
+                    return;
+                }
+                pendingChannelPayloads.delete(id);
+                if (remaining.size === 0) {
+                    resolve(Array.isArray(payload) ? responses : (responses[0] ?? null));
+                }
+            };
+            const pendingPayload: PendingChannelPayload = {
+                collect: (id, response) => {
+                    responses.push(response);
+                    release(id);
+                },
+                release,
+                fail: (error) => {
+                    remaining.forEach((id) => pendingChannelPayloads.delete(id));
+                    remaining.clear();
+                    reject(error);
+                },
+            };
+
+            requestIds.forEach((id) => pendingChannelPayloads.set(id, pendingPayload));
+            try {
+                messageChannel.send(payload);
+            } catch (error) {
+                pendingPayload.fail(error instanceof Error ? error : new Error(String(error)));
+            }
+        });
+    }
+
+    /**
+     * Registers a pending request and returns a promise settled by its response.
+     * The request is dropped from the pending requests and rejected if its timeout
+     * elapses or its signal is aborted first, in which case the server is told to cancel it
+     * when cancellation is enabled.
+     * 
+     * @param method The name of the called method
+     * @param id The ID of the request
+     * @param options The per-call options
+     * @returns A promise that resolves to the raw result or rejects with an error
+     */
+    function waitForResponse(method: string, id: string | number, options: JsonRpcCallOptions<unknown>): Promise<unknown> {
+        const timeout = options.timeout ?? defaultTimeout;
+        const signal = options.signal;
+
+        return new Promise<unknown>((resolve, reject) => {
+            let timer: ReturnType<typeof setTimeout> | undefined;
+
+            const cleanup = (): void => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+            };
+            const giveUp = (error: Error): void => {
+                pendingRequests.delete(id);
+                pendingChannelPayloads.get(id)?.release(id);
+                cleanup();
+                if (cancellation) {
+                    submit(createJsonRpcCancelNotification(id));
+                }
+                reject(error);
+            };
+            const onAbort = (): void => {
+                giveUp(new JsonRpcAbortError(method, id, signal?.reason));
+            };
+
+            pendingRequests.set(id, { 
+                resolve: (value) => {
+                    cleanup();
+                    resolve(value);
+                }, 
+                reject: (reason) => {
+                    cleanup();
+                    reject(reason instanceof Error ? reason : new Error(String(reason)));
+                } 
+            });
+
+            if (timeout !== undefined && timeout > 0 && Number.isFinite(timeout)) {
+                timer = setTimeout(() => {
+                    giveUp(new JsonRpcTimeoutError(method, id, timeout));
+                }, timeout);
+            }
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    /**
+     * Sends a payload and dispatches the responses to the pending requests.
+     * Requests left pending once the transport has answered are rejected,
+     * as are all of them if the transport fails.
+     * 
+     * @param payload The request, notification or batch to send
+     * @param requestIds The IDs of the requests contained in the payload
+     * @returns A promise that resolves once the responses have been dispatched,
+     * or rejects with the transport error
+     */
+    async function dispatch(payload: JsonRpcClientPayload, requestIds: (string | number)[]): Promise<void> {
+        let response: JsonRpcClientTransportResult;
+        try {
+            response = await send(payload);
+        } catch (error) {
+            rejectPending(requestIds, () => error);
+            throw error;
+        }
+        handleResponse(response, requestIds);
+    }
+
+    /**
+     * Waits for the result of a request and validates it against the call options.
+     * 
+     * @template TResult The expected type of the result
+     * @param method The name of the called method
+     * @param id The ID of the request
+     * @param pendingResult The promise returned by waitForResponse
+     * @param options The per-call options
+     * @returns A promise that resolves to the (validated) result
+     */
+    async function settleCall<TResult>(
+        method: string,
+        id: string | number,
+        pendingResult: Promise<unknown>,
+        options: JsonRpcCallOptions<TResult>
+    ): Promise<TResult> {
+        const result = await pendingResult;
+
+        // Validate the result before handing it to the caller
+        if (options.result) {
+            const validation = await toJsonRpcValidator(options.result).validate(result);
+            if (!validation.success) {
+                throw new JsonRpcResultValidationError(method, id, validation.issues);
+            }
+            return validation.value;
+        }
+
+        return result as TResult;
+    }
+
+    /**
+     * Resolves the retry policy of a method, merging its own policy over the client one.
+     * 
+     * @param method The name of the called method
+     * @returns The retry policy, or undefined if calls to the method must not be retried
+     */
+    function getRetryPolicy(method: string): JsonRpcRetryPolicy | undefined {
+        const { idempotent = false, retry } = methodOptions[method] ?? {};
+        if (!idempotent || retry === false || (!options.retry && !retry)) {
+            return undefined;
+        }
+        return { ...options.retry, ...retry };
+    }
+
+    /**
+     * Sends a single attempt of a call and waits for its (validated) result.
+     * Every attempt uses a new request ID, so a late response to a previous attempt is ignored.
+     * 
+     * @template TResult The expected type of the result
+     * @template TParams The type of the parameters object
+     * @param method The name of the remote method to call
+     * @param params Optional parameters to pass to the method
+     * @param options The per-call options
+     * @param meta Optional metadata of the request, e.g. its trace context
+     * @returns A promise that resolves to the method result or rejects with an error
+     */
+    function attemptCall<TResult, TParams>(
+        method: string,
+        params: TParams | undefined,
+        options: JsonRpcCallOptions<TResult>,
+        meta?: JsonRpcRequestMeta
+    ): Promise<TResult> {
+        const id = generateId();
+        const request: JSONRPCRequest = { ...createJsonRpcRequest(method, id, params), ...(meta && { _meta: meta }) };
+        const pendingResult = waitForResponse(method, id, options);
+
+        submit(request);
+
+        return settleCall(method, id, pendingResult, options);
+    }
+
     /**
      * Implementation of the call method that sends a JSON-RPC request and waits for a response.
-     * Manages the request ID, stores the pending promise, and handles the response.
+     * Failed attempts are retried according to the method's retry policy, all within the span of the call if traced.
      * 
      * @template TResult The expected type of the result
      * @template TParams The type of the parameters object
      * @param method The name of the remote method to call
      * @param params Optional parameters to pass to the method
+     * @param options Optional per-call options
      * @returns A promise that resolves to the method result or rejects with an error
      */
     async function call<TResult = unknown, TParams = unknown>(
         method: string,
-        params?: TParams
+        params?: TParams,
+        options: JsonRpcCallOptions<TResult> = {}
     ): Promise<TResult> {
-        const id = generateId();
-        const request = createJsonRpcRequest(method, id, params);
+        if (options.signal?.aborted) {
+            throw new JsonRpcAbortError(method, null, options.signal.reason);
+        }
 
-        return new Promise<TResult>((resolve, reject) => {
-            pendingRequests.set(id, { 
-                resolve: resolve as (value: unknown) => void, 
-                reject 
-            });
+        const retryPolicy = getRetryPolicy(method);
+        const run = (meta?: JsonRpcRequestMeta): Promise<TResult> =>
+            retryPolicy
+                ? runWithRetry(retryPolicy, () => attemptCall(method, params, options, meta), method, options.signal)
+                : attemptCall(method, params, options, meta);
 
-            transport(request)
-                .then((response) => {
-                    handleResponse(response, id);
-                })
-                .catch((error) => {
-                    const pending = pendingRequests.get(id);
-                    if (pending) {
-                        pendingRequests.delete(id);
-                        pending.reject(error);
-                    }
-                });
+        return tracer ? traceCall(tracer, method, run) : run();
+    }
+
+    /**
+     * Sends a call or notification, either immediately or through the batching queue.
+     * Transport errors are reported through the pending requests, or logged for notifications.
+     * 
+     * @param message The request or notification to send
+     */
+    function submit(message: JSONRPCRequest | JSONRPCNotification): void {
+        if (messageQueue) {
+            messageQueue.enqueue(message);
+        } else {
+            flushMessages([message]);
+        }
+    }
+
+    /**
+     * Sends collected messages, as a single message or as a batch.
+     * 
+     * @param messages The requests and notifications to send
+     */
+    function flushMessages(messages: (JSONRPCRequest | JSONRPCNotification)[]): void {
+        const requestIds = messages.filter(isJSONRPCRequest).map((request) => request.id);
+        const payload = messages.length === 1 ? messages[0] : messages;
+
+        dispatch(payload, requestIds).catch((error) => {
+            if (requestIds.length < messages.length) {
+                console.warn('JSON-RPC notification transport error:', error);
+            }
         });
     }
 
+    /**
+     * Implementation of the batch method that sends several calls and notifications at once.
+     * 
+     * @param build Function adding the entries of the batch
+     * @returns A promise that resolves once the batch response has been dispatched
+     */
+    async function batch(build: (batch: JsonRpcBatchBuilder) => void): Promise<void> {
+        const messages: (JSONRPCRequest | JSONRPCNotification)[] = [];
+        const requestIds: (string | number)[] = [];
+        let built = false;
+
+        function assertOpen(): void {
+            if (built) {
+                throw new Error('JSON-RPC batch has already been sent');
+            }
+        }
+
+        const builder: JsonRpcBatchBuilder = {
+            call<TResult = unknown, TParams = unknown>(
+                method: string,
+                params?: TParams,
+                callOptions: JsonRpcCallOptions<TResult> = {}
+            ): Promise<TResult> {
+                assertOpen();
+                let entry: Promise<TResult>;
+                if (callOptions.signal?.aborted) {
+                    entry = Promise.reject(new JsonRpcAbortError(method, null, callOptions.signal.reason));
+                } else {
+                    const id = generateId();
+                    messages.push(createJsonRpcRequest(method, id, params));
+                    requestIds.push(id);
+                    entry = settleCall(method, id, waitForResponse(method, id, callOptions), callOptions);
+                }
+                // Transport errors also reject the batch itself, and aborted entries are never sent: entries
+                // the caller does not await must not be reported as unhandled rejections
+                entry.catch(() => {});
+                return entry;
+            },
+            notify<TParams = unknown>(method: string, params?: TParams): void {
+                assertOpen();
+                messages.push(createJsonRpcNotification(method, params));
+            },
+        };
+
+        try {
+            build(builder);
+        } catch (error) {
+            rejectPending(requestIds, () => error);
+            throw error;
+        } finally {
+            built = true;
+        }
+
+        if (messages.length === 0) {
+            return;
+        }
+
+        await dispatch(messages, requestIds);
+    }
+
     /**
      * Handles the response from the transport, supporting both single responses and batch responses.
-     * Delegates to handleSingleResponse for each individual response.
+     * Delegates to handleSingleResponse for each individual response, then rejects the requests
+     * that were left without a response.
      * 
-     * @param response The response or array of responses from the server
-     * @param requestId The ID of the original request (used for error context)
+     * @param response The response or array of responses from the server (null if none)
+     * @param requestIds The IDs of the requests the response answers
      */
-    function handleResponse(response: JSONRPCResponse | JSONRPCResponse[], requestId: string | number): void {
-        if (Array.isArray(response)) {
-            for (const singleResponse of response) {
+    function handleResponse(response: JsonRpcClientTransportResult, requestIds: (string | number)[]): void {
+        const responses = response == null ? [] : Array.isArray(response) ? response : [response];
+        // An error without ID (e.g. a parse error) applies to the whole payload
+        let payloadError: JSONRPCError | undefined;
+
+        for (const singleResponse of responses) {
+            if (singleResponse.id === null && isJSONRPCErrorResponse(singleResponse)) {
+                payloadError = singleResponse.error;
+            } else {
                 handleSingleResponse(singleResponse);
             }
-        } else {
-            handleSingleResponse(response);
+        }
+
+        rejectPending(requestIds, (id) =>
+            payloadError ? createJsonRpcException(payloadError) : new JsonRpcMissingResponseError(id),
+        );
+    }
+
+    /**
+     * Rejects the given requests if they are still pending.
+     * 
+     * @param requestIds The IDs of the requests to reject
+     * @param getError Function returning the rejection reason for a request
+     */
+    function rejectPending(requestIds: (string | number)[], getError: (id: string | number) => unknown): void {
+        for (const id of requestIds) {
+            pendingChannelPayloads.get(id)?.release(id);
+            const pending = pendingRequests.get(id);
+            if (pending) {
+                pendingRequests.delete(id);
+                pending.reject(getError(id));
+            }
         }
     }
 
@@ -216,16 +1032,237 @@ export function createJsonRpcClient(transport: JsonRpcClientTransport): JsonRpcC
             return;
         }
 
-        pendingRequests.delete(id);
-
         if (isJSONRPCSuccessResponse(response)) {
+            pendingRequests.delete(id);
             pending.resolve(response.result);
         } else if (isJSONRPCErrorResponse(response)) {
-            const error = new Error(response.error.message);
-            (error as any).code = response.error.code;
-            (error as any).data = response.error.data;
-            pending.reject(error);
+            pendingRequests.delete(id);
+            pending.reject(createJsonRpcException(response.error));
+        }
+    }
+
+    /**
+     * Handles a message received on the message channel, collecting the responses of the payloads
+     * waiting for them. Other responses settle their pending request directly (e.g. a late response
+     * to a request given up on), and other messages are ignored.
+     * 
+     * @param message The incoming message
+     */
+    function handleMessage(message: unknown): void {
+        const messages = Array.isArray(message) ? message : [message];
+
+        for (const singleMessage of messages) {
+            if (isJSONRPCResponse(singleMessage)) {
+                const id = singleMessage.id;
+                const pendingPayload = id !== null ? pendingChannelPayloads.get(id) : undefined;
+                if (id !== null && pendingPayload) {
+                    pendingPayload.collect(id, singleMessage);
+                } else {
+                    handleSingleResponse(singleMessage);
+                }
+            } else if (isJsonRpcSubscriptionNotification(singleMessage)) {
+                handleSubscriptionEvent(singleMessage.params.subscription, singleMessage.params.result);
+            } else if (isJsonRpcStreamChunkNotification(singleMessage)) {
+                streams.get(singleMessage.params.id)?.(singleMessage.params.chunk);
+            }
+        }
+    }
+
+    /**
+     * Delivers an event to its subscription. Events of unknown subscriptions are kept
+     * while a subscribe call is pending, and ignored otherwise.
+     * 
+     * @param id The ID of the subscription
+     * @param event The event
+     */
+    function handleSubscriptionEvent(id: string | number, event: unknown): void {
+        const subscription = subscriptions.get(id);
+        if (subscription) {
+            subscription.push(event);
+        } else if (pendingSubscribeCalls > 0) {
+            earlyEvents.set(id, [...(earlyEvents.get(id) ?? []), event]);
+        }
+    }
+
+    /**
+     * Implementation of the subscribe method, creating a subscription on the server.
+     * 
+     * @template TEvent The type of the events
+     * @template TParams The type of the parameters object
+     * @param method The name of the remote method creating the subscription
+     * @param params Optional parameters to pass to the method
+     * @param onEvent Optional callback receiving every event
+     * @returns A promise that resolves to the subscription
+     */
+    async function subscribe<TEvent = unknown, TParams = unknown>(
+        method: string,
+        params?: TParams,
+        onEvent?: (event: TEvent) => void
+    ): Promise<JsonRpcSubscription<TEvent>> {
+        if (!channel) {
+            throw new Error('JSON-RPC subscriptions require a message channel transport');
+        }
+
+        let id: string | number;
+        pendingSubscribeCalls++;
+        try {
+            id = await call<string | number, TParams>(method, params);
+        } finally {
+            pendingSubscribeCalls--;
+        }
+
+        const events = earlyEvents.get(id) ?? [];
+        earlyEvents.delete(id);
+        if (pendingSubscribeCalls === 0) {
+            earlyEvents.clear();
+        }
+        if (closed) {
+            throw new JsonRpcConnectionClosedError();
+        }
+
+        const subscription = createSubscriptionHandle<TEvent>(id, onEvent, () => unsubscribe(id));
+        subscriptions.set(id, subscription as JsonRpcSubscriptionHandle);
+        events.forEach((event) => subscription.push(event as TEvent));
+        return subscription.subscription;
+    }
+
+    /**
+     * Ends a subscription and asks the server to stop sending its events.
+     * Nothing is sent once the client is closed.
+     * 
+     * @param id The ID of the subscription
+     * @returns A promise that resolves once the server has acknowledged it
+     */
+    async function unsubscribe(id: string | number): Promise<void> {
+        const subscription = subscriptions.get(id);
+        if (!subscription) {
+            return;
+        }
+
+        subscriptions.delete(id);
+        subscription.end();
+        if (!closed) {
+            await call<boolean, JsonRpcUnsubscribeParams>(JSONRPC_UNSUBSCRIBE_METHOD, { subscription: id });
+        }
+    }
+
+    /**
+     * Implementation of the stream method, returning an iterable that starts a call on every iteration.
+     * 
+     * @template TChunk The type of the chunks
+     * @template TParams The type of the parameters object
+     * @param method The name of the remote method to call
+     * @param params Optional parameters to pass to the method
+     * @param options Optional stream options
+     * @returns An async iterable over the chunks of the result
+     */
+    function stream<TChunk = unknown, TParams = unknown>(
+        method: string,
+        params?: TParams,
+        options: JsonRpcStreamOptions = {}
+    ): AsyncIterable<TChunk> {
+        return {
+            [Symbol.asyncIterator]: () => openStream<TChunk, TParams>(method, params, options),
+        };
+    }
+
+    /**
+     * Sends a streamed call and returns an iterator over its chunks.
+     * The final result, if it is an array (e.g. chunks collected by a server that cannot stream),
+     * is iterated over after the chunks.
+     * 
+     * @template TChunk The type of the chunks
+     * @template TParams The type of the parameters object
+     * @param method The name of the remote method to call
+     * @param params Optional parameters to pass to the method
+     * @param options The stream options
+     * @returns An iterator over the chunks of the result
+     */
+    function openStream<TChunk, TParams>(
+        method: string,
+        params: TParams | undefined,
+        options: JsonRpcStreamOptions
+    ): AsyncIterator<TChunk> {
+        const signal = options.signal;
+
+        if (!channel) {
+            const queue = createAsyncQueue<TChunk>();
+            call<unknown, TParams>(method, params, { signal }).then(
+                (result) => {
+                    (Array.isArray(result) ? result : result == null ? [] : [result]).forEach((chunk) => queue.push(chunk as TChunk));
+                    queue.end();
+                },
+                (error: Error) => queue.end(error),
+            );
+            return queue.iterator;
         }
+
+        const id = generateId();
+        let streaming = true;
+
+        /**
+         * Stops waiting for the chunks and tells the server to stop producing them.
+         * 
+         * @param error The error iteration throws, if any
+         */
+        const stop = (error?: Error): void => {
+            if (!streaming) {
+                return;
+            }
+
+            finish();
+            rejectPending([id], () => error ?? new JsonRpcAbortError(method, id, undefined));
+            queue.end(error);
+            if (!closed) {
+                submit(createJsonRpcCancelNotification(id));
+            }
+        };
+        const onAbort = (): void => stop(new JsonRpcAbortError(method, id, signal?.reason));
+        const finish = (): void => {
+            streaming = false;
+            streams.delete(id);
+            signal?.removeEventListener('abort', onAbort);
+        };
+        const queue = createAsyncQueue<TChunk>({
+            onConsume: () => {
+                if (streaming && !closed) {
+                    submit(createJsonRpcStreamAckNotification(id, 1));
+                }
+            },
+            onReturn: () => stop(),
+        });
+
+        if (signal?.aborted) {
+            queue.end(new JsonRpcAbortError(method, null, signal.reason));
+            return queue.iterator;
+        }
+
+        streams.set(id, (chunk) => queue.push(chunk as TChunk));
+        signal?.addEventListener('abort', onAbort, { once: true });
+        waitForResponse(method, id, { timeout: 0 }).then(
+            (result) => {
+                finish();
+                (Array.isArray(result) ? result : result == null ? [] : [result]).forEach((chunk) => queue.push(chunk as TChunk));
+                queue.end();
+            },
+            (error: Error) => {
+                finish();
+                queue.end(error);
+            },
+        );
+        submit(createJsonRpcRequest(method, id, params));
+
+        return queue.iterator;
+    }
+
+    /**
+     * Ends every subscription, as the server has lost them with the connection.
+     */
+    function endAllSubscriptions(): void {
+        for (const subscription of subscriptions.values()) {
+            subscription.end(new JsonRpcConnectionClosedError());
+        }
+        subscriptions.clear();
     }
 
     /**
@@ -240,14 +1277,92 @@ export function createJsonRpcClient(transport: JsonRpcClientTransport): JsonRpcC
     function notify<TParams = unknown>(method: string, params?: TParams): void {
         const notification = createJsonRpcNotification(method, params);
         
-        transport(notification)
-            .catch((error) => {
-                console.warn('JSON-RPC notification transport error:', error);
-            });
+        submit(notification);
     }
 
-    return {
-        call,
-        notify,
+    /**
+     * Creates the typed method proxy.
+     * Every string property resolves to a function calling the remote method of the same name.
+     * `then` is left undefined so the proxy is never mistaken for a thenable.
+     * 
+     * @returns The proxy exposed as `client.methods`
+     */
+    function createMethodsProxy(): JsonRpcClientMethods<TContract> {
+        return new Proxy({} as JsonRpcClientMethods<TContract>, {
+            get(_target, property): ((params?: unknown, options?: JsonRpcCallOptions) => Promise<unknown>) | undefined {
+                if (typeof property !== 'string' || property === 'then') {
+                    return undefined;
+                }
+                return (params, options) => call(property, params, options);
+            },
+        });
+    }
+
+    /**
+     * Registers an interceptor wrapped around the transport.
+     * 
+     * @param interceptor The interceptor to register
+     * @returns The client instance, for chaining
+     */
+    function use(interceptor: JsonRpcClientInterceptor): JsonRpcClient<TContract> {
+        interceptors.push(interceptor);
+        return client;
+    }
+
+    /**
+     * Rejects every pending request, as their responses will never arrive.
+     */
+    function rejectAllPending(): void {
+        new Set(pendingChannelPayloads.values()).forEach((pendingPayload) => pendingPayload.fail(new JsonRpcConnectionClosedError()));
+        rejectPending([...pendingRequests.keys()], () => new JsonRpcConnectionClosedError());
+    }
+
+    /**
+     * Stops handling the message channel and rejects every pending request.
+     */
+    function shutdown(): void {
+        closed = true;
+        unsubscribeMessages?.();
+        unsubscribeClose?.();
+        unsubscribeDisconnect?.();
+        rejectAllPending();
+        endAllSubscriptions();
+    }
+
+    /**
+     * Implementation of the close method, closing the message channel if any.
+     */
+    function close(): void {
+        if (closed) {
+            return;
+        }
+
+        shutdown();
+        channel?.close();
+    }
+
+    const unsubscribeMessages = channel?.onMessage(handleMessage);
+    const unsubscribeClose = channel?.onClose?.(() => {
+        if (!closed) {
+            shutdown();
+        }
+    });
+    const unsubscribeDisconnect = channel?.onDisconnect?.(() => {
+        rejectAllPending();
+        endAllSubscriptions();
+    });
+
+    const client: JsonRpcClient<TContract> = {
+        methods: createMethodsProxy(),
+        // Typed from the contract on the interface, the implementations take any method
+        call: call as JsonRpcClientCall<TContract>,
+        notify: notify as JsonRpcClientNotify<TContract>,
+        batch,
+        subscribe,
+        stream,
+        use,
+        close,
     };
+
+    return client;
 }
\ No newline at end of file
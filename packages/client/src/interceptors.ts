@@ -0,0 +1,81 @@
+import { JSONRPCRequest, JSONRPCNotification, JSONRPCResponse } from '@ts-json-rpc/core';
+
+/**
+ * Outgoing payload handed to the transport: a single request/notification or a batch.
+ */
+export type JsonRpcClientPayload = JSONRPCRequest | JSONRPCNotification | (JSONRPCRequest | JSONRPCNotification)[];
+
+/**
+ * Response payload returned by the transport: a single response, a batch of responses,
+ * or `null` when the server sent nothing back (e.g. for notifications).
+ */
+export type JsonRpcClientTransportResult = JSONRPCResponse | JSONRPCResponse[] | null;
+
+/**
+ * Continues the interceptor chain, ultimately sending the payload through the transport.
+ * Unlike server middleware, `next` may be called several times (e.g. to retry).
+ *
+ * @param payload Optional replacement payload for the rest of the chain
+ * @returns Promise that resolves to the response payload
+ */
+export type JsonRpcClientInterceptorNext = (payload?: JsonRpcClientPayload) => Promise<JsonRpcClientTransportResult>;
+
+/**
+ * Interceptor wrapped around the transport for every call, notification and batch sent by the client.
+ * An interceptor can rewrite the outgoing payload, inspect or rewrite the response,
+ * map transport errors, or call `next` again to retry.
+ * Request IDs must be preserved, as responses are correlated to calls by ID.
+ * On a message channel, `next` resolves once every request of the payload is answered
+ * (or given up on, e.g. timed out), with the responses received so far.
+ *
+ * @param payload The outgoing request, notification or batch
+ * @param next Function invoking the rest of the chain
+ * @returns Promise that resolves to the response payload
+ *
+ * @example
+ * ```typescript
+ * const auth: JsonRpcClientInterceptor = (payload, next) => {
+ *   const withToken = (message) => ({ ...message, params: { ...message.params, token: getToken() } });
+ *   return next(Array.isArray(payload) ? payload.map(withToken) : withToken(payload));
+ * };
+ *
+ * const logging: JsonRpcClientInterceptor = async (payload, next) => {
+ *   console.debug('-->', payload);
+ *   const response = await next();
+ *   console.debug('<--', response);
+ *   return response;
+ * };
+ * ```
+ */
+export type JsonRpcClientInterceptor = (
+    payload: JsonRpcClientPayload,
+    next: JsonRpcClientInterceptorNext,
+) => Promise<JsonRpcClientTransportResult>;
+
+/**
+ * Composes interceptors into a single function running them in registration order
+ * around the transport.
+ *
+ * @param interceptors The interceptors to run, outermost first
+ * @param send The final function sending the payload
+ * @returns A function running the whole chain for a payload
+ *
+ * @internal
+ */
+export function composeInterceptors(
+    interceptors: readonly JsonRpcClientInterceptor[],
+    send: (payload: JsonRpcClientPayload) => Promise<JsonRpcClientTransportResult>,
+): (payload: JsonRpcClientPayload) => Promise<JsonRpcClientTransportResult> {
+    async function dispatch(index: number, payload: JsonRpcClientPayload): Promise<JsonRpcClientTransportResult> {
+        const interceptor = interceptors[index];
+        if (!interceptor) {
+            return send(payload);
+        }
+
+        return interceptor(payload, (nextPayload) =>
+            dispatch(index + 1, nextPayload === undefined ? payload : nextPayload),
+        );
+    }
+
+    return (payload) => dispatch(0, payload);
+}
@@ -0,0 +1,112 @@
+/**
+ * Hooks of an async queue.
+ *
+ * @internal
+ */
+export interface JsonRpcAsyncQueueHooks {
+    /**
+     * Called every time a value is handed to the consumer.
+     */
+    onConsume?: () => void;
+    /**
+     * Called when the consumer stops iterating early (e.g. `break` in a `for await` loop).
+     */
+    onReturn?: () => Promise<void> | void;
+}
+
+/**
+ * Async iterator fed by pushed values, buffering them until the consumer asks for them.
+ *
+ * @internal
+ */
+export interface JsonRpcAsyncQueue<TValue> {
+    /** The iterator handed to the consumer */
+    iterator: AsyncIterator<TValue>;
+    /**
+     * Adds a value, handing it to a waiting consumer or buffering it.
+     *
+     * @param value The value
+     */
+    push(value: TValue): void;
+    /**
+     * Ends iteration once the buffered values are consumed, optionally with an error.
+     *
+     * @param error The error iteration throws, if any
+     */
+    end(error?: Error): void;
+}
+
+/**
+ * Creates an async queue.
+ *
+ * @param hooks Optional hooks called as the consumer iterates
+ * @returns The async queue
+ *
+ * @internal
+ */
+export function createAsyncQueue<TValue>(hooks: JsonRpcAsyncQueueHooks = {}): JsonRpcAsyncQueue<TValue> {
+    const values: TValue[] = [];
+    const waiting: { resolve: (result: IteratorResult<TValue>) => void; reject: (reason: Error) => void }[] = [];
+    let ended = false;
+    let endError: Error | undefined;
+
+    function push(value: TValue): void {
+        if (ended) {
+            return;
+        }
+
+        const consumer = waiting.shift();
+        if (consumer) {
+            consumer.resolve({ value, done: false });
+            hooks.onConsume?.();
+        } else {
+            values.push(value);
+        }
+    }
+
+    function end(error?: Error): void {
+        if (ended) {
+            return;
+        }
+
+        ended = true;
+        if (waiting.length === 0) {
+            // Thrown by the next call to `next`, once the buffered values are consumed
+            endError = error;
+        }
+        for (const { resolve, reject } of waiting.splice(0)) {
+            if (error === undefined) {
+                resolve({ value: undefined, done: true });
+            } else {
+                reject(error);
+            }
+        }
+    }
+
+    const iterator: AsyncIterator<TValue> = {
+        next() {
+            if (values.length > 0) {
+                hooks.onConsume?.();
+                return Promise.resolve({ value: values.shift()!, done: false });
+            }
+            if (ended) {
+                const error = endError;
+                endError = undefined;
+                return error === undefined ? Promise.resolve({ value: undefined, done: true }) : Promise.reject(error);
+            }
+
+            return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+        },
+        async return() {
+            const wasEnded = ended;
+            ended = true;
+            values.length = 0;
+            if (!wasEnded) {
+                await hooks.onReturn?.();
+            }
+            return { value: undefined, done: true };
+        },
+    };
+
+    return { iterator, push, end };
+}
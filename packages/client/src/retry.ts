@@ -0,0 +1,157 @@
+import { JsonRpcException } from '@ts-json-rpc/core';
+
+import {
+    JsonRpcAbortError,
+    JsonRpcConnectionClosedError,
+    JsonRpcResultValidationError,
+    JsonRpcTimeoutError,
+} from './errors.js';
+
+/**
+ * Policy describing how failed calls are retried.
+ * Retries only apply to methods marked as idempotent (see `JsonRpcClientMethodOptions`).
+ *
+ * @example
+ * ```typescript
+ * // Up to 5 attempts, waiting ~200ms, ~400ms, ~800ms, ~1600ms between them,
+ * // retrying transport errors and "server busy" errors
+ * const retry: JsonRpcRetryPolicy = {
+ *   maxAttempts: 5,
+ *   initialDelay: 200,
+ *   retryableErrorCodes: [-32001],
+ * };
+ * ```
+ */
+export interface JsonRpcRetryPolicy {
+    /** Total number of attempts, including the first one. Defaults to 3 */
+    maxAttempts?: number;
+    /** Delay in milliseconds before the first retry. Defaults to 100 */
+    initialDelay?: number;
+    /** Multiplier applied to the delay after each retry. Defaults to 2 */
+    factor?: number;
+    /** Upper bound of the delay in milliseconds. Defaults to 5000 */
+    maxDelay?: number;
+    /**
+     * Whether to randomize delays between 0 and the computed backoff ("full jitter"),
+     * so that clients failing together do not retry together. Defaults to `true`.
+     */
+    jitter?: boolean;
+    /**
+     * JSON-RPC error codes worth retrying (e.g. an application "server busy" code).
+     * Errors returned by the server are not retried unless their code is listed here.
+     */
+    retryableErrorCodes?: number[];
+    /**
+     * Custom predicate deciding whether a failed attempt is retried, replacing the default one.
+     * By default transport errors and errors with a `retryableErrorCodes` code are retried;
+     * aborted calls, timeouts, closed connections and result validation errors never are.
+     *
+     * @param error The error the attempt failed with
+     * @param attempt The number of the failed attempt, starting at 1
+     * @returns True if the call should be attempted again
+     */
+    shouldRetry?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * Waits for a duration, giving up early if the signal is aborted.
+ *
+ * @param delay The duration in milliseconds
+ * @param method The name of the called method
+ * @param signal Optional signal interrupting the wait
+ * @returns A promise that resolves after the delay, or rejects with a `JsonRpcAbortError`
+ */
+function sleep(delay: number, method: string, signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new JsonRpcAbortError(method, null, signal.reason));
+            return;
+        }
+
+        const onAbort = (): void => {
+            clearTimeout(timer);
+            reject(new JsonRpcAbortError(method, null, signal?.reason));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, delay);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Computes the delay to wait after a failed attempt.
+ *
+ * @param policy The retry policy
+ * @param attempt The number of the failed attempt, starting at 1
+ * @returns The delay in milliseconds
+ */
+function getRetryDelay(policy: JsonRpcRetryPolicy, attempt: number): number {
+    const backoff = Math.min(
+        (policy.initialDelay ?? 100) * (policy.factor ?? 2) ** (attempt - 1),
+        policy.maxDelay ?? 5000,
+    );
+    return policy.jitter === false ? backoff : Math.random() * backoff;
+}
+
+/**
+ * Default retry predicate: retries transport errors and JSON-RPC errors whose code is retryable.
+ *
+ * @param policy The retry policy
+ * @param error The error the attempt failed with
+ * @returns True if the error is worth retrying
+ */
+function isRetryableError(policy: JsonRpcRetryPolicy, error: unknown): boolean {
+    if (
+        error instanceof JsonRpcAbortError ||
+        error instanceof JsonRpcConnectionClosedError ||
+        error instanceof JsonRpcTimeoutError ||
+        error instanceof JsonRpcResultValidationError
+    ) {
+        return false;
+    }
+
+    // JSON-RPC exceptions were returned by the server
+    if (error instanceof JsonRpcException) {
+        return policy.retryableErrorCodes?.includes(error.code) ?? false;
+    }
+
+    return true;
+}
+
+/**
+ * Runs an attempt function until it succeeds, the policy gives up, or the signal is aborted.
+ *
+ * @template TResult The result of an attempt
+ * @param policy The retry policy
+ * @param attempt Function performing one attempt
+ * @param method The name of the called method, used for abort errors
+ * @param signal Optional signal cancelling the call
+ * @returns A promise that resolves to the result of the first successful attempt
+ *
+ * @internal
+ */
+export async function runWithRetry<TResult>(
+    policy: JsonRpcRetryPolicy,
+    attempt: () => Promise<TResult>,
+    method: string,
+    signal?: AbortSignal,
+): Promise<TResult> {
+    const maxAttempts = policy.maxAttempts ?? 3;
+
+    for (let attemptNumber = 1; ; attemptNumber++) {
+        try {
+            return await attempt();
+        } catch (error) {
+            const retryable = policy.shouldRetry
+                ? policy.shouldRetry(error, attemptNumber)
+                : isRetryableError(policy, error);
+            if (attemptNumber >= maxAttempts || !retryable) {
+                throw error;
+            }
+        }
+
+        await sleep(getRetryDelay(policy, attemptNumber), method, signal);
+    }
+}
@@ -0,0 +1,81 @@
+import { createAsyncQueue } from './queue.js';
+
+/**
+ * Subscription to server events, returned by `client.subscribe`.
+ * Events are delivered to the `onEvent` callback given to `subscribe`, or, without one,
+ * can be consumed as an async iterable. Iteration ends once unsubscribed, and throws
+ * a `JsonRpcConnectionClosedError` if the connection is lost.
+ *
+ * @template TEvent The type of the events
+ *
+ * @example
+ * ```typescript
+ * const prices = await client.subscribe<number>('subscribePrices', { symbol: 'ACME' });
+ *
+ * for await (const price of prices) {
+ *   if (price > 100) {
+ *     break; // Unsubscribes
+ *   }
+ * }
+ * ```
+ */
+export interface JsonRpcSubscription<TEvent = unknown> extends AsyncIterable<TEvent> {
+    /** ID of the subscription, as returned by the subscribe method */
+    readonly id: string | number;
+    /**
+     * Ends the subscription, asking the server to stop sending its events.
+     *
+     * @returns A promise that resolves once the server has acknowledged it
+     */
+    unsubscribe(): Promise<void>;
+}
+
+/**
+ * Client-side state of a subscription, fed by the client as events arrive.
+ *
+ * @internal
+ */
+export interface JsonRpcSubscriptionHandle<TEvent = unknown> {
+    /** The subscription handed to the caller */
+    subscription: JsonRpcSubscription<TEvent>;
+    /**
+     * Delivers an event to the subscriber.
+     *
+     * @param event The event
+     */
+    push(event: TEvent): void;
+    /**
+     * Ends the subscription, completing iteration or failing it with an error.
+     *
+     * @param error The error iteration throws, if any
+     */
+    end(error?: Error): void;
+}
+
+/**
+ * Creates the client-side state of a subscription.
+ *
+ * @param id The ID of the subscription
+ * @param onEvent The callback events are delivered to; events are buffered for iteration without one
+ * @param unsubscribe Function asking the server to end the subscription
+ * @returns The subscription handle
+ *
+ * @internal
+ */
+export function createSubscriptionHandle<TEvent = unknown>(
+    id: string | number,
+    onEvent: ((event: TEvent) => void) | undefined,
+    unsubscribe: () => Promise<void>,
+): JsonRpcSubscriptionHandle<TEvent> {
+    const queue = createAsyncQueue<TEvent>({ onReturn: unsubscribe });
+
+    return {
+        subscription: {
+            id,
+            unsubscribe,
+            [Symbol.asyncIterator]: () => queue.iterator,
+        },
+        push: (event) => (onEvent ? onEvent(event) : queue.push(event)),
+        end: (error) => queue.end(error),
+    };
+}
@@ -0,0 +1,72 @@
+import {
+    createJsonRpcSpanAttributes,
+    formatTraceparent,
+    JSONRPC_SPAN_STATUS,
+    JsonRpcException,
+    JsonRpcRequestMeta,
+    JsonRpcSpan,
+    JsonRpcTracer,
+    setJsonRpcSpanError,
+} from '@ts-json-rpc/core';
+
+/**
+ * Calls the tracer or a span, logging its errors so that they never fail the call.
+ *
+ * @param run The tracer operation
+ */
+function shield(run: () => void): void {
+    try {
+        run();
+    } catch (error) {
+        console.warn('JSON-RPC tracer error:', error);
+    }
+}
+
+/**
+ * Runs a call within a client span named after the method. The span context is handed to
+ * every attempt as the `traceparent` of the request metadata, and the span ends once the call settles.
+ * Successful calls leave the status unset, as OpenTelemetry recommends; errors returned by the server
+ * set its JSON-RPC error code, other failures (timeouts, transport errors...) are recorded as exceptions.
+ * Errors thrown by the tracer or the span are logged and otherwise ignored.
+ *
+ * @template TResult The expected type of the result
+ * @param tracer The tracer creating the span
+ * @param method The name of the called method
+ * @param run Sends the call with the given request metadata
+ * @returns A promise that resolves to the call result
+ *
+ * @internal
+ */
+export async function traceCall<TResult>(
+    tracer: JsonRpcTracer,
+    method: string,
+    run: (meta?: JsonRpcRequestMeta) => Promise<TResult>,
+): Promise<TResult> {
+    let span: JsonRpcSpan | undefined;
+    let meta: JsonRpcRequestMeta | undefined;
+    shield(() => {
+        span = tracer.startSpan(method, { kind: 'client', attributes: createJsonRpcSpanAttributes(method) });
+        meta = { traceparent: formatTraceparent(span.spanContext()) };
+    });
+
+    try {
+        return await run(meta);
+    } catch (error) {
+        shield(() => {
+            if (!span) {
+                return;
+            }
+            if (error instanceof JsonRpcException) {
+                setJsonRpcSpanError(span, error);
+            } else if (error instanceof Error) {
+                span.setStatus({ code: JSONRPC_SPAN_STATUS.ERROR, message: error.message });
+                span.recordException?.(error);
+            } else {
+                span.setStatus({ code: JSONRPC_SPAN_STATUS.ERROR, message: String(error) });
+            }
+        });
+        throw error;
+    } finally {
+        shield(() => span?.end());
+    }
+}
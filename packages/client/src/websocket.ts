@@ -0,0 +1,270 @@
+import { JSONRPCMessage, JsonRpcMessageChannel } from '@ts-json-rpc/core';
+
+/**
+ * Backoff between reconnection attempts of a WebSocket channel.
+ *
+ * @example
+ * ```typescript
+ * // Give up after 10 attempts, waiting 1s, 2s, 4s... up to 30s between them
+ * const reconnect: JsonRpcWebSocketReconnectOptions = { maxAttempts: 10, initialDelay: 1000, maxDelay: 30_000 };
+ * ```
+ */
+export interface JsonRpcWebSocketReconnectOptions {
+    /** Number of consecutive failed attempts before giving up. Defaults to no limit */
+    maxAttempts?: number;
+    /** Delay in milliseconds before reconnecting after a drop. Defaults to 500 */
+    initialDelay?: number;
+    /** Multiplier applied to the delay after each failed attempt. Defaults to 2 */
+    factor?: number;
+    /** Upper bound of the delay in milliseconds. Defaults to 10000 */
+    maxDelay?: number;
+}
+
+/**
+ * Heartbeat of a WebSocket channel, detecting connections that silently stopped delivering frames.
+ *
+ * @example
+ * ```typescript
+ * // Ping every 15s and reconnect when the server sent nothing since the previous ping
+ * const heartbeat: JsonRpcWebSocketHeartbeatOptions = {
+ *   interval: 15_000,
+ *   message: { jsonrpc: '2.0', method: 'ping' },
+ * };
+ * ```
+ */
+export interface JsonRpcWebSocketHeartbeatOptions {
+    /**
+     * Interval in milliseconds between heartbeats. A connection that received no frame
+     * from the server since the previous heartbeat is closed (and reconnected if enabled).
+     */
+    interval: number;
+    /**
+     * Application-level ping sent on every heartbeat, for servers that do not send traffic on their own.
+     * Browsers cannot send WebSocket ping frames, so the server has to answer (or notify) for the
+     * connection to be kept alive. Defaults to sending nothing, only expecting server traffic.
+     */
+    message?: JSONRPCMessage;
+}
+
+/**
+ * Configuration options for a client WebSocket channel.
+ *
+ * @example
+ * ```typescript
+ * const options: JsonRpcWebSocketChannelOptions = {
+ *   protocols: 'jsonrpc',
+ *   reconnect: { maxAttempts: 5 },
+ * };
+ * ```
+ */
+export interface JsonRpcWebSocketChannelOptions {
+    /** Subprotocols passed to the `WebSocket` constructor */
+    protocols?: string | string[];
+    /**
+     * Whether to reconnect when the connection drops. `true` (default) uses the default backoff.
+     * Once reconnection gives up (or if it is disabled), the channel is closed.
+     */
+    reconnect?: boolean | JsonRpcWebSocketReconnectOptions;
+    /** Heartbeat detecting silent connections. Defaults to no heartbeat */
+    heartbeat?: JsonRpcWebSocketHeartbeatOptions;
+    /**
+     * `WebSocket` implementation to use. Defaults to the global `WebSocket`
+     * (available in browsers and recent Node.js versions).
+     */
+    WebSocket?: new (url: string | URL, protocols?: string | string[]) => WebSocket;
+}
+
+/** `readyState` of an open WebSocket */
+const OPEN = 1;
+
+/**
+ * Decodes the data of a WebSocket frame into text.
+ *
+ * @param data The data of the frame: a string for text frames, an `ArrayBuffer` for binary frames
+ * @returns The text of the frame, or undefined if the data cannot be decoded synchronously (e.g. a `Blob`)
+ */
+function toText(data: unknown): string | undefined {
+    if (typeof data === 'string') {
+        return data;
+    }
+    if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+        return new TextDecoder().decode(data);
+    }
+    return undefined;
+}
+
+/**
+ * Creates a message channel over a WebSocket connection, to be passed to `createJsonRpcClient`
+ * (or to a peer). Messages are sent as JSON text frames; binary frames are decoded as UTF-8 JSON too.
+ *
+ * Messages sent while the socket is connecting or reconnecting are queued and sent once it is open.
+ * When an open connection drops, the channel reports a disconnection, so that calls waiting
+ * for a response are rejected, and reconnects with an exponential backoff. With a heartbeat, a connection
+ * on which the server stays silent for a whole interval is treated as dropped.
+ *
+ * @param url The URL of the WebSocket server
+ * @param options Optional configuration for the channel
+ * @returns A message channel over the WebSocket
+ *
+ * @example
+ * ```typescript
+ * const client = createJsonRpcClient(createWebSocketChannel('wss://example.com/rpc'));
+ *
+ * const result = await client.call('add', { a: 1, b: 2 });
+ * client.close();
+ * ```
+ */
+export function createWebSocketChannel(
+    url: string | URL,
+    options: JsonRpcWebSocketChannelOptions = {},
+): JsonRpcMessageChannel {
+    const WebSocketImplementation = options.WebSocket ?? globalThis.WebSocket;
+    const reconnect = options.reconnect === false ? undefined : options.reconnect === true ? {} : (options.reconnect ?? {});
+    const messageListeners = new Set<(message: unknown) => void>();
+    const closeListeners = new Set<() => void>();
+    const disconnectListeners = new Set<() => void>();
+    const queue: string[] = [];
+    let socket: WebSocket;
+    let closed = false;
+    let failedAttempts = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+
+    /**
+     * Opens a new socket and wires its events.
+     */
+    function connect(): void {
+        const currentSocket = new WebSocketImplementation(url, options.protocols);
+        let opened = false;
+        let dropped = false;
+        let alive = true;
+        socket = currentSocket;
+        // Deliver binary frames as ArrayBuffers, which can be decoded synchronously, rather than Blobs
+        currentSocket.binaryType = 'arraybuffer';
+
+        /**
+         * Handles the socket being closed, or given up on by the heartbeat, once.
+         */
+        function onDrop(): void {
+            if (closed || dropped) {
+                return;
+            }
+
+            dropped = true;
+            clearInterval(heartbeatTimer);
+            if (!opened) {
+                failedAttempts++;
+            }
+            if (!reconnect || failedAttempts >= (reconnect.maxAttempts ?? Infinity)) {
+                shutdown();
+                closeListeners.forEach((listener) => listener());
+                return;
+            }
+
+            if (opened) {
+                disconnectListeners.forEach((listener) => listener());
+            }
+            const delay = Math.min(
+                (reconnect.initialDelay ?? 500) * (reconnect.factor ?? 2) ** failedAttempts,
+                reconnect.maxDelay ?? 10_000,
+            );
+            reconnectTimer = setTimeout(connect, delay);
+        }
+
+        currentSocket.addEventListener('open', () => {
+            opened = true;
+            failedAttempts = 0;
+            while (queue.length > 0 && currentSocket.readyState === OPEN) {
+                currentSocket.send(queue.shift()!);
+            }
+
+            const heartbeat = options.heartbeat;
+            if (heartbeat) {
+                heartbeatTimer = setInterval(() => {
+                    if (!alive) {
+                        // The closing handshake may never complete on a dead connection, so do not wait for it
+                        currentSocket.close();
+                        onDrop();
+                        return;
+                    }
+
+                    alive = false;
+                    if (heartbeat.message !== undefined && currentSocket.readyState === OPEN) {
+                        currentSocket.send(JSON.stringify(heartbeat.message));
+                    }
+                }, heartbeat.interval);
+            }
+        });
+        currentSocket.addEventListener('message', (event) => {
+            alive = true;
+            const text = toText(event.data);
+            if (text === undefined) {
+                console.warn('JSON-RPC WebSocket frame ignored, its data cannot be decoded:', event.data);
+                return;
+            }
+
+            let message: unknown;
+            try {
+                message = JSON.parse(text);
+            } catch {
+                message = text;
+            }
+            messageListeners.forEach((listener) => listener(message));
+        });
+        currentSocket.addEventListener('close', onDrop);
+    }
+
+    /**
+     * Marks the channel as closed, stops its timers and drops the messages still queued.
+     */
+    function shutdown(): void {
+        closed = true;
+        clearTimeout(reconnectTimer);
+        clearInterval(heartbeatTimer);
+        queue.length = 0;
+    }
+
+    /**
+     * Adds a listener to a set of listeners.
+     *
+     * @param listeners The set of listeners
+     * @param listener The listener to add
+     * @returns A function removing the listener
+     */
+    function subscribe(listeners: Set<() => void>, listener: () => void): () => void {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+    }
+
+    connect();
+
+    return {
+        send(message): void {
+            if (closed) {
+                throw new Error('WebSocket channel is closed');
+            }
+
+            const data = JSON.stringify(message);
+            if (socket.readyState === OPEN) {
+                socket.send(data);
+            } else {
+                queue.push(data);
+            }
+        },
+        onMessage(listener) {
+            messageListeners.add(listener);
+            return () => messageListeners.delete(listener);
+        },
+        onClose: (listener) => subscribe(closeListeners, listener),
+        onDisconnect: (listener) => subscribe(disconnectListeners, listener),
+        close(): void {
+            if (closed) {
+                return;
+            }
+
+            shutdown();
+            socket.close();
+            closeListeners.forEach((listener) => listener());
+        },
+    };
+}
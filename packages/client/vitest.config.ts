@@ -3,6 +3,11 @@ import { defineConfig } from 'vitest/config';
 export default defineConfig({
     test: {
         environment: 'node',
+        typecheck: {
+            // Type-level tests (*.test-d.ts) are checked by tsc, as the build leaves them out
+            enabled: true,
+            tsconfig: './tsconfig.typecheck.json',
+        },
         coverage: {
             provider: 'v8',
             reporter: ['text-summary', 'html'],
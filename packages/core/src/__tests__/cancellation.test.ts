@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import {
+    createJsonRpcCancelNotification,
+    createJsonRpcRequestCancelledError,
+    isJsonRpcCancelNotification,
+    isJSONRPCNotification,
+    JSONRPC_CANCEL_REQUEST_METHOD,
+    JSONRPC_REQUEST_CANCELLED,
+} from '../index.js';
+
+describe('JSON-RPC cancellation', () => {
+    it('should create a cancel notification', () => {
+        const notification = createJsonRpcCancelNotification(42);
+
+        expect(notification).toEqual({
+            jsonrpc: '2.0',
+            method: JSONRPC_CANCEL_REQUEST_METHOD,
+            params: { id: 42 },
+        });
+        expect(isJSONRPCNotification(notification)).toBe(true);
+    });
+
+    it('should create a request cancelled error', () => {
+        expect(createJsonRpcRequestCancelledError()).toEqual({
+            code: JSONRPC_REQUEST_CANCELLED,
+            message: 'Request cancelled',
+        });
+    });
+
+    describe('isJsonRpcCancelNotification', () => {
+        it('should accept cancel notifications', () => {
+            expect(isJsonRpcCancelNotification(createJsonRpcCancelNotification('abc'))).toBe(true);
+        });
+
+        it('should reject other messages', () => {
+            expect(isJsonRpcCancelNotification({ jsonrpc: '2.0', method: 'log', params: { id: 1 } })).toBe(false);
+            expect(isJsonRpcCancelNotification({ jsonrpc: '2.0', method: '$/cancelRequest', params: { id: 1 }, id: 2 })).toBe(false);
+            expect(isJsonRpcCancelNotification({ jsonrpc: '2.0', method: '$/cancelRequest', params: {} })).toBe(false);
+            expect(isJsonRpcCancelNotification({ jsonrpc: '2.0', method: '$/cancelRequest' })).toBe(false);
+            expect(isJsonRpcCancelNotification(null)).toBe(false);
+        });
+    });
+});
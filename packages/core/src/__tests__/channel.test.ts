@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    createInMemoryChannelPair,
+    createJsonRpcError,
+    createJsonRpcErrorResponse,
+    createJsonRpcNotification,
+    createJsonRpcRequest,
+    createJsonRpcSuccessResponse,
+    isJsonRpcResponseMessage,
+} from '../index.js';
+
+describe('isJsonRpcResponseMessage', () => {
+    it('should accept responses and batches of responses', () => {
+        expect(isJsonRpcResponseMessage(createJsonRpcSuccessResponse(1, 'ok'))).toBe(true);
+        expect(isJsonRpcResponseMessage(createJsonRpcErrorResponse(null, createJsonRpcError(-32700, 'Parse error')))).toBe(true);
+        expect(
+            isJsonRpcResponseMessage([
+                createJsonRpcSuccessResponse(1, 'ok'),
+                createJsonRpcErrorResponse(2, createJsonRpcError(-32601, 'Method not found')),
+            ]),
+        ).toBe(true);
+    });
+
+    it('should reject requests, notifications and mixed or empty batches', () => {
+        expect(isJsonRpcResponseMessage(createJsonRpcRequest('add', 1))).toBe(false);
+        expect(isJsonRpcResponseMessage(createJsonRpcNotification('log'))).toBe(false);
+        expect(isJsonRpcResponseMessage([createJsonRpcSuccessResponse(1, 'ok'), createJsonRpcRequest('add', 2)])).toBe(false);
+        expect(isJsonRpcResponseMessage([])).toBe(false);
+        expect(isJsonRpcResponseMessage('{"jsonrpc":"2.0"}')).toBe(false);
+    });
+});
+
+describe('createInMemoryChannelPair', () => {
+    it('should deliver messages to the other side asynchronously and in order, without copying them', async () => {
+        const [left, right] = createInMemoryChannelPair();
+        const received: unknown[] = [];
+        right.onMessage((message) => received.push(message));
+        const request = createJsonRpcRequest('schedule', 1, { at: new Date(0) });
+
+        left.send(request);
+        left.send(createJsonRpcNotification('log'));
+        expect(received).toEqual([]);
+
+        await Promise.resolve();
+        expect(received).toEqual([request, createJsonRpcNotification('log')]);
+        expect(received[0]).toBe(request);
+    });
+
+    it('should close both sides and report the close to the other side', async () => {
+        const [left, right] = createInMemoryChannelPair();
+        const onLeftClose = vi.fn();
+        const onRightClose = vi.fn();
+        const received = vi.fn();
+        left.onClose?.(onLeftClose);
+        right.onClose?.(onRightClose);
+        right.onMessage(received);
+
+        left.send(createJsonRpcNotification('lost'));
+        left.close();
+        left.close();
+
+        await Promise.resolve();
+        expect(onLeftClose).not.toHaveBeenCalled();
+        expect(onRightClose).toHaveBeenCalledTimes(1);
+        expect(received).not.toHaveBeenCalled();
+        expect(() => right.send(createJsonRpcNotification('log'))).toThrow('In-memory channel is closed');
+    });
+});
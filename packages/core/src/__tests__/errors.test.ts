@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { createJsonRpcException, defineErrors, errorData, JsonRpcException } from '../index.js';
+
+describe('defineErrors', () => {
+    const errors = defineErrors({
+        NOT_AUTHORIZED: { code: -32001, message: 'Not authorized', data: errorData<{ role: string }>() },
+        RATE_LIMITED: { code: 1001, message: 'Too many requests' },
+    });
+
+    it('should create exceptions with the code, message and data of an error', () => {
+        const exception = errors.create('NOT_AUTHORIZED', { role: 'admin' });
+
+        expect(exception).toBeInstanceOf(JsonRpcException);
+        expect(exception.toJSON()).toEqual({ code: -32001, message: 'Not authorized', data: { role: 'admin' } });
+        expect(errors.create('RATE_LIMITED').toJSON()).toEqual({ code: 1001, message: 'Too many requests' });
+    });
+
+    it('should recognize the exceptions of an error by their code', () => {
+        const received = createJsonRpcException({ code: -32001, message: 'Not authorized', data: { role: 'admin' } });
+
+        expect(errors.isError(received, 'NOT_AUTHORIZED')).toBe(true);
+        expect(errors.isError(received, 'RATE_LIMITED')).toBe(false);
+        expect(errors.isError({ code: -32001, message: 'Not authorized' }, 'NOT_AUTHORIZED')).toBe(false);
+        expect(errors.isError(new Error('Not authorized'), 'NOT_AUTHORIZED')).toBe(false);
+    });
+
+    it('should accept implementation-defined server error codes and application codes', () => {
+        expect(() =>
+            defineErrors({
+                FIRST: { code: -32000, message: 'First' },
+                LAST: { code: -32099, message: 'Last' },
+                BELOW: { code: -32769, message: 'Below' },
+                POSITIVE: { code: 42, message: 'Positive' },
+            }),
+        ).not.toThrow();
+    });
+
+    it('should reject codes reserved by the specification or that are not integers', () => {
+        expect(() => defineErrors({ NOT_FOUND: { code: -32601, message: 'Not found' } })).toThrow(
+            'JSON-RPC error NOT_FOUND uses the reserved code -32601',
+        );
+        expect(() => defineErrors({ RESERVED: { code: -32100, message: 'Reserved' } })).toThrow('reserved code -32100');
+        expect(() => defineErrors({ RESERVED: { code: -32768, message: 'Reserved' } })).toThrow('reserved code -32768');
+        expect(() => defineErrors({ FRACTION: { code: 1.5, message: 'Fraction' } })).toThrow(
+            'JSON-RPC error FRACTION has a code that is not an integer: 1.5',
+        );
+    });
+
+    it('should reject errors sharing a code', () => {
+        expect(() =>
+            defineErrors({
+                NOT_AUTHORIZED: { code: -32001, message: 'Not authorized' },
+                FORBIDDEN: { code: -32001, message: 'Forbidden' },
+            }),
+        ).toThrow('JSON-RPC errors NOT_AUTHORIZED and FORBIDDEN use the same code -32001');
+    });
+});
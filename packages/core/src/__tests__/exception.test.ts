@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+    createJsonRpcException,
+    InternalErrorException,
+    InvalidParamsException,
+    InvalidRequestException,
+    JSONRPC_ERROR_CODES,
+    JSONRPC_REQUEST_CANCELLED,
+    JsonRpcException,
+    MethodNotFoundException,
+    ParseErrorException,
+    RequestCancelledException,
+} from '../index.js';
+
+describe('JsonRpcException', () => {
+    it('should be an Error carrying the code, message and data', () => {
+        const exception = new JsonRpcException(-32001, 'Insufficient funds', { balance: 10 });
+
+        expect(exception).toBeInstanceOf(Error);
+        expect(exception.name).toBe('JsonRpcException');
+        expect(exception.code).toBe(-32001);
+        expect(exception.message).toBe('Insufficient funds');
+        expect(exception.data).toEqual({ balance: 10 });
+    });
+
+    it('should serialize to the JSON-RPC error object only', () => {
+        const exception = new JsonRpcException(-32001, 'Insufficient funds');
+
+        expect(exception.toJSON()).toStrictEqual({ code: -32001, message: 'Insufficient funds' });
+        expect(JSON.parse(JSON.stringify(exception))).toStrictEqual({ code: -32001, message: 'Insufficient funds' });
+    });
+
+    it('should default the subclasses to the standard codes and messages', () => {
+        expect(new ParseErrorException().toJSON()).toEqual({ code: JSONRPC_ERROR_CODES.PARSE_ERROR, message: 'Parse error' });
+        expect(new InvalidRequestException().toJSON()).toEqual({
+            code: JSONRPC_ERROR_CODES.INVALID_REQUEST,
+            message: 'Invalid Request',
+        });
+        expect(new MethodNotFoundException().toJSON()).toEqual({
+            code: JSONRPC_ERROR_CODES.METHOD_NOT_FOUND,
+            message: 'Method not found',
+        });
+        expect(new InvalidParamsException('Amount must be positive', { path: ['amount'] }).toJSON()).toEqual({
+            code: JSONRPC_ERROR_CODES.INVALID_PARAMS,
+            message: 'Amount must be positive',
+            data: { path: ['amount'] },
+        });
+        expect(new InternalErrorException().toJSON()).toEqual({
+            code: JSONRPC_ERROR_CODES.INTERNAL_ERROR,
+            message: 'Internal error',
+        });
+        expect(new RequestCancelledException().toJSON()).toEqual({
+            code: JSONRPC_REQUEST_CANCELLED,
+            message: 'Request cancelled',
+        });
+    });
+
+    it('should create the subclass matching the code of an error object', () => {
+        const methodNotFound = createJsonRpcException({ code: -32601, message: 'Method not found' });
+        expect(methodNotFound).toBeInstanceOf(MethodNotFoundException);
+        expect(methodNotFound.name).toBe('MethodNotFoundException');
+
+        expect(createJsonRpcException({ code: -32602, message: 'Invalid params', data: 1 })).toBeInstanceOf(
+            InvalidParamsException,
+        );
+        expect(createJsonRpcException({ code: JSONRPC_REQUEST_CANCELLED, message: 'Request cancelled' })).toBeInstanceOf(
+            RequestCancelledException,
+        );
+
+        const custom = createJsonRpcException({ code: -32001, message: 'Insufficient funds', data: { balance: 10 } });
+        expect(custom.constructor).toBe(JsonRpcException);
+        expect(custom.data).toEqual({ balance: 10 });
+    });
+});
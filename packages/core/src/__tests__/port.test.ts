@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createJsonRpcNotification, createJsonRpcRequest, createMessagePortChannel } from '../index.js';
+
+/**
+ * DOM-style port (like a browser `MessagePort`), delivering posted messages to itself.
+ */
+class FakeDomPort extends EventTarget {
+    started = false;
+    closed = false;
+
+    postMessage(message: unknown): void {
+        if (this.started) {
+            this.dispatchEvent(new MessageEvent('message', { data: message }));
+        }
+    }
+
+    start(): void {
+        this.started = true;
+    }
+
+    close(): void {
+        this.closed = true;
+    }
+}
+
+describe('createMessagePortChannel', () => {
+    it('should exchange structured-clone messages over a MessageChannel', async () => {
+        const { port1, port2 } = new MessageChannel();
+        const left = createMessagePortChannel(port1);
+        const right = createMessagePortChannel(port2);
+        const received = new Promise((resolve) => right.onMessage(resolve));
+        const request = createJsonRpcRequest('schedule', 1, { at: new Date(0), tags: new Set(['a']) });
+
+        left.send(request);
+
+        const message = await received;
+        expect(message).toEqual(request);
+        expect(message).not.toBe(request);
+        left.close();
+    });
+
+    it('should report the other side closing the port', async () => {
+        const { port1, port2 } = new MessageChannel();
+        const left = createMessagePortChannel(port1);
+        const right = createMessagePortChannel(port2);
+        const onLeftClose = vi.fn();
+        const rightClosed = new Promise<void>((resolve) => right.onClose?.(resolve));
+        left.onClose?.(onLeftClose);
+
+        left.close();
+
+        await rightClosed;
+        expect(onLeftClose).not.toHaveBeenCalled();
+        expect(() => left.send(createJsonRpcNotification('log'))).toThrow('Message port channel is closed');
+        expect(() => right.send(createJsonRpcNotification('log'))).toThrow('Message port channel is closed');
+    });
+
+    it('should start DOM-style ports and unwrap message events', () => {
+        const port = new FakeDomPort();
+        const channel = createMessagePortChannel(port);
+        const listener = vi.fn();
+
+        const unsubscribe = channel.onMessage(listener);
+        channel.send(createJsonRpcNotification('log'));
+        unsubscribe();
+        channel.send(createJsonRpcNotification('ignored'));
+        channel.close();
+
+        expect(port.started).toBe(true);
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith(createJsonRpcNotification('log'));
+        expect(port.closed).toBe(true);
+    });
+
+    it('should report a Node worker exiting as a close', () => {
+        const listeners = new Map<string, () => void>();
+        const worker = {
+            postMessage: vi.fn(),
+            on: vi.fn((event: string, listener: () => void) => listeners.set(event, listener)),
+            off: vi.fn((event: string) => listeners.delete(event)),
+        };
+        const channel = createMessagePortChannel(worker);
+        const onClose = vi.fn();
+        channel.onClose?.(onClose);
+
+        listeners.get('exit')?.();
+
+        expect(onClose).toHaveBeenCalledTimes(1);
+        expect(listeners.size).toBe(0);
+    });
+});
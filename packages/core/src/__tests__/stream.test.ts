@@ -0,0 +1,248 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    createJsonRpcNotification,
+    createJsonRpcRequest,
+    createStreamChannel,
+    JsonRpcReadableLike,
+    JsonRpcStreamChannelOptions,
+    ParseErrorException,
+} from '../index.js';
+
+/**
+ * In-process stand-in for a Node readable stream, driven by the tests.
+ */
+class FakeReadable implements JsonRpcReadableLike {
+    listeners = new Map<string, Set<(value?: unknown) => void>>();
+
+    on(event: string, listener: (value?: unknown) => void): this {
+        if (!this.listeners.has(event)) {
+            this.listeners.set(event, new Set());
+        }
+        this.listeners.get(event)!.add(listener);
+        return this;
+    }
+
+    off(event: string, listener: (value?: unknown) => void): this {
+        this.listeners.get(event)?.delete(listener);
+        return this;
+    }
+
+    emit(event: string, value?: unknown): void {
+        this.listeners.get(event)?.forEach((listener) => listener(value));
+    }
+
+    listenerCount(event?: string): number {
+        return [...this.listeners.entries()]
+            .filter(([name]) => event === undefined || name === event)
+            .reduce((count, [, listeners]) => count + listeners.size, 0);
+    }
+}
+
+/**
+ * Creates a stream channel over fake streams.
+ */
+function setup(framing?: 'ndjson' | 'content-length', options: JsonRpcStreamChannelOptions = {}) {
+    const readable = new FakeReadable();
+    const writable = { written: [] as string[], write: vi.fn(), end: vi.fn() };
+    writable.write.mockImplementation((chunk: string) => writable.written.push(chunk));
+    const channel = createStreamChannel(readable, writable, { framing, ...options });
+    const messages: unknown[] = [];
+    channel.onMessage((message) => messages.push(message));
+    return { readable, writable, channel, messages };
+}
+
+describe('createStreamChannel', () => {
+    describe('ndjson framing', () => {
+        it('should write one message per line', () => {
+            const { writable, channel } = setup();
+
+            channel.send(createJsonRpcRequest('add', 1, { a: 1 }));
+
+            expect(writable.written).toEqual(['{"jsonrpc":"2.0","method":"add","id":1,"params":{"a":1}}\n']);
+        });
+
+        it('should handle partial chunks, several messages per chunk and blank lines', () => {
+            const { readable, messages } = setup();
+
+            readable.emit('data', '{"jsonrpc":"2.0","method":"a"}\n\r\n{"jsonrpc":');
+            expect(messages).toEqual([createJsonRpcNotification('a')]);
+
+            readable.emit('data', new TextEncoder().encode('"2.0","method":"b"}\r\n{"jsonrpc":"2.0","method":"c"}\n'));
+            expect(messages).toEqual([
+                createJsonRpcNotification('a'),
+                createJsonRpcNotification('b'),
+                createJsonRpcNotification('c'),
+            ]);
+        });
+
+        it('should decode multi-byte characters split across chunks', () => {
+            const { readable, messages } = setup();
+            const bytes = new TextEncoder().encode('{"jsonrpc":"2.0","method":"é"}\n');
+            const split = bytes.indexOf(0xc3) + 1;
+
+            readable.emit('data', bytes.subarray(0, split));
+            readable.emit('data', bytes.subarray(split));
+
+            expect(messages).toEqual([createJsonRpcNotification('é')]);
+        });
+
+        it('should drop lines exceeding the maximum message size as parse errors and keep reading', () => {
+            const onError = vi.fn();
+            const { readable, messages } = setup('ndjson', { maxMessageSize: 8, onError });
+            const { readable: unterminated, messages: unterminatedMessages } = setup('ndjson', { maxMessageSize: 8, onError });
+
+            readable.emit('data', '"too long"\n[1]\n');
+            unterminated.emit('data', '"still no');
+            unterminated.emit('data', ' newline, still');
+            unterminated.emit('data', ' dropped"\n[2]\n');
+
+            expect(messages).toEqual([[1]]);
+            expect(unterminatedMessages).toEqual([[2]]);
+            expect(onError).toHaveBeenCalledTimes(2);
+            expect(onError).toHaveBeenCalledWith(new ParseErrorException('Stream channel message exceeds 8 bytes'));
+        });
+
+        it('should hand lines that are not JSON over as text', () => {
+            const { readable, messages } = setup();
+
+            readable.emit('data', 'not json\n{"jsonrpc":"2.0","method":"a"}\n');
+
+            expect(messages).toEqual(['not json', createJsonRpcNotification('a')]);
+        });
+    });
+
+    describe('content-length framing', () => {
+        it('should write frames with the byte length of the content', () => {
+            const { writable, channel } = setup('content-length');
+
+            channel.send(createJsonRpcNotification('é'));
+
+            const json = '{"jsonrpc":"2.0","method":"é"}';
+            expect(writable.written).toEqual([`Content-Length: ${json.length + 1}\r\n\r\n${json}`]);
+        });
+
+        it('should handle partial chunks and several frames per chunk', () => {
+            const { readable, messages } = setup('content-length');
+            const frame = (json: string) => `Content-Length: ${new TextEncoder().encode(json).byteLength}\r\n\r\n${json}`;
+            const stream = [
+                frame('{"jsonrpc":"2.0","method":"a"}'),
+                frame('{"jsonrpc":"2.0","method":"é"}'),
+                frame('{"jsonrpc":"2.0","method":"c"}'),
+            ].join('');
+            const bytes = new TextEncoder().encode(stream);
+
+            for (let index = 0; index < bytes.byteLength; index += 7) {
+                readable.emit('data', bytes.subarray(index, index + 7));
+            }
+            readable.emit('data', 'Content-Type: application/vscode-jsonrpc; charset=utf-8\r\ncontent-length: 2\r\n\r\n[]');
+
+            expect(messages).toEqual([
+                createJsonRpcNotification('a'),
+                createJsonRpcNotification('é'),
+                createJsonRpcNotification('c'),
+                [],
+            ]);
+        });
+
+        it('should hand malformed frames over as text and keep reading', () => {
+            const { readable, messages } = setup('content-length');
+
+            readable.emit('data', 'Content-Length: 8\r\n\r\nnot json');
+            readable.emit('data', 'Garbage\r\n\r\nContent-Length: 2\r\n\r\n{}');
+
+            expect(messages).toEqual(['not json', 'Garbage', {}]);
+        });
+
+        it('should fail once a header exceeds the maximum header size', () => {
+            const onError = vi.fn();
+            const { readable, channel, messages } = setup('content-length', { maxHeaderSize: 16, onError });
+            const onClose = vi.fn();
+            channel.onClose?.(onClose);
+
+            readable.emit('data', 'Content-Length:');
+            expect(onError).not.toHaveBeenCalled();
+
+            readable.emit('data', '0000000000');
+
+            expect(onError).toHaveBeenCalledWith(new Error('Stream channel header exceeds 16 bytes'));
+            expect(onClose).toHaveBeenCalledTimes(1);
+            expect(messages).toEqual([]);
+            expect(readable.listenerCount()).toBe(readable.listenerCount('error'));
+        });
+
+        it('should drop bodies exceeding the maximum message size as parse errors and keep reading', () => {
+            const onError = vi.fn();
+            const { readable, channel, messages } = setup('content-length', { maxMessageSize: 8, onError });
+            const onClose = vi.fn();
+            channel.onClose?.(onClose);
+
+            readable.emit('data', 'Content-Length: 12\r\n\r\n["too');
+            readable.emit('data', ' long"]Content-Length: 2\r\n\r\n{}');
+
+            expect(onError).toHaveBeenCalledTimes(1);
+            expect(onError).toHaveBeenCalledWith(new ParseErrorException('Stream channel message exceeds 8 bytes'));
+            expect(onClose).not.toHaveBeenCalled();
+            expect(messages).toEqual([{}]);
+        });
+    });
+
+    it('should report the end of the readable stream as a close', () => {
+        const { readable, channel } = setup();
+        const onClose = vi.fn();
+        channel.onClose?.(onClose);
+
+        readable.emit('end');
+        readable.emit('close');
+
+        expect(onClose).toHaveBeenCalledTimes(1);
+        expect(readable.listenerCount()).toBe(readable.listenerCount('error'));
+        expect(() => channel.send(createJsonRpcNotification('log'))).toThrow('Stream channel is closed');
+    });
+
+    it('should report stream errors and close', () => {
+        const onError = vi.fn();
+        const { readable, channel } = setup('ndjson', { onError });
+        const onClose = vi.fn();
+        channel.onClose?.(onClose);
+        const error = new Error('EPIPE');
+
+        readable.emit('error', error);
+
+        expect(onError).toHaveBeenCalledWith(error);
+        expect(onClose).toHaveBeenCalledTimes(1);
+        expect(readable.listenerCount()).toBe(readable.listenerCount('error'));
+    });
+
+    it('should keep ignoring stream errors once closed', () => {
+        const onError = vi.fn();
+        const { readable, channel } = setup('ndjson', { onError });
+
+        channel.close();
+        readable.emit('error', new Error('EPIPE'));
+
+        expect(readable.listenerCount('error')).toBe(1);
+        expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('should log stream errors by default', () => {
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const { readable } = setup();
+        const error = new Error('EPIPE');
+
+        readable.emit('error', error);
+
+        expect(consoleError).toHaveBeenCalledWith('JSON-RPC stream error:', error);
+        consoleError.mockRestore();
+    });
+
+    it('should stop reading and end the writable stream when closed', () => {
+        const { readable, writable, channel, messages } = setup();
+
+        channel.close();
+        readable.emit('data', '{"jsonrpc":"2.0","method":"a"}\n');
+
+        expect(writable.end).toHaveBeenCalledTimes(1);
+        expect(messages).toEqual([]);
+        expect(readable.listenerCount()).toBe(readable.listenerCount('error'));
+    });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import {
+    createJsonRpcNotification,
+    createJsonRpcStreamAckNotification,
+    createJsonRpcStreamChunkNotification,
+    isJsonRpcStreamAckNotification,
+    isJsonRpcStreamChunkNotification,
+    JSONRPC_STREAM_ACK_METHOD,
+    JSONRPC_STREAM_CHUNK_METHOD,
+} from '../index.js';
+
+describe('streaming', () => {
+    it('should create stream chunk and acknowledgement notifications', () => {
+        expect(createJsonRpcStreamChunkNotification(1, 'line')).toEqual({
+            jsonrpc: '2.0',
+            method: JSONRPC_STREAM_CHUNK_METHOD,
+            params: { id: 1, chunk: 'line' },
+        });
+        expect(createJsonRpcStreamAckNotification('a', 2)).toEqual({
+            jsonrpc: '2.0',
+            method: JSONRPC_STREAM_ACK_METHOD,
+            params: { id: 'a', count: 2 },
+        });
+    });
+
+    it('should recognize stream notifications', () => {
+        expect(isJsonRpcStreamChunkNotification(createJsonRpcStreamChunkNotification(1, null))).toBe(true);
+        expect(isJsonRpcStreamChunkNotification(createJsonRpcNotification(JSONRPC_STREAM_CHUNK_METHOD, { chunk: 1 }))).toBe(false);
+        expect(isJsonRpcStreamAckNotification(createJsonRpcStreamAckNotification(1, 3))).toBe(true);
+        expect(isJsonRpcStreamAckNotification(createJsonRpcStreamAckNotification(1, 0))).toBe(false);
+        expect(isJsonRpcStreamAckNotification(createJsonRpcStreamChunkNotification(1, 3))).toBe(false);
+    });
+});
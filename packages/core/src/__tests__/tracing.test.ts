@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    createJsonRpcSpanAttributes,
+    formatTraceparent,
+    JSONRPC_SPAN_STATUS,
+    JsonRpcException,
+    parseTraceparent,
+    setJsonRpcSpanError,
+} from '../index.js';
+
+describe('tracing', () => {
+    const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+    const spanContext = { traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7', traceFlags: 1 };
+
+    it('should format and parse traceparent values', () => {
+        expect(formatTraceparent(spanContext)).toBe(traceparent);
+        expect(formatTraceparent({ ...spanContext, traceFlags: 0 })).toBe(traceparent.replace(/01$/, '00'));
+        expect(parseTraceparent(traceparent)).toEqual(spanContext);
+    });
+
+    it('should parse traceparent values of future versions', () => {
+        expect(parseTraceparent(`cc${traceparent.slice(2)}-extra`)).toEqual(spanContext);
+    });
+
+    it('should reject invalid traceparent values', () => {
+        expect(parseTraceparent(undefined)).toBeUndefined();
+        expect(parseTraceparent(42)).toBeUndefined();
+        expect(parseTraceparent('')).toBeUndefined();
+        expect(parseTraceparent(traceparent.toUpperCase())).toBeUndefined();
+        expect(parseTraceparent(`ff${traceparent.slice(2)}`)).toBeUndefined();
+        expect(parseTraceparent(`${traceparent}-extra`)).toBeUndefined();
+        expect(parseTraceparent(`00-${'0'.repeat(32)}-00f067aa0ba902b7-01`)).toBeUndefined();
+        expect(parseTraceparent(`00-4bf92f3577b34da6a3ce929d0e0e4736-${'0'.repeat(16)}-01`)).toBeUndefined();
+    });
+
+    it('should create span attributes following the JSON-RPC conventions', () => {
+        expect(createJsonRpcSpanAttributes('add', 1)).toEqual({
+            'rpc.system': 'jsonrpc',
+            'rpc.method': 'add',
+            'rpc.jsonrpc.version': '2.0',
+            'rpc.jsonrpc.request_id': '1',
+        });
+        expect(createJsonRpcSpanAttributes('add')).not.toHaveProperty('rpc.jsonrpc.request_id');
+    });
+
+    it('should record JSON-RPC errors as span status', () => {
+        const span = { spanContext: () => spanContext, setAttribute: vi.fn(), setStatus: vi.fn(), end: vi.fn() };
+
+        setJsonRpcSpanError(span, new JsonRpcException(-32001, 'Not authorized'));
+
+        expect(span.setAttribute).toHaveBeenCalledWith('rpc.jsonrpc.error_code', -32001);
+        expect(span.setAttribute).toHaveBeenCalledWith('rpc.jsonrpc.error_message', 'Not authorized');
+        expect(span.setStatus).toHaveBeenCalledWith({ code: JSONRPC_SPAN_STATUS.ERROR, message: 'Not authorized' });
+    });
+});
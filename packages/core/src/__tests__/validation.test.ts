@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import {
+    toJsonRpcValidator,
+    createJsonSchemaValidator,
+    JsonRpcValidator,
+} from '../index.js';
+
+describe('toJsonRpcValidator', () => {
+    it('should return native validators unchanged', () => {
+        const validator: JsonRpcValidator<number> = {
+            validate: (value) => ({ success: true, value: Number(value) }),
+        };
+
+        expect(toJsonRpcValidator(validator)).toBe(validator);
+    });
+
+    it('should adapt Zod-style safeParse schemas', async () => {
+        const schema = {
+            safeParse: (value: unknown) =>
+                typeof value === 'string'
+                    ? { success: true as const, data: value.trim() }
+                    : {
+                          success: false as const,
+                          error: { issues: [{ path: ['user', 0], message: 'Expected string' }] },
+                      },
+        };
+        const validator = toJsonRpcValidator(schema);
+
+        expect(await validator.validate('  hi ')).toEqual({ success: true, value: 'hi' });
+        expect(await validator.validate(1)).toEqual({
+            success: false,
+            issues: [{ path: ['user', 0], message: 'Expected string' }],
+        });
+    });
+
+    it('should adapt Valibot-style issues with key path segments', async () => {
+        const schema = {
+            safeParse: () => ({
+                success: false as const,
+                issues: [{ path: [{ key: 'a' }, { key: 2 }], message: 'Invalid type' }],
+            }),
+        };
+
+        expect(await toJsonRpcValidator(schema).validate({})).toEqual({
+            success: false,
+            issues: [{ path: ['a', 2], message: 'Invalid type' }],
+        });
+    });
+
+    it('should adapt throwing parse schemas', async () => {
+        const schema = {
+            parse: (value: unknown) => {
+                if (typeof value !== 'number') {
+                    throw Object.assign(new Error('Invalid'), {
+                        issues: [{ path: ['count'], message: 'Expected number' }],
+                    });
+                }
+                if (value < 0) {
+                    throw new Error('Must be positive');
+                }
+                return value;
+            },
+        };
+        const validator = toJsonRpcValidator(schema);
+
+        expect(await validator.validate(3)).toEqual({ success: true, value: 3 });
+        expect(await validator.validate('3')).toEqual({
+            success: false,
+            issues: [{ path: ['count'], message: 'Expected number' }],
+        });
+        expect(await validator.validate(-1)).toEqual({
+            success: false,
+            issues: [{ path: [], message: 'Must be positive' }],
+        });
+    });
+});
+
+describe('createJsonSchemaValidator', () => {
+    const validator = createJsonSchemaValidator({
+        type: 'object',
+        properties: {
+            name: { type: 'string', minLength: 1, maxLength: 5, pattern: '^[a-z]+$' },
+            age: { type: 'integer', minimum: 0, maximum: 150 },
+            role: { enum: ['admin', 'user'] },
+            tags: { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 2 },
+            version: { const: 2 },
+        },
+        required: ['name'],
+        additionalProperties: false,
+    });
+
+    it('should accept valid values', () => {
+        const value = { name: 'bob', age: 42, role: 'admin', tags: ['a'], version: 2 };
+
+        expect(validator.validate(value)).toEqual({ success: true, value });
+    });
+
+    it('should report every failing path', () => {
+        const result = validator.validate({
+            age: 1.5,
+            role: 'root',
+            tags: ['a', 2, 'c'],
+            version: 3,
+            extra: true,
+        });
+
+        expect(result).toEqual({
+            success: false,
+            issues: [
+                { path: ['name'], message: 'Required' },
+                { path: ['age'], message: 'Expected integer, received number' },
+                { path: ['role'], message: 'Expected one of "admin", "user"' },
+                { path: ['tags'], message: 'Expected at most 2 items' },
+                { path: ['tags', 1], message: 'Expected string, received integer' },
+                { path: ['version'], message: 'Expected 2' },
+                { path: ['extra'], message: 'Unexpected property' },
+            ],
+        });
+    });
+
+    it('should check string and number bounds', () => {
+        expect(validator.validate({ name: '', age: -1 })).toEqual({
+            success: false,
+            issues: [
+                { path: ['name'], message: 'Expected at least 1 characters' },
+                { path: ['name'], message: 'Expected to match pattern ^[a-z]+$' },
+                { path: ['age'], message: 'Expected a number greater than or equal to 0' },
+            ],
+        });
+    });
+
+    it('should reject invalid patterns when the validator is created', () => {
+        const create = (): unknown =>
+            createJsonSchemaValidator({
+                type: 'array',
+                items: { type: 'object', properties: { code: { type: 'string', pattern: '^[A-Z' } } },
+            });
+
+        expect(create).toThrow('Invalid JSON Schema pattern at #/items/properties/code: ^[A-Z');
+    });
+
+    it('should report root type mismatches', () => {
+        expect(validator.validate([1, 2])).toEqual({
+            success: false,
+            issues: [{ path: [], message: 'Expected object, received array' }],
+        });
+    });
+
+    it('should accept integers for number types and multiple types', () => {
+        const numberOrNull = createJsonSchemaValidator({ type: ['number', 'null'] });
+
+        expect(numberOrNull.validate(1).success).toBe(true);
+        expect(numberOrNull.validate(null).success).toBe(true);
+        expect(numberOrNull.validate('1').success).toBe(false);
+    });
+
+    it('should compare object and array values structurally', () => {
+        const point = createJsonSchemaValidator({ const: { x: 1, tags: ['a'] } });
+        const origin = createJsonSchemaValidator({ enum: [[0, 0], { x: 0, y: 0 }] });
+
+        expect(point.validate({ tags: ['a'], x: 1 }).success).toBe(true);
+        expect(point.validate({ x: 1, tags: ['b'] })).toEqual({
+            success: false,
+            issues: [{ path: [], message: 'Expected {"x":1,"tags":["a"]}' }],
+        });
+        expect(point.validate({ x: 1, tags: ['a'], y: 2 }).success).toBe(false);
+        expect(origin.validate([0, 0]).success).toBe(true);
+        expect(origin.validate({ y: 0, x: 0 }).success).toBe(true);
+        expect(origin.validate([0]).success).toBe(false);
+    });
+});
@@ -0,0 +1,89 @@
+import type { JSONRPCError, JSONRPCNotification } from './index.js';
+
+/**
+ * Method name of the notification asking the other side to cancel an in-flight request
+ * (same convention as the Language Server Protocol).
+ */
+export const JSONRPC_CANCEL_REQUEST_METHOD = '$/cancelRequest';
+
+/**
+ * Error code returned for a request cancelled through a `$/cancelRequest` notification
+ * (same value as the Language Server Protocol `RequestCancelled` code).
+ */
+export const JSONRPC_REQUEST_CANCELLED = -32800;
+
+/**
+ * Parameters of a `$/cancelRequest` notification.
+ */
+export interface JsonRpcCancelRequestParams {
+    /** ID of the request to cancel */
+    id: string | number;
+}
+
+/**
+ * Creates a `$/cancelRequest` notification for an in-flight request.
+ *
+ * @param id The ID of the request to cancel
+ * @returns A properly formatted cancel notification
+ *
+ * @example
+ * ```typescript
+ * const notification = createJsonRpcCancelNotification(42);
+ * // Returns: { jsonrpc: '2.0', method: '$/cancelRequest', params: { id: 42 } }
+ * ```
+ */
+export function createJsonRpcCancelNotification(id: string | number): JSONRPCNotification<JsonRpcCancelRequestParams> {
+    return {
+        jsonrpc: '2.0',
+        method: JSONRPC_CANCEL_REQUEST_METHOD,
+        params: { id },
+    };
+}
+
+/**
+ * Creates the error object returned for a cancelled request.
+ *
+ * @returns A JSON-RPC error object with the request cancelled code
+ *
+ * @example
+ * ```typescript
+ * const error = createJsonRpcRequestCancelledError();
+ * // Returns: { code: -32800, message: 'Request cancelled' }
+ * ```
+ */
+export function createJsonRpcRequestCancelledError(): JSONRPCError {
+    return {
+        code: JSONRPC_REQUEST_CANCELLED,
+        message: 'Request cancelled',
+    };
+}
+
+/**
+ * Type guard to check if an object is a `$/cancelRequest` notification.
+ *
+ * @param obj The object to check
+ * @returns True if the object is a cancel notification with a valid request ID
+ *
+ * @example
+ * ```typescript
+ * if (isJsonRpcCancelNotification(message)) {
+ *   inFlight.get(message.params.id)?.abort();
+ * }
+ * ```
+ */
+export function isJsonRpcCancelNotification(obj: unknown): obj is Required<JSONRPCNotification<JsonRpcCancelRequestParams>> {
+    return (
+        typeof obj === 'object' &&
+        obj !== null &&
+        'jsonrpc' in obj &&
+        obj.jsonrpc === '2.0' &&
+        'method' in obj &&
+        obj.method === JSONRPC_CANCEL_REQUEST_METHOD &&
+        !('id' in obj) &&
+        'params' in obj &&
+        typeof obj.params === 'object' &&
+        obj.params !== null &&
+        'id' in obj.params &&
+        (typeof obj.params.id === 'string' || typeof obj.params.id === 'number')
+    );
+}
@@ -0,0 +1,154 @@
+import { isJSONRPCResponse } from './index.js';
+import type { JSONRPCMessage, JSONRPCResponse } from './index.js';
+
+/**
+ * Duplex connection carrying JSON-RPC messages in both directions
+ * (e.g. a WebSocket, a worker `MessagePort` or a child process' stdio).
+ * Messages may arrive at any time and in any order; they are correlated by ID by the consumer.
+ *
+ * @example
+ * ```typescript
+ * const channel: JsonRpcMessageChannel = {
+ *   send: (message) => socket.send(JSON.stringify(message)),
+ *   onMessage: (listener) => {
+ *     const onData = (event: MessageEvent) => listener(JSON.parse(event.data));
+ *     socket.addEventListener('message', onData);
+ *     return () => socket.removeEventListener('message', onData);
+ *   },
+ *   onClose: (listener) => {
+ *     socket.addEventListener('close', listener);
+ *     return () => socket.removeEventListener('close', listener);
+ *   },
+ *   close: () => socket.close(),
+ * };
+ * ```
+ */
+export interface JsonRpcMessageChannel {
+    /**
+     * Sends a message or a batch to the other side.
+     *
+     * @param message The message to send
+     */
+    send(message: JSONRPCMessage): void;
+
+    /**
+     * Subscribes to incoming messages. Messages are handed over as received,
+     * without being validated.
+     *
+     * @param listener Function called with every incoming message
+     * @returns A function removing the listener
+     */
+    onMessage(listener: (message: unknown) => void): () => void;
+
+    /**
+     * Optionally subscribes to the channel being closed, by the other side or locally.
+     *
+     * @param listener Function called once the channel is closed
+     * @returns A function removing the listener
+     */
+    onClose?(listener: () => void): () => void;
+
+    /**
+     * Optionally subscribes to the underlying connection dropping while the channel stays open,
+     * e.g. while a WebSocket channel reconnects. Messages sent before the drop will not be answered.
+     *
+     * @param listener Function called every time the connection drops
+     * @returns A function removing the listener
+     */
+    onDisconnect?(listener: () => void): () => void;
+
+    /**
+     * Closes the channel.
+     */
+    close(): void;
+}
+
+/**
+ * Type guard to check if an incoming channel message is a response or a batch of responses,
+ * as opposed to a request, notification or batch to handle.
+ *
+ * @param message The incoming message
+ * @returns True if the message is a response or a non-empty batch of responses
+ *
+ * @example
+ * ```typescript
+ * channel.onMessage((message) => {
+ *   if (!isJsonRpcResponseMessage(message)) {
+ *     void server.handleJsonRpcRequest(message, context);
+ *   }
+ * });
+ * ```
+ */
+export function isJsonRpcResponseMessage(message: unknown): message is JSONRPCResponse | JSONRPCResponse[] {
+    if (Array.isArray(message)) {
+        return message.length > 0 && message.every(isJSONRPCResponse);
+    }
+    return isJSONRPCResponse(message);
+}
+
+/**
+ * Creates two message channels linked to each other in memory: messages sent on one side are received
+ * on the other, asynchronously and in order. Useful in tests, or to connect a client to a server
+ * in the same process without a network.
+ *
+ * Messages are handed over as is, without being serialized, so they may contain any value.
+ * Closing either side closes both, and reports the close to the other side.
+ *
+ * @returns The two ends of the link
+ *
+ * @example
+ * ```typescript
+ * const [clientChannel, serverChannel] = createInMemoryChannelPair();
+ * server.connect(serverChannel, {});
+ * const client = createJsonRpcClient(clientChannel);
+ *
+ * const result = await client.call('add', { a: 1, b: 2 });
+ * ```
+ */
+export function createInMemoryChannelPair(): [JsonRpcMessageChannel, JsonRpcMessageChannel] {
+    const messageListeners = [new Set<(message: unknown) => void>(), new Set<(message: unknown) => void>()];
+    const closeListeners = [new Set<() => void>(), new Set<() => void>()];
+    let closed = false;
+
+    /**
+     * Creates one end of the link.
+     *
+     * @param side The index of the end
+     * @returns The channel of that end
+     */
+    function createEnd(side: 0 | 1): JsonRpcMessageChannel {
+        const other = side === 0 ? 1 : 0;
+
+        return {
+            send(message): void {
+                if (closed) {
+                    throw new Error('In-memory channel is closed');
+                }
+
+                void Promise.resolve().then(() => {
+                    if (!closed) {
+                        messageListeners[other].forEach((listener) => listener(message));
+                    }
+                });
+            },
+            onMessage(listener) {
+                messageListeners[side].add(listener);
+                return () => messageListeners[side].delete(listener);
+            },
+            onClose(listener) {
+                closeListeners[side].add(listener);
+                return () => closeListeners[side].delete(listener);
+            },
+            close(): void {
+                if (closed) {
+                    return;
+                }
+
+                closed = true;
+                closeListeners[other].forEach((listener) => listener());
+            },
+        };
+    }
+
+    return [createEnd(0), createEnd(1)];
+}
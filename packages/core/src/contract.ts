@@ -0,0 +1,61 @@
+/**
+ * Describes a single method of a JSON-RPC contract.
+ *
+ * @template TParams The type of the parameters accepted by the method
+ * @template TResult The type of the result returned by the method
+ *
+ * @example
+ * ```typescript
+ * type AddMethod = JsonRpcContractMethod<{ a: number; b: number }, number>;
+ * ```
+ */
+export interface JsonRpcContractMethod<TParams = unknown, TResult = unknown> {
+    /** Parameters accepted by the method */
+    params: TParams;
+    /** Result returned by the method */
+    result: TResult;
+}
+
+/**
+ * A JSON-RPC contract maps method names to their parameter and result types.
+ * Declare it once and share it between `createJsonRpcServer` and `createJsonRpcClient`
+ * so that method names, parameters and results are checked at compile time on both sides.
+ *
+ * @example
+ * ```typescript
+ * type CalculatorContract = {
+ *   add: { params: { a: number; b: number }; result: number };
+ *   reset: { params: undefined; result: void };
+ * };
+ * ```
+ */
+export type JsonRpcContract = Record<string, JsonRpcContractMethod>;
+
+/**
+ * Extracts the parameters type of a contract method.
+ *
+ * @template TContract The contract type
+ * @template TMethod The method name
+ */
+export type JsonRpcContractParams<
+    TContract extends JsonRpcContract,
+    TMethod extends keyof TContract,
+> = TContract[TMethod]['params'];
+
+/**
+ * Extracts the result type of a contract method.
+ *
+ * @template TContract The contract type
+ * @template TMethod The method name
+ */
+export type JsonRpcContractResult<
+    TContract extends JsonRpcContract,
+    TMethod extends keyof TContract,
+> = TContract[TMethod]['result'];
+
+/**
+ * Union of the method names declared by a contract.
+ *
+ * @template TContract The contract type
+ */
+export type JsonRpcContractMethodName<TContract extends JsonRpcContract> = keyof TContract & string;
@@ -0,0 +1,173 @@
+import { JsonRpcException } from './exception.js';
+
+/**
+ * Describes an application error of an error catalog.
+ *
+ * @template TData The type of the data carried by the error, declared with `errorData<TData>()`
+ *
+ * @example
+ * ```typescript
+ * const notAuthorized: JsonRpcErrorDefinition<{ role: string }> = {
+ *   code: -32001,
+ *   message: 'Not authorized',
+ *   data: errorData<{ role: string }>(),
+ * };
+ * ```
+ */
+export interface JsonRpcErrorDefinition<TData = unknown> {
+    /** The error code: an implementation-defined server error (-32000 to -32099) or an application code */
+    code: number;
+    /** The default error message */
+    message: string;
+    /** Type marker of the error data, created with `errorData<TData>()`; omit it for errors without data */
+    data?: TData;
+}
+
+/**
+ * An error catalog maps error names to their definitions.
+ */
+export type JsonRpcErrorDefinitions = Record<string, JsonRpcErrorDefinition>;
+
+/**
+ * Extracts the data type of an error definition (`undefined` for errors declared without data).
+ *
+ * @template TDefinition The error definition
+ */
+export type JsonRpcErrorData<TDefinition> = TDefinition extends { data: infer TData } ? TData : undefined;
+
+/**
+ * Arguments taken after the error name by the helpers of an error catalog:
+ * the data, optional for errors declared without data.
+ *
+ * @template TDefinition The error definition
+ */
+type JsonRpcErrorDataArgs<TDefinition> =
+    JsonRpcErrorData<TDefinition> extends undefined ? [data?: undefined] : [data: JsonRpcErrorData<TDefinition>];
+
+/**
+ * Exception of an error of a catalog, whose data has the type declared by the error.
+ *
+ * @template TData The type of the data carried by the error
+ */
+export type JsonRpcCatalogException<TData> = JsonRpcException<TData> & { readonly data: TData };
+
+/**
+ * Typed helpers for the errors of a catalog, returned by `defineErrors`.
+ *
+ * @template TDefinitions The error definitions
+ */
+export interface JsonRpcErrorCatalog<TDefinitions extends JsonRpcErrorDefinitions> {
+    /** The error definitions */
+    readonly definitions: TDefinitions;
+    /**
+     * Creates the exception of an error, to throw from a method handler.
+     *
+     * @param name The name of the error
+     * @param data The data of the error, required when the error declares data
+     * @returns A `JsonRpcException` with the error's code and message
+     */
+    create<TName extends keyof TDefinitions & string>(
+        name: TName,
+        ...[data]: JsonRpcErrorDataArgs<TDefinitions[TName]>
+    ): JsonRpcCatalogException<JsonRpcErrorData<TDefinitions[TName]>>;
+    /**
+     * Type guard to check if a caught error is a given error of the catalog,
+     * e.g. a call rejected by the server with its code.
+     *
+     * @param error The caught error
+     * @param name The name of the error
+     * @returns True if the error is a `JsonRpcException` with the error's code
+     */
+    isError<TName extends keyof TDefinitions & string>(
+        error: unknown,
+        name: TName,
+    ): error is JsonRpcCatalogException<JsonRpcErrorData<TDefinitions[TName]>>;
+}
+
+/**
+ * Declares the data type of an error definition. The returned value is only a type marker.
+ *
+ * @template TData The type of the data carried by the error
+ * @returns undefined, typed as TData
+ */
+export function errorData<TData>(): TData {
+    return undefined as TData;
+}
+
+/**
+ * Checks whether an error code is reserved by the JSON-RPC specification: codes from -32768 to -32000,
+ * except -32000 to -32099, left for implementation-defined server errors.
+ *
+ * @param code The error code
+ * @returns True if the code cannot be used by an application
+ */
+function isReservedErrorCode(code: number): boolean {
+    return code >= -32768 && code < -32099;
+}
+
+/**
+ * Defines a catalog of application errors, shared between the server and the client,
+ * with typed helpers to throw them and to recognize them.
+ *
+ * @template TDefinitions The error definitions
+ * @param definitions The error definitions, keyed by error name
+ * @returns The error catalog
+ * @throws {Error} If an error code is not an integer, is reserved by the specification, or is used by another error
+ *
+ * @example
+ * ```typescript
+ * const errors = defineErrors({
+ *   NOT_AUTHORIZED: { code: -32001, message: 'Not authorized', data: errorData<{ role: string }>() },
+ *   RATE_LIMITED: { code: 1001, message: 'Too many requests' },
+ * });
+ *
+ * // Server
+ * throw errors.create('NOT_AUTHORIZED', { role: 'admin' });
+ *
+ * // Client
+ * try {
+ *   await client.call('deleteUser', { id: 1 });
+ * } catch (error) {
+ *   if (errors.isError(error, 'NOT_AUTHORIZED')) {
+ *     console.error(`Requires the ${error.data.role} role`);
+ *   }
+ * }
+ * ```
+ */
+export function defineErrors<const TDefinitions extends JsonRpcErrorDefinitions>(
+    definitions: TDefinitions,
+): JsonRpcErrorCatalog<TDefinitions> {
+    const names = new Map<number, string>();
+    for (const [name, definition] of Object.entries(definitions)) {
+        if (!Number.isInteger(definition.code)) {
+            throw new Error(`JSON-RPC error ${name} has a code that is not an integer: ${definition.code}`);
+        }
+        if (isReservedErrorCode(definition.code)) {
+            throw new Error(`JSON-RPC error ${name} uses the reserved code ${definition.code}`);
+        }
+        const existing = names.get(definition.code);
+        if (existing !== undefined) {
+            throw new Error(`JSON-RPC errors ${existing} and ${name} use the same code ${definition.code}`);
+        }
+        names.set(definition.code, name);
+    }
+
+    return {
+        definitions,
+        create<TName extends keyof TDefinitions & string>(
+            name: TName,
+            ...[data]: JsonRpcErrorDataArgs<TDefinitions[TName]>
+        ): JsonRpcCatalogException<JsonRpcErrorData<TDefinitions[TName]>> {
+            const definition = definitions[name];
+            return new JsonRpcException(definition.code, definition.message, data) as JsonRpcCatalogException<
+                JsonRpcErrorData<TDefinitions[TName]>
+            >;
+        },
+        isError<TName extends keyof TDefinitions & string>(
+            error: unknown,
+            name: TName,
+        ): error is JsonRpcCatalogException<JsonRpcErrorData<TDefinitions[TName]>> {
+            return error instanceof JsonRpcException && error.code === definitions[name].code;
+        },
+    };
+}
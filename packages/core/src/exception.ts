@@ -0,0 +1,176 @@
+import { JSONRPC_REQUEST_CANCELLED } from './cancellation.js';
+
+import { createJsonRpcError, JSONRPC_ERROR_CODES, JSONRPC_ERROR_MESSAGES, type JSONRPCError } from './index.js';
+
+/**
+ * Error carrying a JSON-RPC error object. Thrown by method handlers, the server answers
+ * with its `code`, `message` and `data` only; the client rejects failed calls with it.
+ *
+ * @template TData The type of the additional error information
+ *
+ * @example
+ * ```typescript
+ * // Server
+ * const methods = {
+ *   withdraw: (params: { amount: number }) => {
+ *     throw new JsonRpcException(-32001, 'Insufficient funds', { balance: 10 });
+ *   },
+ * };
+ *
+ * // Client
+ * try {
+ *   await client.call('withdraw', { amount: 100 });
+ * } catch (error) {
+ *   if (error instanceof JsonRpcException && error.code === -32001) {
+ *     console.error(error.message, error.data);
+ *   }
+ * }
+ * ```
+ */
+export class JsonRpcException<TData = unknown> extends Error {
+    /** The error code */
+    readonly code: number;
+    /** Additional error information, if any */
+    readonly data?: TData;
+
+    /**
+     * @param code The error code
+     * @param message Human-readable error message
+     * @param data Optional additional error information
+     */
+    constructor(code: number, message: string, data?: TData) {
+        super(message);
+        this.name = 'JsonRpcException';
+        this.code = code;
+        this.data = data;
+    }
+
+    /**
+     * Returns the JSON-RPC error object of the exception, without its stack or other properties.
+     *
+     * @returns The error object
+     */
+    toJSON(): JSONRPCError {
+        return createJsonRpcError(this.code, this.message, this.data);
+    }
+}
+
+/**
+ * Exception for invalid JSON received by the server (`-32700`).
+ */
+export class ParseErrorException<TData = unknown> extends JsonRpcException<TData> {
+    /**
+     * @param message Human-readable error message, defaults to "Parse error"
+     * @param data Optional additional error information
+     */
+    constructor(message: string = JSONRPC_ERROR_MESSAGES[JSONRPC_ERROR_CODES.PARSE_ERROR], data?: TData) {
+        super(JSONRPC_ERROR_CODES.PARSE_ERROR, message, data);
+        this.name = 'ParseErrorException';
+    }
+}
+
+/**
+ * Exception for a message that is not a valid Request object (`-32600`).
+ */
+export class InvalidRequestException<TData = unknown> extends JsonRpcException<TData> {
+    /**
+     * @param message Human-readable error message, defaults to "Invalid Request"
+     * @param data Optional additional error information
+     */
+    constructor(message: string = JSONRPC_ERROR_MESSAGES[JSONRPC_ERROR_CODES.INVALID_REQUEST], data?: TData) {
+        super(JSONRPC_ERROR_CODES.INVALID_REQUEST, message, data);
+        this.name = 'InvalidRequestException';
+    }
+}
+
+/**
+ * Exception for a method that does not exist or is not available (`-32601`).
+ */
+export class MethodNotFoundException<TData = unknown> extends JsonRpcException<TData> {
+    /**
+     * @param message Human-readable error message, defaults to "Method not found"
+     * @param data Optional additional error information
+     */
+    constructor(message: string = JSONRPC_ERROR_MESSAGES[JSONRPC_ERROR_CODES.METHOD_NOT_FOUND], data?: TData) {
+        super(JSONRPC_ERROR_CODES.METHOD_NOT_FOUND, message, data);
+        this.name = 'MethodNotFoundException';
+    }
+}
+
+/**
+ * Exception for invalid method parameters (`-32602`).
+ *
+ * @example
+ * ```typescript
+ * throw new InvalidParamsException('Amount must be positive', { path: ['amount'] });
+ * ```
+ */
+export class InvalidParamsException<TData = unknown> extends JsonRpcException<TData> {
+    /**
+     * @param message Human-readable error message, defaults to "Invalid params"
+     * @param data Optional additional error information
+     */
+    constructor(message: string = JSONRPC_ERROR_MESSAGES[JSONRPC_ERROR_CODES.INVALID_PARAMS], data?: TData) {
+        super(JSONRPC_ERROR_CODES.INVALID_PARAMS, message, data);
+        this.name = 'InvalidParamsException';
+    }
+}
+
+/**
+ * Exception for an internal JSON-RPC error (`-32603`).
+ */
+export class InternalErrorException<TData = unknown> extends JsonRpcException<TData> {
+    /**
+     * @param message Human-readable error message, defaults to "Internal error"
+     * @param data Optional additional error information
+     */
+    constructor(message: string = JSONRPC_ERROR_MESSAGES[JSONRPC_ERROR_CODES.INTERNAL_ERROR], data?: TData) {
+        super(JSONRPC_ERROR_CODES.INTERNAL_ERROR, message, data);
+        this.name = 'InternalErrorException';
+    }
+}
+
+/**
+ * Exception for a request cancelled through a `$/cancelRequest` notification (`-32800`).
+ */
+export class RequestCancelledException<TData = unknown> extends JsonRpcException<TData> {
+    /**
+     * @param message Human-readable error message, defaults to "Request cancelled"
+     * @param data Optional additional error information
+     */
+    constructor(message = 'Request cancelled', data?: TData) {
+        super(JSONRPC_REQUEST_CANCELLED, message, data);
+        this.name = 'RequestCancelledException';
+    }
+}
+
+/**
+ * Creates the exception of a JSON-RPC error object, using the subclass matching its code.
+ *
+ * @param error The error object, e.g. from an error response
+ * @returns The exception
+ *
+ * @example
+ * ```typescript
+ * const exception = createJsonRpcException({ code: -32601, message: 'Method not found' });
+ * // exception instanceof MethodNotFoundException === true
+ * ```
+ */
+export function createJsonRpcException(error: JSONRPCError): JsonRpcException {
+    switch (error.code) {
+        case JSONRPC_ERROR_CODES.PARSE_ERROR:
+            return new ParseErrorException(error.message, error.data);
+        case JSONRPC_ERROR_CODES.INVALID_REQUEST:
+            return new InvalidRequestException(error.message, error.data);
+        case JSONRPC_ERROR_CODES.METHOD_NOT_FOUND:
+            return new MethodNotFoundException(error.message, error.data);
+        case JSONRPC_ERROR_CODES.INVALID_PARAMS:
+            return new InvalidParamsException(error.message, error.data);
+        case JSONRPC_ERROR_CODES.INTERNAL_ERROR:
+            return new InternalErrorException(error.message, error.data);
+        case JSONRPC_REQUEST_CANCELLED:
+            return new RequestCancelledException(error.message, error.data);
+        default:
+            return new JsonRpcException(error.code, error.message, error.data);
+    }
+}
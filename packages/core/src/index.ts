@@ -22,6 +22,29 @@ export interface JSONRPCRequest<TParams = unknown> {
     params?: TParams;
     /** Unique identifier for the request */
     id: string | number;
+    /** Metadata of the request, e.g. its trace context (optional) */
+    _meta?: JsonRpcRequestMeta;
+}
+
+/**
+ * Metadata of a request, carried in its reserved `_meta` member so that params are left untouched.
+ * 
+ * @example
+ * ```typescript
+ * const request: JSONRPCRequest = {
+ *   jsonrpc: '2.0',
+ *   method: 'add',
+ *   params: { a: 1, b: 2 },
+ *   id: 1,
+ *   _meta: { traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01' },
+ * };
+ * ```
+ */
+export interface JsonRpcRequestMeta {
+    /** W3C `traceparent` of the span that sent the request */
+    traceparent?: string;
+    /** Any other metadata */
+    [key: string]: unknown;
 }
 
 /**
@@ -509,4 +532,16 @@ export function isJSONRPCError(obj: unknown): obj is JSONRPCError {
         'message' in obj &&
         typeof obj.message === 'string'
     );
-}
\ No newline at end of file
+}
+
+export * from './contract.js';
+export * from './validation.js';
+export * from './cancellation.js';
+export * from './channel.js';
+export * from './stream.js';
+export * from './port.js';
+export * from './subscription.js';
+export * from './streaming.js';
+export * from './exception.js';
+export * from './errors.js';
+export * from './tracing.js';
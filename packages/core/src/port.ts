@@ -0,0 +1,141 @@
+import type { JsonRpcMessageChannel } from './channel.js';
+
+/**
+ * Minimal message port interface, as implemented by `MessagePort` and `Worker` in browsers
+ * (`addEventListener` style) and by `MessagePort`, `parentPort` and `Worker` from Node's
+ * `worker_threads` (`on`/`off` style).
+ */
+export interface JsonRpcMessagePortLike {
+    /** Posts a message to the other side, copied with the structured clone algorithm */
+    postMessage(message: unknown): void;
+    /** Subscribes to Node-style events */
+    on?(event: 'message', listener: (data: unknown) => void): unknown;
+    on?(event: 'close' | 'exit', listener: () => void): unknown;
+    /** Unsubscribes from Node-style events */
+    off?(event: 'message', listener: (data: unknown) => void): unknown;
+    off?(event: 'close' | 'exit', listener: () => void): unknown;
+    /** Subscribes to DOM-style events */
+    addEventListener?(type: 'message', listener: (event: MessageEventLike) => void): void;
+    addEventListener?(type: 'close', listener: () => void): void;
+    /** Unsubscribes from DOM-style events */
+    removeEventListener?(type: 'message', listener: (event: MessageEventLike) => void): void;
+    removeEventListener?(type: 'close', listener: () => void): void;
+    /** Starts delivering messages (required by DOM `MessagePort`s when using `addEventListener`) */
+    start?(): void;
+    /** Closes the port */
+    close?(): void;
+}
+
+/**
+ * Minimal DOM `MessageEvent` interface.
+ */
+interface MessageEventLike {
+    /** The posted message */
+    readonly data: unknown;
+}
+
+/**
+ * Event subscription method of either event API, called with a runtime event name.
+ */
+type EventMethod = (event: string, listener: (payload?: unknown) => void) => unknown;
+
+/**
+ * Subscribes to an event of a port, using whichever event API the port implements.
+ *
+ * @param port The message port
+ * @param event The event to subscribe to
+ * @param listener Function called with the event payload
+ * @returns A function removing the listener
+ */
+function listen(
+    port: JsonRpcMessagePortLike,
+    event: 'message' | 'close' | 'exit',
+    listener: (data?: unknown) => void,
+): () => void {
+    if (port.on && port.off) {
+        const emitter = port as { on: EventMethod; off: EventMethod };
+        emitter.on(event, listener);
+        return () => emitter.off(event, listener);
+    }
+
+    if (port.addEventListener && port.removeEventListener && event !== 'exit') {
+        const target = port as { addEventListener: EventMethod; removeEventListener: EventMethod };
+        const onEvent = (payload?: unknown): void => listener((payload as MessageEventLike | undefined)?.data);
+        target.addEventListener(event, onEvent);
+        return () => target.removeEventListener(event, onEvent);
+    }
+
+    return () => {};
+}
+
+/**
+ * Creates a message channel over a `MessagePort`, a `Worker` or a worker's `parentPort`,
+ * usable by the client, the server (`server.connect`) and peers.
+ *
+ * Messages are posted as is and copied with the structured clone algorithm rather than serialized to JSON,
+ * so params and results may contain values such as `Date`, `Map` or typed arrays.
+ * The channel is reported closed when the port emits `close` (or a Node `Worker` emits `exit`).
+ *
+ * @param port The port messages are exchanged over
+ * @returns A message channel over the port
+ *
+ * @example
+ * ```typescript
+ * // Main thread
+ * const worker = new Worker(new URL('./worker.js', import.meta.url), { type: 'module' });
+ * const client = createJsonRpcClient<WorkerContract>(createMessagePortChannel(worker));
+ *
+ * // Worker
+ * server.connect(createMessagePortChannel(self), {});
+ * ```
+ */
+export function createMessagePortChannel(port: JsonRpcMessagePortLike): JsonRpcMessageChannel {
+    const closeListeners = new Set<() => void>();
+    let closed = false;
+
+    function onEnd(): void {
+        if (closed) {
+            return;
+        }
+
+        shutdown();
+        closeListeners.forEach((listener) => listener());
+    }
+
+    const unsubscribes = [listen(port, 'close', onEnd), listen(port, 'exit', onEnd)];
+
+    /**
+     * Marks the channel as closed and stops listening to the port.
+     */
+    function shutdown(): void {
+        closed = true;
+        unsubscribes.splice(0).forEach((unsubscribe) => unsubscribe());
+    }
+
+    return {
+        send(message): void {
+            if (closed) {
+                throw new Error('Message port channel is closed');
+            }
+            port.postMessage(message);
+        },
+        onMessage(listener): () => void {
+            const unsubscribe = listen(port, 'message', listener);
+            unsubscribes.push(unsubscribe);
+            port.start?.();
+            return unsubscribe;
+        },
+        onClose(listener) {
+            closeListeners.add(listener);
+            return () => closeListeners.delete(listener);
+        },
+        close(): void {
+            if (closed) {
+                return;
+            }
+
+            shutdown();
+            port.close?.();
+        },
+    };
+}
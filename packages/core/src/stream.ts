@@ -0,0 +1,344 @@
+import type { JsonRpcMessageChannel } from './channel.js';
+import { ParseErrorException } from './exception.js';
+
+/**
+ * Minimal readable stream interface, as implemented by Node's `Readable` (e.g. `process.stdin`
+ * or a child process' `stdout`).
+ */
+export interface JsonRpcReadableLike {
+    /** Subscribes to data chunks (strings or bytes), the end of the stream and stream errors */
+    on(event: 'data', listener: (chunk: unknown) => void): unknown;
+    on(event: 'end' | 'close', listener: () => void): unknown;
+    on(event: 'error', listener: (error: unknown) => void): unknown;
+    /** Unsubscribes from stream events */
+    off(event: 'data', listener: (chunk: unknown) => void): unknown;
+    off(event: 'end' | 'close', listener: () => void): unknown;
+    off(event: 'error', listener: (error: unknown) => void): unknown;
+}
+
+/**
+ * Minimal writable stream interface, as implemented by Node's `Writable` (e.g. `process.stdout`
+ * or a child process' `stdin`).
+ */
+export interface JsonRpcWritableLike {
+    /** Writes a chunk of text */
+    write(chunk: string): unknown;
+    /** Ends the stream */
+    end?(): unknown;
+}
+
+/**
+ * Framing of the messages of a stream channel:
+ * - `'ndjson'`: one JSON message per line (newline-delimited JSON)
+ * - `'content-length'`: Language Server Protocol style `Content-Length: <bytes>\r\n\r\n<json>` frames
+ */
+export type JsonRpcStreamFraming = 'ndjson' | 'content-length';
+
+/**
+ * Configuration options for a stream channel.
+ *
+ * @example
+ * ```typescript
+ * const options: JsonRpcStreamChannelOptions = { framing: 'content-length' };
+ * ```
+ */
+export interface JsonRpcStreamChannelOptions {
+    /** Framing of the messages. Defaults to `'ndjson'` */
+    framing?: JsonRpcStreamFraming;
+    /**
+     * Maximum size in bytes of a `content-length` header. The channel fails once more bytes are
+     * buffered without a complete header. Defaults to 8192
+     */
+    maxHeaderSize?: number;
+    /**
+     * Maximum size in bytes of a message: the body of a `content-length` frame, or an `ndjson` line.
+     * Larger messages are dropped and reported to `onError` as a parse error, and the channel keeps
+     * reading the next ones. Defaults to 16 MiB
+     */
+    maxMessageSize?: number;
+    /**
+     * Called with the errors of the readable stream and framing errors. Stream errors and oversized headers
+     * are reported before the channel closes. Defaults to logging them with `console.error`
+     */
+    onError?: (error: unknown) => void;
+}
+
+const DEFAULT_MAX_HEADER_SIZE = 8192;
+const DEFAULT_MAX_MESSAGE_SIZE = 16 * 1024 * 1024;
+const NEWLINE = 0x0a;
+const HEADER_SEPARATOR = [0x0d, 0x0a, 0x0d, 0x0a];
+
+/**
+ * Concatenates two byte arrays.
+ *
+ * @param left The first bytes
+ * @param right The bytes to append
+ * @returns The concatenated bytes
+ */
+function concat(left: Uint8Array, right: Uint8Array): Uint8Array {
+    if (left.byteLength === 0) {
+        return right;
+    }
+
+    const bytes = new Uint8Array(left.byteLength + right.byteLength);
+    bytes.set(left, 0);
+    bytes.set(right, left.byteLength);
+    return bytes;
+}
+
+/**
+ * Finds the position of a byte sequence.
+ *
+ * @param bytes The bytes to search
+ * @param sequence The sequence to find
+ * @returns The index of the first occurrence, or -1
+ */
+function indexOfSequence(bytes: Uint8Array, sequence: number[]): number {
+    for (let index = 0; index <= bytes.byteLength - sequence.length; index++) {
+        if (sequence.every((byte, offset) => bytes[index + offset] === byte)) {
+            return index;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Creates a message channel over a pair of streams, such as a child process' stdio
+ * or the current process' `stdin`/`stdout`, usable by the client, the server (`server.connect`) and peers.
+ *
+ * Chunks are buffered, so messages split across chunks and several messages per chunk are supported.
+ * Frames whose content is not valid JSON, or `content-length` headers without a valid length,
+ * are handed over as text, so that a server answers them with a parse error.
+ * Errors of the readable stream, and `content-length` headers exceeding `maxHeaderSize`,
+ * are reported to `onError` and close the channel. Messages exceeding `maxMessageSize` are dropped
+ * and reported to `onError` with a `ParseErrorException`.
+ *
+ * @param readable The stream messages are read from
+ * @param writable The stream messages are written to
+ * @param options Optional configuration for the channel
+ * @returns A message channel over the streams
+ *
+ * @example
+ * ```typescript
+ * // Language server side, over the process' stdio
+ * server.connect(createStreamChannel(process.stdin, process.stdout, { framing: 'content-length' }), {});
+ *
+ * // Editor side, over a child process' stdio
+ * const child = spawn('language-server');
+ * const client = createJsonRpcClient(createStreamChannel(child.stdout, child.stdin, { framing: 'content-length' }));
+ * ```
+ */
+export function createStreamChannel(
+    readable: JsonRpcReadableLike,
+    writable: JsonRpcWritableLike,
+    options: JsonRpcStreamChannelOptions = {},
+): JsonRpcMessageChannel {
+    const framing = options.framing ?? 'ndjson';
+    const maxHeaderSize = options.maxHeaderSize ?? DEFAULT_MAX_HEADER_SIZE;
+    const maxMessageSize = options.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE;
+    const onError = options.onError ?? ((error: unknown): void => console.error('JSON-RPC stream error:', error));
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+    const messageListeners = new Set<(message: unknown) => void>();
+    const closeListeners = new Set<() => void>();
+    let buffer: Uint8Array = new Uint8Array(0);
+    let closed = false;
+    // Whether the rest of an oversized line is being dropped (ndjson)
+    let droppingLine = false;
+    // Number of bytes of an oversized body still to drop (content-length)
+    let bytesToDrop = 0;
+
+    /**
+     * Hands the content of a frame over to the listeners, parsed if it is valid JSON.
+     *
+     * @param content The content of the frame
+     */
+    function emit(content: string): void {
+        let message: unknown;
+        try {
+            message = JSON.parse(content);
+        } catch {
+            message = content;
+        }
+        messageListeners.forEach((listener) => listener(message));
+    }
+
+    /**
+     * Reports a message exceeding the maximum message size, which is dropped.
+     */
+    function reportOversizedMessage(): void {
+        onError(new ParseErrorException(`Stream channel message exceeds ${maxMessageSize} bytes`));
+    }
+
+    /**
+     * Extracts and emits the complete newline-delimited messages of the buffer,
+     * dropping the lines exceeding the maximum message size.
+     */
+    function readLines(): void {
+        let end: number;
+        while ((end = buffer.indexOf(NEWLINE)) !== -1) {
+            const bytes = buffer.subarray(0, end);
+            buffer = buffer.subarray(end + 1);
+            if (droppingLine) {
+                droppingLine = false;
+                continue;
+            }
+            if (bytes.byteLength > maxMessageSize) {
+                reportOversizedMessage();
+                continue;
+            }
+
+            const line = decoder.decode(bytes).trim();
+            if (line !== '') {
+                emit(line);
+            }
+        }
+
+        // Do not buffer a line that is already too large until its newline arrives
+        if (buffer.byteLength > maxMessageSize) {
+            if (!droppingLine) {
+                droppingLine = true;
+                reportOversizedMessage();
+            }
+            buffer = new Uint8Array(0);
+        }
+    }
+
+    /**
+     * Extracts and emits the complete `Content-Length` frames of the buffer,
+     * dropping the bodies exceeding the maximum message size.
+     */
+    function readFrames(): void {
+        for (;;) {
+            if (bytesToDrop > 0) {
+                const dropped = Math.min(bytesToDrop, buffer.byteLength);
+                buffer = buffer.subarray(dropped);
+                bytesToDrop -= dropped;
+                if (bytesToDrop > 0) {
+                    return;
+                }
+            }
+
+            const headerEnd = indexOfSequence(buffer, HEADER_SEPARATOR);
+            if (headerEnd === -1) {
+                if (buffer.byteLength > maxHeaderSize) {
+                    fail(new Error(`Stream channel header exceeds ${maxHeaderSize} bytes`));
+                }
+                return;
+            }
+
+            const header = decoder.decode(buffer.subarray(0, headerEnd));
+            const match = /^content-length:\s*(\d+)\s*$/im.exec(header);
+            if (!match) {
+                buffer = buffer.subarray(headerEnd + HEADER_SEPARATOR.length);
+                emit(header);
+                continue;
+            }
+
+            const bodyStart = headerEnd + HEADER_SEPARATOR.length;
+            const length = Number(match[1]);
+            if (length > maxMessageSize) {
+                buffer = buffer.subarray(bodyStart);
+                bytesToDrop = length;
+                reportOversizedMessage();
+                continue;
+            }
+
+            const bodyEnd = bodyStart + length;
+            if (buffer.byteLength < bodyEnd) {
+                return;
+            }
+
+            const body = decoder.decode(buffer.subarray(bodyStart, bodyEnd));
+            buffer = buffer.subarray(bodyEnd);
+            emit(body);
+        }
+    }
+
+    function onData(chunk: unknown): void {
+        const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : (chunk as Uint8Array);
+        buffer = concat(buffer, bytes);
+
+        if (framing === 'ndjson') {
+            readLines();
+        } else {
+            readFrames();
+        }
+    }
+
+    function onEnd(): void {
+        if (closed) {
+            return;
+        }
+
+        shutdown();
+        closeListeners.forEach((listener) => listener());
+    }
+
+    /**
+     * Reports an error of the stream or of its framing, then closes the channel.
+     *
+     * @param error The error to report
+     */
+    function fail(error: unknown): void {
+        if (closed) {
+            return;
+        }
+
+        buffer = new Uint8Array(0);
+        onError(error);
+        onEnd();
+    }
+
+    /**
+     * Ignores errors emitted once the channel is closed, which would otherwise crash the process
+     * when the readable stream has no other error listener.
+     */
+    function ignoreError(): void {}
+
+    /**
+     * Stops reading the stream.
+     */
+    function shutdown(): void {
+        closed = true;
+        readable.off('data', onData);
+        readable.off('end', onEnd);
+        readable.off('close', onEnd);
+        readable.off('error', fail);
+        readable.on('error', ignoreError);
+    }
+
+    readable.on('data', onData);
+    readable.on('end', onEnd);
+    readable.on('close', onEnd);
+    readable.on('error', fail);
+
+    return {
+        send(message): void {
+            if (closed) {
+                throw new Error('Stream channel is closed');
+            }
+
+            const json = JSON.stringify(message);
+            writable.write(
+                framing === 'ndjson' ? `${json}\n` : `Content-Length: ${encoder.encode(json).byteLength}\r\n\r\n${json}`,
+            );
+        },
+        onMessage(listener) {
+            messageListeners.add(listener);
+            return () => messageListeners.delete(listener);
+        },
+        onClose(listener) {
+            closeListeners.add(listener);
+            return () => closeListeners.delete(listener);
+        },
+        close(): void {
+            if (closed) {
+                return;
+            }
+
+            shutdown();
+            writable.end?.();
+        },
+    };
+}
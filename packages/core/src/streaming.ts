@@ -0,0 +1,151 @@
+import type { JSONRPCNotification } from './index.js';
+
+/**
+ * Method name of the notifications carrying the chunks of a streamed result,
+ * sent by the server before the final response of the request.
+ */
+export const JSONRPC_STREAM_CHUNK_METHOD = '$/streamChunk';
+
+/**
+ * Method name of the notifications acknowledging consumed chunks, sent by the client
+ * so that the server can send more (backpressure).
+ */
+export const JSONRPC_STREAM_ACK_METHOD = '$/streamAck';
+
+/**
+ * Parameters of a `$/streamChunk` notification.
+ *
+ * @template TChunk The type of the chunk
+ */
+export interface JsonRpcStreamChunkParams<TChunk = unknown> {
+    /** ID of the request whose result is streamed */
+    id: string | number;
+    /** The chunk */
+    chunk: TChunk;
+}
+
+/**
+ * Parameters of a `$/streamAck` notification.
+ */
+export interface JsonRpcStreamAckParams {
+    /** ID of the request whose result is streamed */
+    id: string | number;
+    /** Number of chunks consumed since the previous acknowledgement */
+    count: number;
+}
+
+/**
+ * Creates a `$/streamChunk` notification carrying a chunk of a streamed result.
+ *
+ * @template TChunk The type of the chunk
+ * @param id The ID of the request whose result is streamed
+ * @param chunk The chunk
+ * @returns A properly formatted stream chunk notification
+ *
+ * @example
+ * ```typescript
+ * const notification = createJsonRpcStreamChunkNotification(1, 'line 1');
+ * // Returns: { jsonrpc: '2.0', method: '$/streamChunk', params: { id: 1, chunk: 'line 1' } }
+ * ```
+ */
+export function createJsonRpcStreamChunkNotification<TChunk = unknown>(
+    id: string | number,
+    chunk: TChunk,
+): JSONRPCNotification<JsonRpcStreamChunkParams<TChunk>> {
+    return {
+        jsonrpc: '2.0',
+        method: JSONRPC_STREAM_CHUNK_METHOD,
+        params: { id, chunk },
+    };
+}
+
+/**
+ * Creates a `$/streamAck` notification acknowledging consumed chunks.
+ *
+ * @param id The ID of the request whose result is streamed
+ * @param count The number of chunks consumed
+ * @returns A properly formatted stream acknowledgement notification
+ *
+ * @example
+ * ```typescript
+ * const notification = createJsonRpcStreamAckNotification(1, 1);
+ * // Returns: { jsonrpc: '2.0', method: '$/streamAck', params: { id: 1, count: 1 } }
+ * ```
+ */
+export function createJsonRpcStreamAckNotification(
+    id: string | number,
+    count: number,
+): JSONRPCNotification<JsonRpcStreamAckParams> {
+    return {
+        jsonrpc: '2.0',
+        method: JSONRPC_STREAM_ACK_METHOD,
+        params: { id, count },
+    };
+}
+
+/**
+ * Checks that a message is a notification of the given method whose params carry a request ID.
+ *
+ * @param obj The object to check
+ * @param method The expected method name
+ * @returns True if the object matches
+ */
+function isStreamNotification(obj: unknown, method: string): obj is { params: { id: string | number } } {
+    return (
+        typeof obj === 'object' &&
+        obj !== null &&
+        'jsonrpc' in obj &&
+        obj.jsonrpc === '2.0' &&
+        'method' in obj &&
+        obj.method === method &&
+        !('id' in obj) &&
+        'params' in obj &&
+        typeof obj.params === 'object' &&
+        obj.params !== null &&
+        'id' in obj.params &&
+        (typeof obj.params.id === 'string' || typeof obj.params.id === 'number')
+    );
+}
+
+/**
+ * Type guard to check if an object is a `$/streamChunk` notification.
+ *
+ * @param obj The object to check
+ * @returns True if the object is a stream chunk notification with a valid request ID
+ *
+ * @example
+ * ```typescript
+ * if (isJsonRpcStreamChunkNotification(message)) {
+ *   streams.get(message.params.id)?.push(message.params.chunk);
+ * }
+ * ```
+ */
+export function isJsonRpcStreamChunkNotification(
+    obj: unknown,
+): obj is Required<JSONRPCNotification<JsonRpcStreamChunkParams>> {
+    return isStreamNotification(obj, JSONRPC_STREAM_CHUNK_METHOD);
+}
+
+/**
+ * Type guard to check if an object is a `$/streamAck` notification.
+ *
+ * @param obj The object to check
+ * @returns True if the object is a stream acknowledgement with a valid request ID and count
+ *
+ * @example
+ * ```typescript
+ * if (isJsonRpcStreamAckNotification(message)) {
+ *   streams.get(message.params.id)?.acknowledge(message.params.count);
+ * }
+ * ```
+ */
+export function isJsonRpcStreamAckNotification(
+    obj: unknown,
+): obj is Required<JSONRPCNotification<JsonRpcStreamAckParams>> {
+    return (
+        isStreamNotification(obj, JSONRPC_STREAM_ACK_METHOD) &&
+        'count' in obj.params &&
+        typeof obj.params.count === 'number' &&
+        obj.params.count > 0
+    );
+}
@@ -0,0 +1,95 @@
+import type { JSONRPCNotification } from './index.js';
+
+/**
+ * Method name of the notifications carrying the events of a subscription,
+ * sent by the server to the subscriber.
+ */
+export const JSONRPC_SUBSCRIPTION_METHOD = '$/subscription';
+
+/**
+ * Method name of the request ending a subscription, sent by the subscriber to the server.
+ */
+export const JSONRPC_UNSUBSCRIBE_METHOD = '$/unsubscribe';
+
+/**
+ * Error code returned when a method creates a subscription outside of a connection (e.g. over HTTP),
+ * where events cannot be pushed. A server error code, from the range reserved for implementations.
+ */
+export const JSONRPC_SUBSCRIPTIONS_NOT_SUPPORTED = -32010;
+
+/**
+ * Parameters of a `$/subscription` notification.
+ *
+ * @template TEvent The type of the event
+ */
+export interface JsonRpcSubscriptionParams<TEvent = unknown> {
+    /** ID of the subscription, as returned by the subscribe method */
+    subscription: string | number;
+    /** The event */
+    result: TEvent;
+}
+
+/**
+ * Parameters of a `$/unsubscribe` request.
+ */
+export interface JsonRpcUnsubscribeParams {
+    /** ID of the subscription to end */
+    subscription: string | number;
+}
+
+/**
+ * Creates a `$/subscription` notification delivering an event to a subscriber.
+ *
+ * @template TEvent The type of the event
+ * @param subscription The ID of the subscription
+ * @param result The event
+ * @returns A properly formatted subscription notification
+ *
+ * @example
+ * ```typescript
+ * const notification = createJsonRpcSubscriptionNotification('1', { price: 42 });
+ * // Returns: { jsonrpc: '2.0', method: '$/subscription', params: { subscription: '1', result: { price: 42 } } }
+ * ```
+ */
+export function createJsonRpcSubscriptionNotification<TEvent = unknown>(
+    subscription: string | number,
+    result: TEvent,
+): JSONRPCNotification<JsonRpcSubscriptionParams<TEvent>> {
+    return {
+        jsonrpc: '2.0',
+        method: JSONRPC_SUBSCRIPTION_METHOD,
+        params: { subscription, result },
+    };
+}
+
+/**
+ * Type guard to check if an object is a `$/subscription` notification.
+ *
+ * @param obj The object to check
+ * @returns True if the object is a subscription notification with a valid subscription ID
+ *
+ * @example
+ * ```typescript
+ * if (isJsonRpcSubscriptionNotification(message)) {
+ *   subscriptions.get(message.params.subscription)?.(message.params.result);
+ * }
+ * ```
+ */
+export function isJsonRpcSubscriptionNotification(
+    obj: unknown,
+): obj is Required<JSONRPCNotification<JsonRpcSubscriptionParams>> {
+    return (
+        typeof obj === 'object' &&
+        obj !== null &&
+        'jsonrpc' in obj &&
+        obj.jsonrpc === '2.0' &&
+        'method' in obj &&
+        obj.method === JSONRPC_SUBSCRIPTION_METHOD &&
+        !('id' in obj) &&
+        'params' in obj &&
+        typeof obj.params === 'object' &&
+        obj.params !== null &&
+        'subscription' in obj.params &&
+        (typeof obj.params.subscription === 'string' || typeof obj.params.subscription === 'number')
+    );
+}
@@ -0,0 +1,160 @@
+import type { JSONRPCError } from './index.js';
+
+/**
+ * Status codes of spans, with the same values as OpenTelemetry's `SpanStatusCode`.
+ */
+export const JSONRPC_SPAN_STATUS = {
+    UNSET: 0,
+    OK: 1,
+    ERROR: 2,
+} as const;
+
+/**
+ * Identifies a span within a trace, as propagated in W3C `traceparent` headers.
+ */
+export interface JsonRpcSpanContext {
+    /** ID of the trace, 32 lowercase hex characters */
+    traceId: string;
+    /** ID of the span, 16 lowercase hex characters */
+    spanId: string;
+    /** Trace flags, e.g. `1` when the trace is sampled */
+    traceFlags: number;
+}
+
+/**
+ * Attributes of a span.
+ */
+export type JsonRpcSpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Options of a span started by the client or the server.
+ */
+export interface JsonRpcSpanOptions {
+    /** `'client'` for outgoing calls, `'server'` for handled requests */
+    kind: 'client' | 'server';
+    /** Initial attributes of the span */
+    attributes: JsonRpcSpanAttributes;
+    /** Context of the remote parent span, received in the `traceparent` of the request (server only) */
+    parent?: JsonRpcSpanContext;
+}
+
+/**
+ * Minimal span used by the client and the server. OpenTelemetry spans satisfy it.
+ */
+export interface JsonRpcSpan {
+    /** Returns the context of the span, propagated to the server */
+    spanContext(): JsonRpcSpanContext;
+    /** Sets an attribute of the span */
+    setAttribute(key: string, value: string | number | boolean): unknown;
+    /** Sets the status of the span, see `JSONRPC_SPAN_STATUS` */
+    setStatus(status: { code: number; message?: string }): unknown;
+    /** Records an exception thrown during the span (optional) */
+    recordException?(exception: Error): unknown;
+    /** Ends the span */
+    end(): unknown;
+}
+
+/**
+ * Minimal tracer creating the spans of the client and the server. Wrap an OpenTelemetry tracer
+ * to export spans to a collector, or use an in-memory implementation in tests.
+ *
+ * @example
+ * ```typescript
+ * import { context, trace, SpanKind } from '@opentelemetry/api';
+ *
+ * const otelTracer = trace.getTracer('my-service');
+ * const tracer: JsonRpcTracer = {
+ *   startSpan: (name, { kind, attributes, parent }) =>
+ *     otelTracer.startSpan(
+ *       name,
+ *       { kind: kind === 'client' ? SpanKind.CLIENT : SpanKind.SERVER, attributes },
+ *       parent ? trace.setSpanContext(context.active(), { ...parent, isRemote: true }) : context.active(),
+ *     ),
+ * };
+ * ```
+ */
+export interface JsonRpcTracer {
+    /**
+     * Starts a span.
+     *
+     * @param name Name of the span, the name of the called method
+     * @param options Kind, attributes and remote parent of the span
+     * @returns The started span
+     */
+    startSpan(name: string, options: JsonRpcSpanOptions): JsonRpcSpan;
+}
+
+/** Format of W3C `traceparent` values: version, trace ID, parent ID and flags */
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * Formats a span context as a W3C `traceparent` value.
+ *
+ * @param context The span context
+ * @returns The `traceparent` value, e.g. `00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01`
+ */
+export function formatTraceparent(context: JsonRpcSpanContext): string {
+    const flags = (context.traceFlags & 0xff).toString(16).padStart(2, '0');
+    return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * Parses a W3C `traceparent` value. Values of future versions are parsed as version `00`,
+ * as the specification requires.
+ *
+ * @param traceparent The `traceparent` value
+ * @returns The span context, or undefined if the value is invalid
+ */
+export function parseTraceparent(traceparent: unknown): JsonRpcSpanContext | undefined {
+    if (typeof traceparent !== 'string') {
+        return undefined;
+    }
+
+    const match = TRACEPARENT_PATTERN.exec(traceparent);
+    if (!match) {
+        return undefined;
+    }
+
+    const [, version, traceId, spanId, flags, rest] = match;
+    if (
+        version === 'ff' ||
+        (version === '00' && rest !== undefined) ||
+        /^0+$/.test(traceId) ||
+        /^0+$/.test(spanId)
+    ) {
+        return undefined;
+    }
+
+    return { traceId, spanId, traceFlags: parseInt(flags, 16) };
+}
+
+/**
+ * Returns the attributes of the span of a call, following the OpenTelemetry conventions for JSON-RPC.
+ *
+ * @param method Name of the called method
+ * @param id ID of the request, if any
+ * @returns The span attributes
+ */
+export function createJsonRpcSpanAttributes(method: string, id?: string | number): JsonRpcSpanAttributes {
+    const attributes: JsonRpcSpanAttributes = {
+        'rpc.system': 'jsonrpc',
+        'rpc.method': method,
+        'rpc.jsonrpc.version': '2.0',
+    };
+    if (id !== undefined) {
+        attributes['rpc.jsonrpc.request_id'] = String(id);
+    }
+    return attributes;
+}
+
+/**
+ * Records a JSON-RPC error on a span: its code and message as attributes, and an error status.
+ *
+ * @param span The span
+ * @param error The JSON-RPC error (or `JsonRpcException`)
+ */
+export function setJsonRpcSpanError(span: JsonRpcSpan, error: JSONRPCError): void {
+    span.setAttribute('rpc.jsonrpc.error_code', error.code);
+    span.setAttribute('rpc.jsonrpc.error_message', error.message);
+    span.setStatus({ code: JSONRPC_SPAN_STATUS.ERROR, message: error.message });
+}
@@ -0,0 +1,462 @@
+/**
+ * A single problem reported by a validator.
+ *
+ * @example
+ * ```typescript
+ * const issue: JsonRpcValidationIssue = {
+ *   path: ['user', 'email'],
+ *   message: 'Expected string',
+ * };
+ * ```
+ */
+export interface JsonRpcValidationIssue {
+    /** Location of the invalid value, from the root of the validated value */
+    path: (string | number)[];
+    /** Human-readable description of the problem */
+    message: string;
+}
+
+/**
+ * Outcome of a validation: either the validated value or the list of issues.
+ *
+ * @template TValue The type of the validated value
+ */
+export type JsonRpcValidationResult<TValue = unknown> =
+    | { success: true; value: TValue }
+    | { success: false; issues: JsonRpcValidationIssue[] };
+
+/**
+ * Validator interface used by the server (params) and the client (results).
+ * The returned value replaces the input, so validators may also coerce or transform it.
+ *
+ * @template TValue The type of the validated value
+ *
+ * @example
+ * ```typescript
+ * const positive: JsonRpcValidator<number> = {
+ *   validate: (value) =>
+ *     typeof value === 'number' && value > 0
+ *       ? { success: true, value }
+ *       : { success: false, issues: [{ path: [], message: 'Expected a positive number' }] },
+ * };
+ * ```
+ */
+export interface JsonRpcValidator<TValue = unknown> {
+    /**
+     * Validates a value.
+     *
+     * @param value The value to validate
+     * @returns The validation result (can be async)
+     */
+    validate(value: unknown): JsonRpcValidationResult<TValue> | Promise<JsonRpcValidationResult<TValue>>;
+}
+
+/**
+ * Issue shape reported by Zod/Valibot-style schemas.
+ * Path segments are either keys or objects carrying a `key` property.
+ */
+interface SchemaIssue {
+    path?: readonly unknown[];
+    message: string;
+}
+
+/**
+ * Schema exposing a Zod-style `safeParse` method.
+ *
+ * @template TValue The type of the parsed value
+ */
+export interface JsonRpcSafeParseSchema<TValue = unknown> {
+    safeParse(
+        value: unknown,
+    ):
+        | { success: true; data: TValue }
+        | { success: false; error: { issues: readonly SchemaIssue[] } }
+        | { success: false; issues: readonly SchemaIssue[] };
+}
+
+/**
+ * Schema exposing a `parse` method that throws on invalid input.
+ *
+ * @template TValue The type of the parsed value
+ */
+export interface JsonRpcParseSchema<TValue = unknown> {
+    parse(value: unknown): TValue;
+}
+
+/**
+ * Any schema accepted wherever a validator is expected:
+ * a native {@link JsonRpcValidator}, or a Zod/Valibot-style object with `safeParse` or `parse`.
+ *
+ * @template TValue The type of the validated value
+ */
+export type JsonRpcSchema<TValue = unknown> =
+    | JsonRpcValidator<TValue>
+    | JsonRpcSafeParseSchema<TValue>
+    | JsonRpcParseSchema<TValue>;
+
+/**
+ * Normalizes a schema-library issue path into plain keys.
+ *
+ * @param path The path reported by the schema library
+ * @returns The path as strings and numbers
+ */
+function normalizeIssuePath(path: readonly unknown[] = []): (string | number)[] {
+    return path.map((segment) => {
+        if (typeof segment === 'object' && segment !== null && 'key' in segment) {
+            segment = segment.key;
+        }
+        return typeof segment === 'number' ? segment : String(segment);
+    });
+}
+
+/**
+ * Converts schema-library issues into validation issues.
+ *
+ * @param issues The issues reported by the schema library
+ * @returns Normalized validation issues
+ */
+function normalizeIssues(issues: readonly SchemaIssue[]): JsonRpcValidationIssue[] {
+    return issues.map((issue) => ({
+        path: normalizeIssuePath(issue.path),
+        message: issue.message,
+    }));
+}
+
+/**
+ * Wraps any supported schema into a {@link JsonRpcValidator}.
+ *
+ * @template TValue The type of the validated value
+ * @param schema A native validator or a Zod/Valibot-style schema
+ * @returns A validator delegating to the schema
+ *
+ * @example
+ * ```typescript
+ * import { z } from 'zod';
+ *
+ * const validator = toJsonRpcValidator(z.object({ a: z.number(), b: z.number() }));
+ * const result = await validator.validate({ a: 1, b: 'two' });
+ * // { success: false, issues: [{ path: ['b'], message: 'Expected number, received string' }] }
+ * ```
+ */
+export function toJsonRpcValidator<TValue = unknown>(schema: JsonRpcSchema<TValue>): JsonRpcValidator<TValue> {
+    if ('validate' in schema) {
+        return schema;
+    }
+
+    if ('safeParse' in schema) {
+        return {
+            validate(value: unknown): JsonRpcValidationResult<TValue> {
+                const result = schema.safeParse(value);
+                if (result.success) {
+                    return { success: true, value: result.data };
+                }
+                const issues = 'error' in result ? result.error.issues : result.issues;
+                return { success: false, issues: normalizeIssues(issues) };
+            },
+        };
+    }
+
+    return {
+        validate(value: unknown): JsonRpcValidationResult<TValue> {
+            try {
+                return { success: true, value: schema.parse(value) };
+            } catch (error) {
+                if (
+                    typeof error === 'object' &&
+                    error !== null &&
+                    'issues' in error &&
+                    Array.isArray(error.issues)
+                ) {
+                    return { success: false, issues: normalizeIssues(error.issues as SchemaIssue[]) };
+                }
+                const message = error instanceof Error ? error.message : String(error);
+                return { success: false, issues: [{ path: [], message }] };
+            }
+        },
+    };
+}
+
+/**
+ * JSON Schema type names supported by {@link createJsonSchemaValidator}.
+ */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * The subset of JSON Schema understood by {@link createJsonSchemaValidator}.
+ * Unsupported keywords are ignored.
+ *
+ * @example
+ * ```typescript
+ * const schema: JsonSchema = {
+ *   type: 'object',
+ *   properties: {
+ *     name: { type: 'string', minLength: 1 },
+ *     age: { type: 'integer', minimum: 0 },
+ *   },
+ *   required: ['name'],
+ *   additionalProperties: false,
+ * };
+ * ```
+ */
+export interface JsonSchema {
+    /** Allowed type or types of the value */
+    type?: JsonSchemaType | JsonSchemaType[];
+    /** Allowed values, compared structurally */
+    enum?: readonly unknown[];
+    /** Single allowed value, compared structurally */
+    const?: unknown;
+    /** Schemas of the object properties */
+    properties?: Record<string, JsonSchema>;
+    /** Object properties that must be present */
+    required?: readonly string[];
+    /** Whether properties not listed in `properties` are allowed, or the schema they must match */
+    additionalProperties?: boolean | JsonSchema;
+    /** Schema of every array item */
+    items?: JsonSchema;
+    /** Minimum number of array items */
+    minItems?: number;
+    /** Maximum number of array items */
+    maxItems?: number;
+    /** Minimum string length */
+    minLength?: number;
+    /** Maximum string length */
+    maxLength?: number;
+    /** Regular expression strings must match */
+    pattern?: string;
+    /** Inclusive lower bound for numbers */
+    minimum?: number;
+    /** Inclusive upper bound for numbers */
+    maximum?: number;
+}
+
+/**
+ * Returns the JSON Schema type name of a value.
+ *
+ * @param value The value to inspect
+ * @returns The JSON type of the value
+ */
+function getJsonType(value: unknown): JsonSchemaType | undefined {
+    if (value === null) {
+        return 'null';
+    }
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+    switch (typeof value) {
+        case 'string':
+        case 'boolean':
+        case 'object':
+            return typeof value as JsonSchemaType;
+        case 'number':
+            return Number.isInteger(value) ? 'integer' : 'number';
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Checks whether two JSON values are equal, comparing arrays and objects by content.
+ *
+ * @param left The first value
+ * @param right The second value
+ * @returns True if the values are equal
+ */
+function isJsonEqual(left: unknown, right: unknown): boolean {
+    if (left === right) {
+        return true;
+    }
+    if (Array.isArray(left) || Array.isArray(right)) {
+        return (
+            Array.isArray(left) &&
+            Array.isArray(right) &&
+            left.length === right.length &&
+            left.every((item, index) => isJsonEqual(item, right[index]))
+        );
+    }
+    if (typeof left !== 'object' || typeof right !== 'object' || left === null || right === null) {
+        return false;
+    }
+
+    const leftEntries = Object.entries(left);
+    const rightRecord = right as Record<string, unknown>;
+    return (
+        leftEntries.length === Object.keys(rightRecord).length &&
+        leftEntries.every(([key, item]) => Object.hasOwn(rightRecord, key) && isJsonEqual(item, rightRecord[key]))
+    );
+}
+
+/** Compiled `pattern` of each schema, so that it is not compiled again for every value */
+const compiledPatterns = new WeakMap<JsonSchema, RegExp>();
+
+/**
+ * Returns the compiled `pattern` of a schema.
+ *
+ * @param schema The schema
+ * @param pattern The pattern of the schema
+ * @returns The regular expression of the pattern
+ */
+function getPattern(schema: JsonSchema, pattern: string): RegExp {
+    let regExp = compiledPatterns.get(schema);
+    if (!regExp) {
+        regExp = new RegExp(pattern);
+        compiledPatterns.set(schema, regExp);
+    }
+    return regExp;
+}
+
+/**
+ * Compiles the `pattern` of a schema and of its nested schemas, so that an invalid regular expression
+ * fails when the validator is created rather than when a value is first validated.
+ *
+ * @param schema The schema
+ * @param path The JSON Pointer of the schema from the root, for error messages
+ * @param visited The schemas already compiled, as schema objects may be shared
+ * @throws Error if a pattern is not a valid regular expression
+ */
+function compilePatterns(schema: JsonSchema, path: string, visited = new Set<JsonSchema>()): void {
+    if (visited.has(schema)) {
+        return;
+    }
+    visited.add(schema);
+
+    if (schema.pattern !== undefined) {
+        try {
+            getPattern(schema, schema.pattern);
+        } catch (error) {
+            throw new Error(`Invalid JSON Schema pattern at ${path}: ${schema.pattern}`, { cause: error });
+        }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+        compilePatterns(propertySchema, `${path}/properties/${key}`, visited);
+    }
+    if (typeof schema.additionalProperties === 'object') {
+        compilePatterns(schema.additionalProperties, `${path}/additionalProperties`, visited);
+    }
+    if (schema.items !== undefined) {
+        compilePatterns(schema.items, `${path}/items`, visited);
+    }
+}
+
+/**
+ * Checks a value against a JSON Schema and collects every issue found.
+ *
+ * @param schema The schema to check against
+ * @param value The value to check
+ * @param path The path of the value from the root
+ * @param issues The list receiving the issues
+ */
+function checkJsonSchema(
+    schema: JsonSchema,
+    value: unknown,
+    path: (string | number)[],
+    issues: JsonRpcValidationIssue[],
+): void {
+    const actualType = getJsonType(value);
+
+    if (schema.type !== undefined) {
+        const expectedTypes = Array.isArray(schema.type) ? schema.type : [schema.type];
+        const matches = expectedTypes.some(
+            (type) => type === actualType || (type === 'number' && actualType === 'integer'),
+        );
+        if (!matches) {
+            issues.push({ path, message: `Expected ${expectedTypes.join(' or ')}, received ${actualType ?? typeof value}` });
+            return;
+        }
+    }
+
+    if (schema.const !== undefined && !isJsonEqual(value, schema.const)) {
+        issues.push({ path, message: `Expected ${JSON.stringify(schema.const)}` });
+    }
+
+    if (schema.enum !== undefined && !schema.enum.some((item) => isJsonEqual(value, item))) {
+        issues.push({ path, message: `Expected one of ${schema.enum.map((item) => JSON.stringify(item)).join(', ')}` });
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            issues.push({ path, message: `Expected at least ${schema.minLength} characters` });
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            issues.push({ path, message: `Expected at most ${schema.maxLength} characters` });
+        }
+        if (schema.pattern !== undefined && !getPattern(schema, schema.pattern).test(value)) {
+            issues.push({ path, message: `Expected to match pattern ${schema.pattern}` });
+        }
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            issues.push({ path, message: `Expected a number greater than or equal to ${schema.minimum}` });
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            issues.push({ path, message: `Expected a number less than or equal to ${schema.maximum}` });
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            issues.push({ path, message: `Expected at least ${schema.minItems} items` });
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            issues.push({ path, message: `Expected at most ${schema.maxItems} items` });
+        }
+        if (schema.items !== undefined) {
+            const itemSchema = schema.items;
+            value.forEach((item, index) => checkJsonSchema(itemSchema, item, [...path, index], issues));
+        }
+    } else if (actualType === 'object') {
+        const object = value as Record<string, unknown>;
+        const properties = schema.properties ?? {};
+
+        for (const key of schema.required ?? []) {
+            if (!Object.prototype.hasOwnProperty.call(object, key)) {
+                issues.push({ path: [...path, key], message: 'Required' });
+            }
+        }
+
+        for (const [key, propertyValue] of Object.entries(object)) {
+            const propertySchema = Object.prototype.hasOwnProperty.call(properties, key) ? properties[key] : undefined;
+            if (propertySchema !== undefined) {
+                checkJsonSchema(propertySchema, propertyValue, [...path, key], issues);
+            } else if (schema.additionalProperties === false) {
+                issues.push({ path: [...path, key], message: 'Unexpected property' });
+            } else if (typeof schema.additionalProperties === 'object') {
+                checkJsonSchema(schema.additionalProperties, propertyValue, [...path, key], issues);
+            }
+        }
+    }
+}
+
+/**
+ * Creates a validator from a small subset of JSON Schema
+ * (`type`, `enum`, `const`, `properties`, `required`, `additionalProperties`, `items`,
+ * `minItems`, `maxItems`, `minLength`, `maxLength`, `pattern`, `minimum`, `maximum`).
+ *
+ * @template TValue The type described by the schema
+ * @param schema The JSON Schema to validate against
+ * @returns A validator reporting every failing path
+ * @throws Error if a `pattern` of the schema is not a valid regular expression
+ *
+ * @example
+ * ```typescript
+ * const validator = createJsonSchemaValidator<{ a: number; b: number }>({
+ *   type: 'object',
+ *   properties: { a: { type: 'number' }, b: { type: 'number' } },
+ *   required: ['a', 'b'],
+ * });
+ *
+ * validator.validate({ a: 1 });
+ * // { success: false, issues: [{ path: ['b'], message: 'Required' }] }
+ * ```
+ */
+export function createJsonSchemaValidator<TValue = unknown>(schema: JsonSchema): JsonRpcValidator<TValue> {
+    compilePatterns(schema, '#');
+
+    return {
+        validate(value: unknown): JsonRpcValidationResult<TValue> {
+            const issues: JsonRpcValidationIssue[] = [];
+            checkJsonSchema(schema, value, [], issues);
+            return issues.length === 0 ? { success: true, value: value as TValue } : { success: false, issues };
+        },
+    };
+}
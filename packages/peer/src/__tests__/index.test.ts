@@ -0,0 +1,325 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createJsonRpcPeer } from '../index.js';
+import { JsonRpcConnectionClosedError } from '@ts-json-rpc/client';
+import {
+    createInMemoryChannelPair,
+    createMessagePortChannel,
+    createJsonRpcRequest,
+    createJsonRpcSuccessResponse,
+    defineErrors,
+    errorData,
+    JSONRPCMessage,
+    JsonRpcMessageChannel,
+    JsonRpcTracer,
+} from '@ts-json-rpc/core';
+
+/**
+ * Creates two channels connected to each other, delivering messages asynchronously.
+ */
+function createLinkedChannels(): [JsonRpcMessageChannel, JsonRpcMessageChannel] {
+    function createEnd() {
+        const messageListeners = new Set<(message: unknown) => void>();
+        const closeListeners = new Set<() => void>();
+        const end = {
+            other: undefined as unknown as ReturnType<typeof createEnd>,
+            messageListeners,
+            closeListeners,
+            channel: {
+                send: vi.fn((message: JSONRPCMessage) => {
+                    queueMicrotask(() => end.other.messageListeners.forEach((listener) => listener(message)));
+                }),
+                onMessage: (listener: (message: unknown) => void) => {
+                    messageListeners.add(listener);
+                    return () => messageListeners.delete(listener);
+                },
+                onClose: (listener: () => void) => {
+                    closeListeners.add(listener);
+                    return () => closeListeners.delete(listener);
+                },
+                close: vi.fn(() => {
+                    end.other.closeListeners.forEach((listener) => listener());
+                }),
+            },
+        };
+        return end;
+    }
+
+    const left = createEnd();
+    const right = createEnd();
+    left.other = right;
+    right.other = left;
+    return [left.channel, right.channel];
+}
+
+describe('createJsonRpcPeer', () => {
+    let mockLogger: { info: ReturnType<typeof vi.fn>; warn: ReturnType<typeof vi.fn>; error: ReturnType<typeof vi.fn> };
+
+    beforeEach(() => {
+        mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    });
+
+    it('should let both sides call each other', async () => {
+        const [editorChannel, languageServerChannel] = createLinkedChannels();
+
+        type EditorContract = { showMessage: { params: { text: string }; result: boolean } };
+        type LanguageServerContract = { hover: { params: { line: number }; result: string } };
+
+        const editor = createJsonRpcPeer<LanguageServerContract, unknown, EditorContract>(editorChannel, {
+            showMessage: (params) => params.text.length > 0,
+        });
+        const languageServer = createJsonRpcPeer<EditorContract, unknown, LanguageServerContract>(languageServerChannel, {
+            hover: async (params) => {
+                const shown = await languageServer.methods.showMessage({ text: `hovering line ${params.line}` });
+                return shown ? `line ${params.line}` : 'nothing';
+            },
+        });
+
+        await expect(editor.methods.hover({ line: 3 })).resolves.toBe('line 3');
+    });
+
+    it('should pass the connection context to local handlers', async () => {
+        const [left, right] = createLinkedChannels();
+        const context = { connectionId: 'worker-1' };
+        const whoAmI = vi.fn((_params: unknown, ctx: typeof context) => ctx.connectionId);
+
+        createJsonRpcPeer(left, { whoAmI }, { context });
+        const remote = createJsonRpcPeer(right, {});
+
+        await expect(remote.call('whoAmI')).resolves.toBe('worker-1');
+    });
+
+    it('should dispatch notifications without answering them', async () => {
+        const [left, right] = createLinkedChannels();
+        const log = vi.fn();
+
+        createJsonRpcPeer(left, { log });
+        const remote = createJsonRpcPeer(right, {});
+
+        remote.notify('log', { message: 'hello' });
+        await vi.waitFor(() => expect(log).toHaveBeenCalledWith({ message: 'hello' }, undefined, expect.anything()));
+        await Promise.resolve();
+
+        expect(left.send).not.toHaveBeenCalled();
+    });
+
+    it('should correlate responses arriving out of order and batches', async () => {
+        const [left, right] = createLinkedChannels();
+        const releases: (() => void)[] = [];
+
+        createJsonRpcPeer(left, {
+            wait: (params: { value: number }) => new Promise<number>((resolve) => releases.push(() => resolve(params.value))),
+            double: (params: { value: number }) => params.value * 2,
+        });
+        const remote = createJsonRpcPeer(right, {});
+
+        const first = remote.call('wait', { value: 1 });
+        const second = remote.call('wait', { value: 2 });
+        let doubled!: Promise<unknown>;
+        const batch = remote.client.batch((builder) => {
+            doubled = builder.call('double', { value: 21 });
+        });
+
+        await vi.waitFor(() => expect(releases).toHaveLength(2));
+        releases[1]();
+        await expect(second).resolves.toBe(2);
+        releases[0]();
+        await expect(first).resolves.toBe(1);
+        await batch;
+        await expect(doubled).resolves.toBe(42);
+    });
+
+    it('should answer errors for unknown methods and invalid messages', async () => {
+        const [left, right] = createLinkedChannels();
+
+        createJsonRpcPeer(left, {}, { server: { logger: mockLogger } });
+        const remote = createJsonRpcPeer(right, {});
+
+        await expect(remote.call('missing')).rejects.toMatchObject({ code: -32601 });
+
+        right.send({ jsonrpc: '2.0' } as unknown as JSONRPCMessage);
+        await vi.waitFor(() =>
+            expect(left.send).toHaveBeenLastCalledWith(expect.objectContaining({ error: expect.objectContaining({ code: -32600 }) })),
+        );
+    });
+
+    it('should ignore responses that do not match a pending call', async () => {
+        const [left, right] = createLinkedChannels();
+        createJsonRpcPeer(left, {});
+
+        right.send(createJsonRpcSuccessResponse(99, 'unexpected'));
+        await Promise.resolve();
+        await Promise.resolve();
+
+        expect(left.send).not.toHaveBeenCalled();
+    });
+
+    it('should reject pending calls and stop handling messages once closed', async () => {
+        const [left, right] = createLinkedChannels();
+        const ping = vi.fn(() => 'pong');
+
+        const peer = createJsonRpcPeer(left, { ping });
+        createJsonRpcPeer(right, { slow: () => new Promise(() => {}) });
+
+        const pending = peer.call('slow');
+        peer.close();
+
+        await expect(pending).rejects.toBeInstanceOf(JsonRpcConnectionClosedError);
+        await expect(peer.call('slow')).rejects.toBeInstanceOf(JsonRpcConnectionClosedError);
+        expect(left.close).toHaveBeenCalledTimes(1);
+
+        right.send(createJsonRpcRequest('ping', 1));
+        await Promise.resolve();
+        await Promise.resolve();
+        expect(ping).not.toHaveBeenCalled();
+    });
+
+    it('should reject pending calls when the other side closes the channel', async () => {
+        const [left, right] = createLinkedChannels();
+
+        const peer = createJsonRpcPeer(left, {});
+        createJsonRpcPeer(right, { slow: () => new Promise(() => {}) });
+
+        const pending = peer.call('slow');
+        right.close();
+
+        await expect(pending).rejects.toBeInstanceOf(JsonRpcConnectionClosedError);
+        expect(left.close).not.toHaveBeenCalled();
+    });
+
+    it('should log responses that cannot be sent', async () => {
+        const [left, right] = createLinkedChannels();
+        createJsonRpcPeer(left, { ping: () => 'pong' }, { server: { logger: mockLogger } });
+        vi.mocked(left.send).mockImplementation(() => {
+            throw new Error('Socket closed');
+        });
+
+        right.send(createJsonRpcRequest('ping', 1));
+
+        await vi.waitFor(() =>
+            expect(mockLogger.error).toHaveBeenCalledWith('JSON-RPC failed to send response', { error: expect.any(Error) }),
+        );
+    });
+
+    it('should exchange structured-clone values with a worker over a MessageChannel', async () => {
+        const { port1, port2 } = new MessageChannel();
+        type WorkerContract = { nextDay: { params: { date: Date }; result: Date } };
+
+        const worker = createJsonRpcPeer<Record<string, never>, unknown, WorkerContract>(createMessagePortChannel(port2), {
+            nextDay: ({ date }) => new Date(date.getTime() + 24 * 60 * 60 * 1000),
+        });
+        const main = createJsonRpcPeer<WorkerContract>(createMessagePortChannel(port1), {});
+
+        const result = await main.methods.nextDay({ date: new Date(0) });
+
+        expect(result).toBeInstanceOf(Date);
+        expect(result.getTime()).toBe(24 * 60 * 60 * 1000);
+        main.close();
+        worker.close();
+    });
+
+    it('should let each side subscribe to events of the other', async () => {
+        const [left, right] = createInMemoryChannelPair();
+        let ticker!: (value: number) => void;
+
+        createJsonRpcPeer(left, {
+            subscribeTicks: (_params, _context, { subscribe }) => {
+                const subscription = subscribe<number>();
+                ticker = (value) => subscription.emit(value);
+                return subscription.id;
+            },
+        });
+        const subscriber = createJsonRpcPeer(right, {});
+
+        const ticks: number[] = [];
+        const subscription = await subscriber.subscribe<number>('subscribeTicks', undefined, (tick) => ticks.push(tick));
+        ticker(1);
+        ticker(2);
+        await vi.waitFor(() => expect(ticks).toEqual([1, 2]));
+
+        await subscription.unsubscribe();
+        ticker(3);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        expect(ticks).toEqual([1, 2]);
+    });
+
+    it('should stream results with backpressure', async () => {
+        const [left, right] = createInMemoryChannelPair();
+        const produced: number[] = [];
+
+        createJsonRpcPeer(
+            left,
+            {
+                count: async function* (params: { to: number }) {
+                    for (let value = 1; value <= params.to; value++) {
+                        produced.push(value);
+                        yield value;
+                    }
+                },
+            },
+            { server: { streamWindow: 2 } },
+        );
+        const consumer = createJsonRpcPeer(right, {});
+
+        const iterator = consumer.stream<number>('count', { to: 10 })[Symbol.asyncIterator]();
+        await expect(iterator.next()).resolves.toEqual({ value: 1, done: false });
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(produced.length).toBeLessThanOrEqual(4);
+
+        const values = [1];
+        for (let result = await iterator.next(); !result.done; result = await iterator.next()) {
+            values.push(result.value);
+        }
+        expect(values).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    });
+
+    it('should reject calls with the errors of a shared catalog', async () => {
+        const errors = defineErrors({
+            NOT_AUTHORIZED: { code: -32001, message: 'Not authorized', data: errorData<{ role: string }>() },
+        });
+        const [left, right] = createInMemoryChannelPair();
+        createJsonRpcPeer(left, {
+            deleteUser: () => {
+                throw errors.create('NOT_AUTHORIZED', { role: 'admin' });
+            },
+        });
+        const caller = createJsonRpcPeer(right, {});
+
+        const error = await caller.call('deleteUser', { id: 1 }).catch((reason: unknown) => reason);
+
+        expect(errors.isError(error, 'NOT_AUTHORIZED')).toBe(true);
+        expect(error).toMatchObject({ code: -32001, message: 'Not authorized', data: { role: 'admin' } });
+    });
+
+    it('should continue the trace of calls on the other side', async () => {
+        const spans: { name: string; kind: string; traceId: string; spanId: string; parentSpanId?: string }[] = [];
+        const tracer: JsonRpcTracer = {
+            startSpan(name, { kind, parent }) {
+                const traceId = parent?.traceId ?? '4bf92f3577b34da6a3ce929d0e0e4736';
+                const spanId = (spans.length + 1).toString(16).padStart(16, '0');
+                spans.push({ name, kind, traceId, spanId, parentSpanId: parent?.spanId });
+                return {
+                    spanContext: () => ({ traceId, spanId, traceFlags: 1 }),
+                    setAttribute: vi.fn(),
+                    setStatus: vi.fn(),
+                    end: vi.fn(),
+                };
+            },
+        };
+        const [left, right] = createInMemoryChannelPair();
+        createJsonRpcPeer(left, { add: (params: { a: number; b: number }) => params.a + params.b }, { server: { tracer } });
+        const caller = createJsonRpcPeer(right, {}, { client: { tracer } });
+
+        await expect(caller.call('add', { a: 1, b: 2 })).resolves.toBe(3);
+
+        expect(spans).toEqual([
+            { name: 'add', kind: 'client', traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '0000000000000001' },
+            {
+                name: 'add',
+                kind: 'server',
+                traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+                spanId: '0000000000000002',
+                parentSpanId: '0000000000000001',
+            },
+        ]);
+    });
+});
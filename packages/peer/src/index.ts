@@ -0,0 +1,168 @@
+import { JsonRpcContract, JsonRpcMessageChannel } from '@ts-json-rpc/core';
+import {
+    createJsonRpcClient,
+    JsonRpcClient,
+    JsonRpcClientMethods,
+    JsonRpcClientOptions,
+} from '@ts-json-rpc/client';
+import {
+    createJsonRpcServer,
+    JsonRpcMethodMap,
+    JsonRpcServerInstance,
+    JsonRpcServerOptions,
+} from '@ts-json-rpc/server';
+
+/**
+ * Configuration options for a JSON-RPC peer.
+ *
+ * @template TContext The type of the context object passed to local method handlers
+ *
+ * @example
+ * ```typescript
+ * const options: JsonRpcPeerOptions<{ connectionId: string }> = {
+ *   context: { connectionId: 'worker-1' },
+ *   client: { timeout: 5000 },
+ *   server: { logger: console },
+ * };
+ * ```
+ */
+export interface JsonRpcPeerOptions<TContext = unknown> {
+    /**
+     * Context passed to local method handlers for every incoming request and notification,
+     * the same object for the whole connection.
+     */
+    context?: TContext;
+    /**
+     * Options of the client calling the methods of the other side.
+     */
+    client?: JsonRpcClientOptions;
+    /**
+     * Options of the server answering the calls of the other side.
+     */
+    server?: JsonRpcServerOptions<TContext>;
+}
+
+/**
+ * Bidirectional JSON-RPC endpoint: calls the methods of the other side of a channel
+ * while answering its calls with local method handlers.
+ *
+ * @template TRemote The contract of the methods exposed by the other side
+ * @template TContext The type of the context object passed to local method handlers
+ *
+ * @example
+ * ```typescript
+ * const peer = createJsonRpcPeer<LanguageServerContract, unknown, EditorContract>(channel, {
+ *   showMessage: (params) => editor.showMessage(params.text),
+ * });
+ *
+ * const hover = await peer.methods.hover({ line: 1, character: 4 });
+ * peer.notify('didOpen', { uri });
+ * ```
+ */
+export interface JsonRpcPeer<TRemote extends JsonRpcContract = JsonRpcContract, TContext = unknown> {
+    /**
+     * Typed proxy for the methods exposed by the other side.
+     */
+    readonly methods: JsonRpcClientMethods<TRemote>;
+
+    /**
+     * Calls a method of the other side and waits for its response.
+     * Same as `peer.client.call`.
+     */
+    readonly call: JsonRpcClient<TRemote>['call'];
+
+    /**
+     * Sends a notification to the other side.
+     * Same as `peer.client.notify`.
+     */
+    readonly notify: JsonRpcClient<TRemote>['notify'];
+
+    /**
+     * Subscribes to events of the other side.
+     * Same as `peer.client.subscribe`.
+     */
+    readonly subscribe: JsonRpcClient<TRemote>['subscribe'];
+
+    /**
+     * Iterates over the streamed result of a method of the other side.
+     * Same as `peer.client.stream`.
+     */
+    readonly stream: JsonRpcClient<TRemote>['stream'];
+
+    /**
+     * Client sending calls, notifications and batches to the other side
+     * (e.g. to register interceptors with `peer.client.use`).
+     */
+    readonly client: JsonRpcClient<TRemote>;
+
+    /**
+     * Server answering the calls of the other side
+     * (e.g. to register middlewares with `peer.server.use`).
+     */
+    readonly server: JsonRpcServerInstance<TContext>;
+
+    /**
+     * Closes the channel. Calls still waiting for a response are rejected
+     * with a `JsonRpcConnectionClosedError` and incoming messages are no longer handled.
+     */
+    close(): void;
+}
+
+/**
+ * Creates a bidirectional JSON-RPC 2.0 peer on a duplex message channel.
+ * Incoming requests and notifications are dispatched to the local method handlers (see `server.connect`),
+ * while incoming responses settle the calls made to the other side, so both ends can call each other
+ * (as the Language Server Protocol and many agent protocols require).
+ *
+ * @template TRemote The contract of the methods exposed by the other side
+ * @template TContext The type of the context object passed to local method handlers
+ * @template TLocal The contract the local method handlers implement (inferred from `methods`)
+ * @param channel The duplex channel connecting both sides
+ * @param methods Map of local method names to their handler functions
+ * @param options Optional configuration for the peer
+ * @returns A JSON-RPC peer instance
+ *
+ * @example
+ * ```typescript
+ * const peer = createJsonRpcPeer<ServerContract, unknown, ClientContract>(channel, {
+ *   ping: () => 'pong',
+ * });
+ *
+ * const sum = await peer.methods.add({ a: 1, b: 2 });
+ *
+ * // Later, when the connection is no longer needed
+ * peer.close();
+ * ```
+ */
+export function createJsonRpcPeer<
+    TRemote extends JsonRpcContract = JsonRpcContract,
+    TContext = unknown,
+    TLocal extends JsonRpcContract = JsonRpcContract,
+>(
+    channel: JsonRpcMessageChannel,
+    methods: JsonRpcMethodMap<TContext, TLocal>,
+    options: JsonRpcPeerOptions<TContext> = {},
+): JsonRpcPeer<TRemote, TContext> {
+    const server = createJsonRpcServer<TContext, TLocal>(methods, options.server);
+    const client = createJsonRpcClient<TRemote>(channel, options.client);
+    const disconnect = server.connect(channel, options.context);
+
+    /**
+     * Implementation of the close method, closing the channel through the client.
+     */
+    function close(): void {
+        disconnect();
+        client.close();
+    }
+
+    return {
+        methods: client.methods,
+        call: client.call,
+        notify: client.notify,
+        subscribe: client.subscribe.bind(client),
+        stream: client.stream.bind(client),
+        client,
+        server,
+        close,
+    };
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { createJsonRpcServer, JsonRpcMethodMap } from '../index.js';
+
+/**
+ * Examples of the JSON-RPC 2.0 specification (https://www.jsonrpc.org/specification#examples),
+ * sent as raw JSON and compared with the responses the specification expects.
+ */
+describe('JSON-RPC 2.0 specification examples', () => {
+    const methods: JsonRpcMethodMap = {
+        subtract: (params: [number, number] | { minuend: number; subtrahend: number }) =>
+            Array.isArray(params) ? params[0] - params[1] : params.minuend - params.subtrahend,
+        sum: (params: number[]) => params.reduce((total, value) => total + value, 0),
+        update: () => undefined,
+        notify_hello: () => undefined,
+        notify_sum: () => undefined,
+        get_data: () => ['hello', 5],
+    };
+    const logger = { info: () => {}, warn: () => {}, error: () => {} };
+    const server = createJsonRpcServer(methods, { logger });
+
+    /**
+     * Sends a raw JSON payload to the server.
+     */
+    function send(payload: string): Promise<unknown> {
+        return server.handleJsonRpcRequest(payload);
+    }
+
+    it('should answer a call with positional parameters', async () => {
+        await expect(send('{"jsonrpc": "2.0", "method": "subtract", "params": [42, 23], "id": 1}')).resolves.toEqual({
+            jsonrpc: '2.0',
+            result: 19,
+            id: 1,
+        });
+        await expect(send('{"jsonrpc": "2.0", "method": "subtract", "params": [23, 42], "id": 2}')).resolves.toEqual({
+            jsonrpc: '2.0',
+            result: -19,
+            id: 2,
+        });
+    });
+
+    it('should answer a call with named parameters', async () => {
+        await expect(
+            send('{"jsonrpc": "2.0", "method": "subtract", "params": {"subtrahend": 23, "minuend": 42}, "id": 3}'),
+        ).resolves.toEqual({ jsonrpc: '2.0', result: 19, id: 3 });
+        await expect(
+            send('{"jsonrpc": "2.0", "method": "subtract", "params": {"minuend": 42, "subtrahend": 23}, "id": 4}'),
+        ).resolves.toEqual({ jsonrpc: '2.0', result: 19, id: 4 });
+    });
+
+    it('should not answer notifications', async () => {
+        await expect(send('{"jsonrpc": "2.0", "method": "update", "params": [1,2,3,4,5]}')).resolves.toBeNull();
+        await expect(send('{"jsonrpc": "2.0", "method": "foobar"}')).resolves.toBeNull();
+    });
+
+    it('should answer a call of a non-existent method', async () => {
+        await expect(send('{"jsonrpc": "2.0", "method": "foobar", "id": "1"}')).resolves.toEqual({
+            jsonrpc: '2.0',
+            error: { code: -32601, message: 'Method not found' },
+            id: '1',
+        });
+    });
+
+    it('should answer a call with invalid JSON', async () => {
+        await expect(send('{"jsonrpc": "2.0", "method": "foobar, "params": "bar", "baz]')).resolves.toEqual({
+            jsonrpc: '2.0',
+            error: { code: -32700, message: 'Parse error' },
+            id: null,
+        });
+    });
+
+    it('should answer a call with an invalid Request object', async () => {
+        await expect(send('{"jsonrpc": "2.0", "method": 1, "params": "bar"}')).resolves.toEqual({
+            jsonrpc: '2.0',
+            error: { code: -32600, message: 'Invalid Request' },
+            id: null,
+        });
+    });
+
+    it('should answer a batch with invalid JSON', async () => {
+        await expect(
+            send(`[
+                {"jsonrpc": "2.0", "method": "sum", "params": [1,2,4], "id": "1"},
+                {"jsonrpc": "2.0", "method"
+            ]`),
+        ).resolves.toEqual({
+            jsonrpc: '2.0',
+            error: { code: -32700, message: 'Parse error' },
+            id: null,
+        });
+    });
+
+    it('should answer an empty batch', async () => {
+        await expect(send('[]')).resolves.toEqual({
+            jsonrpc: '2.0',
+            error: { code: -32600, message: 'Invalid Request' },
+            id: null,
+        });
+    });
+
+    it('should answer an invalid batch that is not empty', async () => {
+        await expect(send('[1]')).resolves.toEqual([
+            { jsonrpc: '2.0', error: { code: -32600, message: 'Invalid Request' }, id: null },
+        ]);
+    });
+
+    it('should answer each item of an invalid batch', async () => {
+        await expect(send('[1,2,3]')).resolves.toEqual([
+            { jsonrpc: '2.0', error: { code: -32600, message: 'Invalid Request' }, id: null },
+            { jsonrpc: '2.0', error: { code: -32600, message: 'Invalid Request' }, id: null },
+            { jsonrpc: '2.0', error: { code: -32600, message: 'Invalid Request' }, id: null },
+        ]);
+    });
+
+    it('should answer each call of a batch mixing valid and invalid items', async () => {
+        await expect(
+            send(`[
+                {"jsonrpc": "2.0", "method": "sum", "params": [1,2,4], "id": "1"},
+                {"jsonrpc": "2.0", "method": "notify_hello", "params": [7]},
+                {"jsonrpc": "2.0", "method": "subtract", "params": [42,23], "id": "2"},
+                {"foo": "boo"},
+                {"jsonrpc": "2.0", "method": "foo.get", "params": {"name": "myself"}, "id": "5"},
+                {"jsonrpc": "2.0", "method": "get_data", "id": "9"}
+            ]`),
+        ).resolves.toEqual([
+            { jsonrpc: '2.0', result: 7, id: '1' },
+            { jsonrpc: '2.0', result: 19, id: '2' },
+            { jsonrpc: '2.0', error: { code: -32600, message: 'Invalid Request' }, id: null },
+            { jsonrpc: '2.0', error: { code: -32601, message: 'Method not found' }, id: '5' },
+            { jsonrpc: '2.0', result: ['hello', 5], id: '9' },
+        ]);
+    });
+
+    it('should not answer a batch of notifications', async () => {
+        await expect(
+            send(`[
+                {"jsonrpc": "2.0", "method": "notify_sum", "params": [1,2,4]},
+                {"jsonrpc": "2.0", "method": "notify_hello", "params": [7]}
+            ]`),
+        ).resolves.toBeNull();
+    });
+
+    it('should answer an invalid item with its ID when it can be recovered', async () => {
+        await expect(
+            send('[{"jsonrpc": "1.0", "method": "sum", "params": [1], "id": 7}, {"jsonrpc": "2.0", "method": "sum", "params": [1], "id": 8}]'),
+        ).resolves.toEqual([
+            { jsonrpc: '2.0', error: { code: -32600, message: 'Invalid Request' }, id: 7 },
+            { jsonrpc: '2.0', result: 1, id: 8 },
+        ]);
+    });
+});
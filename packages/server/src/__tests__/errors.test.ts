@@ -0,0 +1,192 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createJsonRpcServer, JsonRpcMethodMap } from '../index.js';
+import { createJsonRpcError, createJsonRpcRequest, JsonRpcException, JSONRPC_ERROR_CODES } from '@ts-json-rpc/core';
+
+describe('error mapping', () => {
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+    class DatabaseError extends Error {
+        constructor(
+            message: string,
+            readonly connectionString: string,
+            options?: { cause?: unknown },
+        ) {
+            super(message, options);
+            this.name = 'DatabaseError';
+        }
+    }
+
+    class Session {
+        constructor(
+            readonly user: string,
+            readonly token: string,
+        ) {}
+    }
+
+    const methods: JsonRpcMethodMap = {
+        login: () => {
+            throw new JsonRpcException(-32001, 'Invalid credentials', {
+                user: 'alice',
+                password: 'hunter2',
+                attempts: [{ token: 'abc' }],
+            });
+        },
+        query: () => {
+            throw new DatabaseError('Query failed', 'postgres://admin:secret@db', {
+                cause: new Error('Connection reset'),
+            });
+        },
+        fail: () => {
+            throw 'failure';
+        },
+        list: () => {
+            throw createJsonRpcError(-32002, 'List failed', ['a', 'b']);
+        },
+        connect: () => {
+            throw new JsonRpcException(-32003, 'Connection refused', {
+                connection: new DatabaseError('Unreachable', 'postgres://db'),
+                session: new Session('alice', 'abc'),
+                expiredAt: new Date(0),
+            });
+        },
+    };
+
+    it('should only send the code, message and data of errors, and a bare internal error otherwise', async () => {
+        const server = createJsonRpcServer(methods, { logger });
+
+        const result = await server.handleJsonRpcRequest([createJsonRpcRequest('login', 1), createJsonRpcRequest('query', 2)]);
+
+        expect(result).toStrictEqual([
+            {
+                jsonrpc: '2.0',
+                id: 1,
+                error: {
+                    code: -32001,
+                    message: 'Invalid credentials',
+                    data: { user: 'alice', password: 'hunter2', attempts: [{ token: 'abc' }] },
+                },
+            },
+            { jsonrpc: '2.0', id: 2, error: { code: JSONRPC_ERROR_CODES.INTERNAL_ERROR, message: 'Internal error' } },
+        ]);
+    });
+
+    it('should redact the configured keys from error data at any depth', async () => {
+        const server = createJsonRpcServer(methods, { logger, redactKeys: ['password', 'token'] });
+
+        const result = await server.handleJsonRpcRequest(createJsonRpcRequest('login', 1));
+
+        expect(result).toEqual({
+            jsonrpc: '2.0',
+            id: 1,
+            error: {
+                code: -32001,
+                message: 'Invalid credentials',
+                data: { user: 'alice', password: '[REDACTED]', attempts: [{ token: '[REDACTED]' }] },
+            },
+        });
+    });
+
+    it('should redact the configured keys from class instances and errors in error data', async () => {
+        const server = createJsonRpcServer(methods, { logger, redactKeys: ['token', 'connectionString'] });
+
+        const result = await server.handleJsonRpcRequest(createJsonRpcRequest('connect', 1));
+
+        expect(result).toStrictEqual({
+            jsonrpc: '2.0',
+            id: 1,
+            error: {
+                code: -32003,
+                message: 'Connection refused',
+                data: {
+                    connection: { name: 'DatabaseError', connectionString: '[REDACTED]' },
+                    session: { user: 'alice', token: '[REDACTED]' },
+                    expiredAt: '1970-01-01T00:00:00.000Z',
+                },
+            },
+        });
+    });
+
+    it('should map errors with the error mapper', async () => {
+        const errorMapper = vi.fn((error: unknown) =>
+            error instanceof DatabaseError ? createJsonRpcError(-32010, 'Database unavailable') : undefined,
+        );
+        const server = createJsonRpcServer(methods, { logger, errorMapper });
+
+        const result = await server.handleJsonRpcRequest([createJsonRpcRequest('query', 1), createJsonRpcRequest('login', 2)]);
+
+        expect(errorMapper).toHaveBeenCalledWith(expect.any(DatabaseError), { method: 'query', id: 1 });
+        expect(result).toMatchObject([
+            { id: 1, error: { code: -32010, message: 'Database unavailable' } },
+            { id: 2, error: { code: -32001, message: 'Invalid credentials' } },
+        ]);
+    });
+
+    it('should fall back to the default mapping when the error mapper throws', async () => {
+        const mapperError = new Error('Mapper bug');
+        const server = createJsonRpcServer(methods, {
+            logger,
+            errorMapper: () => {
+                throw mapperError;
+            },
+        });
+
+        const result = await server.handleJsonRpcRequest(createJsonRpcRequest('query', 1));
+
+        expect(result).toEqual({
+            jsonrpc: '2.0',
+            id: 1,
+            error: { code: JSONRPC_ERROR_CODES.INTERNAL_ERROR, message: 'Internal error' },
+        });
+        expect(logger.error).toHaveBeenCalledWith('JSON-RPC error mapper failed', { method: 'query', id: 1, error: mapperError });
+    });
+
+    it('should send the stack trace and cause chain in development mode', async () => {
+        const server = createJsonRpcServer(methods, { logger, mode: 'development', redactKeys: ['password'] });
+
+        const result = await server.handleJsonRpcRequest([
+            createJsonRpcRequest('query', 1),
+            createJsonRpcRequest('login', 2),
+            createJsonRpcRequest('fail', 3),
+            createJsonRpcRequest('list', 4),
+        ]);
+
+        expect(result).toEqual([
+            {
+                jsonrpc: '2.0',
+                id: 1,
+                error: {
+                    code: JSONRPC_ERROR_CODES.INTERNAL_ERROR,
+                    message: 'Internal error',
+                    data: {
+                        debug: {
+                            name: 'DatabaseError',
+                            message: 'Query failed',
+                            stack: expect.stringContaining('DatabaseError: Query failed'),
+                            cause: { name: 'Error', message: 'Connection reset', stack: expect.any(String) },
+                        },
+                    },
+                },
+            },
+            {
+                jsonrpc: '2.0',
+                id: 2,
+                error: {
+                    code: -32001,
+                    message: 'Invalid credentials',
+                    data: {
+                        user: 'alice',
+                        password: '[REDACTED]',
+                        attempts: [{ token: 'abc' }],
+                        debug: { name: 'JsonRpcException', message: 'Invalid credentials', stack: expect.any(String) },
+                    },
+                },
+            },
+            {
+                jsonrpc: '2.0',
+                id: 3,
+                error: { code: JSONRPC_ERROR_CODES.INTERNAL_ERROR, message: 'Internal error', data: { debug: { message: 'failure' } } },
+            },
+            { jsonrpc: '2.0', id: 4, error: { code: -32002, message: 'List failed', data: ['a', 'b'] } },
+        ]);
+    });
+});
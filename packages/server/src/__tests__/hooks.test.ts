@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createJsonRpcServer, JsonRpcMethodMap, JsonRpcServerHooks } from '../index.js';
+import {
+    createJsonRpcCancelNotification,
+    createJsonRpcNotification,
+    createJsonRpcRequest,
+    JSONRPC_ERROR_CODES,
+} from '@ts-json-rpc/core';
+
+describe('hooks', () => {
+    const failure = new Error('Disk full');
+    const methods: JsonRpcMethodMap = {
+        add: (params: { a: number; b: number }) => params.a + params.b,
+        save: () => {
+            throw failure;
+        },
+    };
+    const context = { userId: 'alice' };
+
+    /**
+     * Creates hooks recording their events.
+     */
+    function createHooks() {
+        return {
+            onRequest: vi.fn(),
+            onNotification: vi.fn(),
+            onResponse: vi.fn(),
+            onError: vi.fn(),
+            onBatch: vi.fn(),
+        } satisfies JsonRpcServerHooks<typeof context>;
+    }
+
+    it('should report requests and their responses', async () => {
+        const hooks = createHooks();
+        const server = createJsonRpcServer(methods, { hooks });
+
+        await server.handleJsonRpcRequest(createJsonRpcRequest('add', 1, { a: 1, b: 2 }), context);
+
+        expect(hooks.onRequest).toHaveBeenCalledWith({ method: 'add', id: 1, params: { a: 1, b: 2 }, context });
+        expect(hooks.onResponse).toHaveBeenCalledWith({
+            method: 'add',
+            id: 1,
+            params: { a: 1, b: 2 },
+            context,
+            duration: expect.any(Number),
+            outcome: 'success',
+            response: { jsonrpc: '2.0', id: 1, result: 3 },
+        });
+        expect(hooks.onResponse.mock.calls[0][0].duration).toBeGreaterThanOrEqual(0);
+        expect(hooks.onError).not.toHaveBeenCalled();
+        expect(hooks.onBatch).not.toHaveBeenCalled();
+    });
+
+    it('should report thrown errors before they are mapped', async () => {
+        const hooks = createHooks();
+        const server = createJsonRpcServer(methods, { hooks, logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } });
+
+        await server.handleJsonRpcRequest(createJsonRpcRequest('save', 1), context);
+
+        expect(hooks.onError).toHaveBeenCalledWith({
+            method: 'save',
+            id: 1,
+            params: undefined,
+            context,
+            duration: expect.any(Number),
+            error: failure,
+        });
+        expect(hooks.onResponse).toHaveBeenCalledWith(
+            expect.objectContaining({
+                outcome: 'error',
+                response: {
+                    jsonrpc: '2.0',
+                    id: 1,
+                    error: { code: JSONRPC_ERROR_CODES.INTERNAL_ERROR, message: 'Internal error' },
+                },
+            }),
+        );
+    });
+
+    it('should report notifications and the errors of their handlers', async () => {
+        const hooks = createHooks();
+        const server = createJsonRpcServer(methods, { hooks, logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } });
+
+        await server.handleJsonRpcRequest(createJsonRpcNotification('save', { path: 'a.txt' }), context);
+
+        expect(hooks.onNotification).toHaveBeenCalledWith({ method: 'save', params: { path: 'a.txt' }, context });
+        expect(hooks.onError).toHaveBeenCalledWith(expect.objectContaining({ method: 'save', id: null, error: failure }));
+        expect(hooks.onRequest).not.toHaveBeenCalled();
+        expect(hooks.onResponse).not.toHaveBeenCalled();
+    });
+
+    it('should report calls of unknown methods as error responses', async () => {
+        const hooks = createHooks();
+        const server = createJsonRpcServer(methods, { hooks, logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } });
+
+        await server.handleJsonRpcRequest(createJsonRpcRequest('unknown', 1));
+
+        expect(hooks.onRequest).toHaveBeenCalledWith(expect.objectContaining({ method: 'unknown', id: 1 }));
+        expect(hooks.onResponse).toHaveBeenCalledWith(
+            expect.objectContaining({ method: 'unknown', outcome: 'error' }),
+        );
+        expect(hooks.onError).not.toHaveBeenCalled();
+    });
+
+    it('should report batches once all their items are handled', async () => {
+        const hooks = createHooks();
+        const server = createJsonRpcServer(methods, { hooks });
+
+        await server.handleJsonRpcRequest(
+            [
+                createJsonRpcRequest('add', 1, { a: 1, b: 2 }),
+                createJsonRpcNotification('add', { a: 3, b: 4 }),
+                createJsonRpcRequest('add', 2, { a: 5, b: 6 }),
+            ],
+            context,
+        );
+
+        expect(hooks.onRequest).toHaveBeenCalledTimes(2);
+        expect(hooks.onNotification).toHaveBeenCalledTimes(1);
+        expect(hooks.onBatch).toHaveBeenCalledWith({ size: 3, responses: 2, duration: expect.any(Number), context });
+        expect(hooks.onBatch.mock.invocationCallOrder[0]).toBeGreaterThan(
+            Math.max(...hooks.onResponse.mock.invocationCallOrder),
+        );
+    });
+
+    it('should not report protocol messages', async () => {
+        const hooks = createHooks();
+        const server = createJsonRpcServer(methods, { hooks });
+
+        await server.handleJsonRpcRequest(createJsonRpcCancelNotification(1));
+
+        expect(hooks.onNotification).not.toHaveBeenCalled();
+    });
+
+    it('should log the errors of hooks without affecting responses', async () => {
+        const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+        const hookError = new Error('Metrics unavailable');
+        const server = createJsonRpcServer(methods, {
+            logger,
+            hooks: {
+                onRequest: () => {
+                    throw hookError;
+                },
+                onResponse: () => Promise.reject(hookError),
+            },
+        });
+
+        const result = await server.handleJsonRpcRequest(createJsonRpcRequest('add', 1, { a: 1, b: 2 }));
+
+        expect(result).toEqual({ jsonrpc: '2.0', id: 1, result: 3 });
+        await vi.waitFor(() => expect(logger.error).toHaveBeenCalledTimes(2));
+        expect(logger.error).toHaveBeenCalledWith('JSON-RPC hook failed', { hook: 'onRequest', error: hookError });
+        expect(logger.error).toHaveBeenCalledWith('JSON-RPC hook failed', { hook: 'onResponse', error: hookError });
+    });
+});
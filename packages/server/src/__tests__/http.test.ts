@@ -0,0 +1,212 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    createJsonRpcServer,
+    createNodeHttpHandler,
+    JsonRpcHttpContext,
+    JsonRpcHttpRequestLike,
+    JsonRpcHttpResponseLike,
+} from '../index.js';
+import { createJsonRpcError, createJsonRpcNotification, createJsonRpcRequest } from '@ts-json-rpc/core';
+
+/**
+ * Creates a request streaming the given body chunks once listeners are attached.
+ */
+function createMockRequest(
+    body: string | string[] | undefined,
+    overrides: Partial<JsonRpcHttpRequestLike> = {},
+): JsonRpcHttpRequestLike & { destroy: ReturnType<typeof vi.fn> } {
+    const listeners: Record<string, ((value?: unknown) => void)[]> = {};
+    const request = {
+        method: 'POST',
+        url: '/rpc',
+        headers: { 'content-type': 'application/json' },
+        destroy: vi.fn(),
+        on: (event: string, listener: (value?: unknown) => void) => {
+            (listeners[event] ??= []).push(listener);
+            if (event === 'end') {
+                queueMicrotask(() => {
+                    const chunks = body === undefined ? [] : Array.isArray(body) ? body : [body];
+                    for (const chunk of chunks) {
+                        listeners.data?.forEach((onData) => onData(new TextEncoder().encode(chunk)));
+                    }
+                    listeners.end?.forEach((onEnd) => onEnd());
+                });
+            }
+            return request;
+        },
+        ...overrides,
+    };
+    return request as JsonRpcHttpRequestLike & { destroy: ReturnType<typeof vi.fn> };
+}
+
+function createMockResponse() {
+    let resolveEnded!: () => void;
+    const response = {
+        statusCode: 200,
+        headers: {} as Record<string, string | number>,
+        body: undefined as string | undefined,
+        ended: new Promise<void>((resolve) => (resolveEnded = resolve)),
+        setHeader: (name: string, value: string | number) => {
+            response.headers[name.toLowerCase()] = value;
+        },
+        end: (body?: string) => {
+            response.body = body;
+            resolveEnded();
+        },
+    };
+    return response;
+}
+
+async function serve(
+    handler: (request: JsonRpcHttpRequestLike, response: JsonRpcHttpResponseLike) => void,
+    request: JsonRpcHttpRequestLike,
+) {
+    const response = createMockResponse();
+    handler(request, response);
+    await response.ended;
+    return response;
+}
+
+describe('createNodeHttpHandler', () => {
+    const server = createJsonRpcServer(
+        {
+            add: (params: { a: number; b: number }) => params.a + params.b,
+            log: () => undefined,
+            fail: () => {
+                throw createJsonRpcError(-32001, 'Application error');
+            },
+            crash: () => {
+                throw new Error('Boom');
+            },
+        },
+        { logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } },
+    );
+    const handler = createNodeHttpHandler(server);
+
+    it('should answer requests with JSON', async () => {
+        const response = await serve(handler, createMockRequest(JSON.stringify(createJsonRpcRequest('add', 1, { a: 1, b: 2 }))));
+
+        expect(response.statusCode).toBe(200);
+        expect(response.headers['content-type']).toBe('application/json; charset=utf-8');
+        expect(JSON.parse(response.body!)).toEqual({ jsonrpc: '2.0', id: 1, result: 3 });
+    });
+
+    it('should read bodies split into several chunks', async () => {
+        const body = JSON.stringify(createJsonRpcRequest('add', 1, { a: 2, b: 2 }));
+        const response = await serve(handler, createMockRequest([body.slice(0, 10), body.slice(10)]));
+
+        expect(JSON.parse(response.body!)).toMatchObject({ result: 4 });
+    });
+
+    it('should use a body already parsed by a framework', async () => {
+        const response = await serve(
+            handler,
+            createMockRequest(undefined, { body: createJsonRpcRequest('add', 1, { a: 3, b: 2 }) }),
+        );
+
+        expect(JSON.parse(response.body!)).toMatchObject({ result: 5 });
+    });
+
+    it('should answer notifications and notification-only batches with 204', async () => {
+        const single = await serve(handler, createMockRequest(JSON.stringify(createJsonRpcNotification('log'))));
+        const batch = await serve(
+            handler,
+            createMockRequest(JSON.stringify([createJsonRpcNotification('log'), createJsonRpcNotification('log')])),
+        );
+
+        expect(single.statusCode).toBe(204);
+        expect(single.body).toBeUndefined();
+        expect(batch.statusCode).toBe(204);
+    });
+
+    it('should map error responses to HTTP status codes', async () => {
+        const parseError = await serve(handler, createMockRequest('{ not json'));
+        const notFound = await serve(handler, createMockRequest(JSON.stringify(createJsonRpcRequest('missing', 1))));
+        const internal = await serve(handler, createMockRequest(JSON.stringify(createJsonRpcRequest('crash', 1))));
+        const application = await serve(handler, createMockRequest(JSON.stringify(createJsonRpcRequest('fail', 1))));
+        const batch = await serve(
+            handler,
+            createMockRequest(JSON.stringify([createJsonRpcRequest('missing', 1), createJsonRpcRequest('add', 2, { a: 1, b: 1 })])),
+        );
+
+        expect(parseError.statusCode).toBe(400);
+        expect(notFound.statusCode).toBe(404);
+        expect(internal.statusCode).toBe(500);
+        expect(application.statusCode).toBe(200);
+        expect(batch.statusCode).toBe(200);
+        expect(JSON.parse(notFound.body!)).toMatchObject({ error: { code: -32601 } });
+    });
+
+    it('should reject other HTTP methods and content types', async () => {
+        const get = await serve(handler, createMockRequest(undefined, { method: 'GET' }));
+        const form = await serve(
+            handler,
+            createMockRequest('a=1', { headers: { 'content-type': 'application/x-www-form-urlencoded' } }),
+        );
+
+        expect(get.statusCode).toBe(405);
+        expect(get.headers.allow).toBe('POST');
+        expect(form.statusCode).toBe(415);
+    });
+
+    it('should reject bodies larger than the size limit', async () => {
+        const limitedHandler = createNodeHttpHandler(server, { maxBodySize: 16 });
+        const request = createMockRequest(JSON.stringify(createJsonRpcRequest('add', 1, { a: 1, b: 2 })));
+
+        const response = await serve(limitedHandler, request);
+
+        expect(response.statusCode).toBe(413);
+        expect(request.destroy).toHaveBeenCalled();
+    });
+
+    it('should pass the request, or a custom context, to method handlers', async () => {
+        const whoAmI = vi.fn((_params: unknown, context: JsonRpcHttpContext) => context.request.url);
+        const defaultHandler = createNodeHttpHandler(createJsonRpcServer<JsonRpcHttpContext>({ whoAmI }));
+        const userHandler = createNodeHttpHandler(
+            createJsonRpcServer<{ userId: string }>({ whoAmI: (_params: unknown, context: { userId: string }) => context.userId }),
+            { getContext: async (request) => ({ userId: String(request.headers['x-user-id']) }) },
+        );
+        const body = JSON.stringify(createJsonRpcRequest('whoAmI', 1));
+
+        const byDefault = await serve(defaultHandler, createMockRequest(body));
+        const custom = await serve(
+            userHandler,
+            createMockRequest(body, { headers: { 'content-type': 'application/json', 'x-user-id': 'user-1' } }),
+        );
+
+        expect(JSON.parse(byDefault.body!)).toMatchObject({ result: '/rpc' });
+        expect(JSON.parse(custom.body!)).toMatchObject({ result: 'user-1' });
+    });
+
+    it('should log and answer 500 when the context cannot be built', async () => {
+        const error = new Error('No session');
+        const failingHandler = createNodeHttpHandler(server, {
+            getContext: () => {
+                throw error;
+            },
+        });
+
+        const response = await serve(failingHandler, createMockRequest(JSON.stringify(createJsonRpcRequest('add', 1))));
+
+        expect(response.statusCode).toBe(500);
+        expect(server.logger.error).toHaveBeenCalledWith('JSON-RPC HTTP request failed', { error });
+    });
+
+    it('should destroy the response when it fails after its headers were sent', async () => {
+        const error = new Error('Socket hang up');
+        const destroyed = new Promise<unknown>((resolve) => {
+            const response = {
+                ...createMockResponse(),
+                headersSent: true,
+                setHeader: () => {
+                    throw error;
+                },
+                destroy: resolve,
+            };
+            handler(createMockRequest(JSON.stringify(createJsonRpcRequest('add', 1, { a: 1, b: 2 }))), response);
+        });
+
+        await expect(destroyed).resolves.toBe(error);
+        expect(server.logger.error).toHaveBeenCalledWith('JSON-RPC HTTP request failed', { error });
+    });
+});
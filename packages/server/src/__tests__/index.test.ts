@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { createJsonRpcServer, JsonRpcMethodMap, JsonRpcServerOptions } from '../index.js';
+import { createJsonRpcServer, JsonRpcMethodMap, JsonRpcMiddleware, JsonRpcServerOptions } from '../index.js';
 import {
     createJsonRpcRequest,
     createJsonRpcNotification,
@@ -9,8 +9,45 @@ import {
     JSONRPCErrorResponse,
     JSONRPCSuccessResponse,
     JSONRPC_ERROR_CODES,
+    createJsonSchemaValidator,
+    createJsonRpcCancelNotification,
+    createJsonRpcSuccessResponse,
+    JSONRPC_REQUEST_CANCELLED,
+    JSONRPCMessage,
+    createStreamChannel,
+    createInMemoryChannelPair,
+    createJsonRpcSubscriptionNotification,
+    JSONRPC_UNSUBSCRIBE_METHOD,
+    JSONRPC_SUBSCRIPTIONS_NOT_SUPPORTED,
+    JsonRpcException,
+    InvalidParamsException,
+    createJsonRpcStreamChunkNotification,
+    createJsonRpcStreamAckNotification,
 } from '@ts-json-rpc/core';
 
+/**
+ * Creates a channel whose incoming messages and closing are driven by the test.
+ */
+function createMockChannel() {
+    const messageListeners = new Set<(message: unknown) => void>();
+    const closeListeners = new Set<() => void>();
+    return {
+        send: vi.fn<[JSONRPCMessage], void>(),
+        onMessage: (listener: (message: unknown) => void) => {
+            messageListeners.add(listener);
+            return () => messageListeners.delete(listener);
+        },
+        onClose: (listener: () => void) => {
+            closeListeners.add(listener);
+            return () => closeListeners.delete(listener);
+        },
+        close: vi.fn(),
+        receive: (message: unknown) => messageListeners.forEach((listener) => listener(message)),
+        closeRemotely: () => closeListeners.forEach((listener) => listener()),
+        listenerCount: () => messageListeners.size + closeListeners.size,
+    };
+}
+
 describe('createJsonRpcServer', () => {
     let mockLogger: {
         info: ReturnType<typeof vi.fn>;
@@ -73,7 +110,7 @@ describe('createJsonRpcServer', () => {
                     message: 'Parse error',
                 },
             });
-            expect(mockLogger.error).toHaveBeenCalledWith('JSON-RPC parse error:', expect.any(Error));
+            expect(mockLogger.error).toHaveBeenCalledWith('JSON-RPC parse error', { error: expect.any(Error) });
         });
 
         it('should return invalid request error for malformed JSON-RPC', async () => {
@@ -90,7 +127,7 @@ describe('createJsonRpcServer', () => {
                     message: 'Invalid Request',
                 },
             });
-            expect(mockLogger.warn).toHaveBeenCalledWith('JSON-RPC invalid request structure:', { invalid: 'structure' });
+            expect(mockLogger.warn).toHaveBeenCalledWith('JSON-RPC invalid request structure', { request: { invalid: 'structure' } });
         });
 
         it('should return invalid request error for empty batch', async () => {
@@ -179,7 +216,7 @@ describe('createJsonRpcServer', () => {
                     message: 'Method not found',
                 },
             });
-            expect(mockLogger.warn).toHaveBeenCalledWith('JSON-RPC method not found: unknown');
+            expect(mockLogger.warn).toHaveBeenCalledWith('JSON-RPC method not found', { method: 'unknown', id: 1 });
         });
 
         it('should return null for unknown method in non-strict mode', async () => {
@@ -190,7 +227,7 @@ describe('createJsonRpcServer', () => {
             const result = await server.handleJsonRpcRequest(request);
 
             expect(result).toBeNull();
-            expect(mockLogger.info).toHaveBeenCalledWith('JSON-RPC method not found (non-strict mode): unknown');
+            expect(mockLogger.info).toHaveBeenCalledWith('JSON-RPC method not found (non-strict mode)', { method: 'unknown', id: 1 });
         });
 
         it('should handle custom JSON-RPC errors from method handlers', async () => {
@@ -210,7 +247,34 @@ describe('createJsonRpcServer', () => {
                 id: 1,
                 error: customError,
             });
-            expect(mockLogger.warn).toHaveBeenCalledWith('JSON-RPC method error in errorMethod:', customError);
+            expect(mockLogger.warn).toHaveBeenCalledWith('JSON-RPC method error', { method: 'errorMethod', id: 1, error: customError });
+        });
+
+        it('should only send the code, message and data of thrown exceptions and error objects', async () => {
+            const methods: JsonRpcMethodMap = {
+                withdraw: () => {
+                    throw new JsonRpcException(-32001, 'Insufficient funds', { balance: 10 });
+                },
+                deposit: () => {
+                    throw { code: -32002, message: 'Account locked', stack: 'at deposit', secret: 'token' };
+                },
+                transfer: () => {
+                    throw new InvalidParamsException();
+                },
+            };
+
+            const server = createJsonRpcServer(methods, { logger: mockLogger });
+            const result = await server.handleJsonRpcRequest([
+                createJsonRpcRequest('withdraw', 1),
+                createJsonRpcRequest('deposit', 2),
+                createJsonRpcRequest('transfer', 3),
+            ]);
+
+            expect(result).toStrictEqual([
+                { jsonrpc: '2.0', id: 1, error: { code: -32001, message: 'Insufficient funds', data: { balance: 10 } } },
+                { jsonrpc: '2.0', id: 2, error: { code: -32002, message: 'Account locked' } },
+                { jsonrpc: '2.0', id: 3, error: { code: JSONRPC_ERROR_CODES.INVALID_PARAMS, message: 'Invalid params' } },
+            ]);
         });
 
         it('should handle internal errors from method handlers', async () => {
@@ -232,7 +296,647 @@ describe('createJsonRpcServer', () => {
                     message: 'Internal error',
                 },
             });
-            expect(mockLogger.error).toHaveBeenCalledWith('JSON-RPC internal error in errorMethod:', expect.any(Error));
+            expect(mockLogger.error).toHaveBeenCalledWith('JSON-RPC internal error', { method: 'errorMethod', id: 1, error: expect.any(Error) });
+        });
+    });
+
+    describe('contract typed methods', () => {
+        type CalculatorContract = {
+            add: { params: { a: number; b: number }; result: number };
+            whoami: { params: undefined; result: string };
+        };
+
+        it('should dispatch to handlers implementing the contract', async () => {
+            const methods: JsonRpcMethodMap<{ userId: string }, CalculatorContract> = {
+                add: (params) => params.a + params.b,
+                whoami: (_params, context) => context.userId,
+            };
+
+            const server = createJsonRpcServer(methods);
+
+            expect(await server.handleJsonRpcRequest(createJsonRpcRequest('add', 1, { a: 4, b: 5 }))).toEqual({
+                jsonrpc: '2.0',
+                id: 1,
+                result: 9,
+            });
+            expect(await server.handleJsonRpcRequest(createJsonRpcRequest('whoami', 2), { userId: '42' })).toEqual({
+                jsonrpc: '2.0',
+                id: 2,
+                result: '42',
+            });
+        });
+
+        it('should still reject methods outside the contract', async () => {
+            const server = createJsonRpcServer<unknown, CalculatorContract>(
+                {
+                    add: (params) => params.a + params.b,
+                    whoami: () => 'anonymous',
+                },
+                { logger: mockLogger },
+            );
+
+            const result = await server.handleJsonRpcRequest(createJsonRpcRequest('subtract', 1, { a: 1, b: 1 }));
+
+            expect(result).toEqual({
+                jsonrpc: '2.0',
+                id: 1,
+                error: {
+                    code: JSONRPC_ERROR_CODES.METHOD_NOT_FOUND,
+                    message: 'Method not found',
+                },
+            });
+        });
+    });
+
+    describe('params validation', () => {
+        const addParams = createJsonSchemaValidator({
+            type: 'object',
+            properties: { a: { type: 'number' }, b: { type: 'number' } },
+            required: ['a', 'b'],
+        });
+
+        it('should reject invalid params before running the handler', async () => {
+            const add = vi.fn((params: { a: number; b: number }) => params.a + params.b);
+            const server = createJsonRpcServer({ add }, {
+                logger: mockLogger,
+                methodOptions: { add: { params: addParams } },
+            });
+
+            const result = await server.handleJsonRpcRequest(createJsonRpcRequest('add', 1, { a: 'one' }));
+
+            expect(result).toEqual({
+                jsonrpc: '2.0',
+                id: 1,
+                error: {
+                    code: JSONRPC_ERROR_CODES.INVALID_PARAMS,
+                    message: 'Invalid params',
+                    data: {
+                        issues: [
+                            { path: ['b'], message: 'Required' },
+                            { path: ['a'], message: 'Expected number, received string' },
+                        ],
+                    },
+                },
+            });
+            expect(add).not.toHaveBeenCalled();
+            expect(mockLogger.warn).toHaveBeenCalledWith('JSON-RPC method error', expect.objectContaining({
+                method: 'add',
+                error: expect.objectContaining({ code: JSONRPC_ERROR_CODES.INVALID_PARAMS }),
+            }));
+        });
+
+        it('should pass validated params to the handler', async () => {
+            const schema = {
+                safeParse: (value: unknown) => ({ success: true as const, data: { ...(value as object), checked: true } }),
+            };
+            const echo = vi.fn((params: unknown) => params);
+            const server = createJsonRpcServer({ echo }, { methodOptions: { echo: { params: schema } } });
+
+            const result = await server.handleJsonRpcRequest(createJsonRpcRequest('echo', 1, { a: 1 }));
+
+            expect(result).toEqual({
+                jsonrpc: '2.0',
+                id: 1,
+                result: { a: 1, checked: true },
+            });
+        });
+
+        it('should drop notifications with invalid params', async () => {
+            const add = vi.fn();
+            const server = createJsonRpcServer({ add }, {
+                logger: mockLogger,
+                methodOptions: { add: { params: addParams } },
+            });
+
+            const result = await server.handleJsonRpcRequest(createJsonRpcNotification('add', { a: 1 }));
+
+            expect(result).toBeNull();
+            expect(add).not.toHaveBeenCalled();
+            expect(mockLogger.error).toHaveBeenCalledWith('JSON-RPC notification method error', { method: 'add', error: expect.any(InvalidParamsException) });
+            expect(mockLogger.error.mock.calls[0][1].error.toJSON()).toEqual({
+                code: JSONRPC_ERROR_CODES.INVALID_PARAMS,
+                message: 'Invalid params',
+                data: { issues: [{ path: ['b'], message: 'Required' }] },
+            });
+        });
+    });
+
+    describe('middleware', () => {
+        it('should run middlewares in registration order around the handler', async () => {
+            const calls: string[] = [];
+            const server = createJsonRpcServer({
+                test: () => {
+                    calls.push('handler');
+                    return 'result';
+                },
+            });
+
+            server
+                .use(async (_request, _context, next) => {
+                    calls.push('first:before');
+                    const result = await next();
+                    calls.push('first:after');
+                    return result;
+                })
+                .use(async (_request, _context, next) => {
+                    calls.push('second:before');
+                    const result = await next();
+                    calls.push('second:after');
+                    return result;
+                });
+
+            await server.handleJsonRpcRequest(createJsonRpcRequest('test', 1));
+
+            expect(calls).toEqual(['first:before', 'second:before', 'handler', 'second:after', 'first:after']);
+        });
+
+        it('should short-circuit with a JSON-RPC error', async () => {
+            const handler = vi.fn();
+            const server = createJsonRpcServer<{ userId?: string }>({ secret: handler }, { logger: mockLogger });
+            server.use((_request, context, next) => {
+                if (!context.userId) {
+                    throw createJsonRpcError(-32001, 'Not authorized');
+                }
+                return next();
+            });
+
+            const result = await server.handleJsonRpcRequest(createJsonRpcRequest('secret', 1), {});
+
+            expect(result).toEqual({
+                jsonrpc: '2.0',
+                id: 1,
+                error: { code: -32001, message: 'Not authorized' },
+            });
+            expect(handler).not.toHaveBeenCalled();
+        });
+
+        it('should pass a replaced context down the chain', async () => {
+            const server = createJsonRpcServer<{ userId: string; role?: string }>({
+                whoami: (_params, context) => `${context.userId}:${context.role}`,
+            });
+            server.use((_request, context, next) => next({ ...context, role: 'admin' }));
+
+            const result = await server.handleJsonRpcRequest(createJsonRpcRequest('whoami', 1), { userId: '7' });
+
+            expect(result).toEqual({ jsonrpc: '2.0', id: 1, result: '7:admin' });
+        });
+
+        it('should transform results and see the request', async () => {
+            const seen: string[] = [];
+            const middleware: JsonRpcMiddleware = async (request, _context, next) => {
+                seen.push(request.method);
+                return { wrapped: await next() };
+            };
+            const server = createJsonRpcServer({ add: (params: { a: number; b: number }) => params.a + params.b });
+            server.use(middleware);
+
+            const result = await server.handleJsonRpcRequest(createJsonRpcRequest('add', 1, { a: 1, b: 2 }));
+
+            expect(result).toEqual({ jsonrpc: '2.0', id: 1, result: { wrapped: 3 } });
+            expect(seen).toEqual(['add']);
+        });
+
+        it('should run for notifications', async () => {
+            const middleware = vi.fn((_request, _context, next: () => Promise<unknown>) => next());
+            const log = vi.fn();
+            const server = createJsonRpcServer({ log });
+            server.use(middleware);
+
+            const result = await server.handleJsonRpcRequest(createJsonRpcNotification('log', { message: 'hi' }));
+
+            expect(result).toBeNull();
+            expect(middleware).toHaveBeenCalledTimes(1);
+            expect(log).toHaveBeenCalledWith({ message: 'hi' }, undefined, expect.objectContaining({ method: 'log', id: null }));
+        });
+
+        it('should reject calling next() multiple times', async () => {
+            const server = createJsonRpcServer({ test: () => 'ok' }, { logger: mockLogger });
+            server.use(async (_request, _context, next) => {
+                await next();
+                return next();
+            });
+
+            const result = await server.handleJsonRpcRequest(createJsonRpcRequest('test', 1));
+
+            expect(result).toEqual({
+                jsonrpc: '2.0',
+                id: 1,
+                error: { code: JSONRPC_ERROR_CODES.INTERNAL_ERROR, message: 'Internal error' },
+            });
+        });
+    });
+
+    describe('cancellation', () => {
+        function createSlowServer() {
+            let signal!: AbortSignal;
+            let finish!: (value: string) => void;
+            const server = createJsonRpcServer({
+                slow: (_params: unknown, _context: unknown, extra: { signal: AbortSignal }) => {
+                    signal = extra.signal;
+                    return new Promise<string>((resolve) => (finish = resolve));
+                },
+            }, { logger: mockLogger });
+            return { server, getSignal: () => signal, finish: (value: string) => finish(value) };
+        }
+
+        it('should pass the request id and a signal to handlers', async () => {
+            const handler = vi.fn(() => 'ok');
+            const server = createJsonRpcServer({ test: handler });
+
+            await server.handleJsonRpcRequest(createJsonRpcRequest('test', 7));
+
+            expect(handler).toHaveBeenCalledWith(undefined, undefined, {
+                method: 'test',
+                id: 7,
+                signal: expect.any(AbortSignal),
+                subscribe: expect.any(Function),
+            });
+        });
+
+        it('should abort the handler signal and answer with a cancelled error', async () => {
+            const { server, getSignal } = createSlowServer();
+            const channel = createMockChannel();
+
+            server.connect(channel);
+            channel.receive(createJsonRpcRequest('slow', 1));
+            await vi.waitFor(() => expect(getSignal()).toBeDefined());
+            channel.receive(createJsonRpcCancelNotification(1));
+
+            await vi.waitFor(() =>
+                expect(channel.send).toHaveBeenCalledWith({
+                    jsonrpc: '2.0',
+                    id: 1,
+                    error: { code: JSONRPC_REQUEST_CANCELLED, message: 'Request cancelled' },
+                }),
+            );
+            expect(getSignal().aborted).toBe(true);
+            expect(mockLogger.info).toHaveBeenCalledWith('JSON-RPC request cancelled', { id: 1 });
+        });
+
+        it('should only cancel requests of the same connection, even when they share an ID', async () => {
+            const signals: AbortSignal[] = [];
+            const finishers: ((value: string) => void)[] = [];
+            const server = createJsonRpcServer({
+                slow: (_params: unknown, _context: unknown, extra: { signal: AbortSignal }) => {
+                    signals.push(extra.signal);
+                    return new Promise<string>((resolve) => finishers.push(resolve));
+                },
+            }, { logger: mockLogger });
+            const first = createMockChannel();
+            const second = createMockChannel();
+
+            server.connect(first);
+            server.connect(second);
+            first.receive(createJsonRpcRequest('slow', 1));
+            second.receive(createJsonRpcRequest('slow', 1));
+            await vi.waitFor(() => expect(signals).toHaveLength(2));
+            first.receive(createJsonRpcCancelNotification(1));
+
+            await vi.waitFor(() => expect(signals[0].aborted).toBe(true));
+            expect(signals[1].aborted).toBe(false);
+            finishers[1]('done');
+            await vi.waitFor(() => expect(second.send).toHaveBeenCalledWith({ jsonrpc: '2.0', id: 1, result: 'done' }));
+        });
+
+        it('should not cancel requests handled outside of a connection', async () => {
+            const { server, getSignal, finish } = createSlowServer();
+
+            const pending = server.handleJsonRpcRequest(createJsonRpcRequest('slow', 'a'));
+            await Promise.resolve();
+            await server.handleJsonRpcRequest(createJsonRpcCancelNotification('a'));
+
+            expect(getSignal().aborted).toBe(false);
+            finish('done');
+            expect(await pending).toEqual({ jsonrpc: '2.0', id: 'a', result: 'done' });
+        });
+
+        it('should ignore cancellation of unknown or completed requests', async () => {
+            const server = createJsonRpcServer({ test: () => 'ok' }, { logger: mockLogger });
+
+            await server.handleJsonRpcRequest(createJsonRpcRequest('test', 1));
+            const result = await server.handleJsonRpcRequest(createJsonRpcCancelNotification(1));
+
+            expect(result).toBeNull();
+            expect(mockLogger.info).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('connect', () => {
+        it('should answer requests received on the channel with the connection context', async () => {
+            const channel = createMockChannel();
+            const context = { userId: 'user-1' };
+            const whoAmI = vi.fn((_params: unknown, ctx: typeof context) => ctx.userId);
+            const server = createJsonRpcServer({ whoAmI }, { logger: mockLogger });
+
+            server.connect(channel, context);
+            channel.receive(createJsonRpcRequest('whoAmI', 1));
+            channel.receive(JSON.stringify(createJsonRpcRequest('whoAmI', 2)));
+
+            await vi.waitFor(() => expect(channel.send).toHaveBeenCalledTimes(2));
+            expect(channel.send).toHaveBeenCalledWith({ jsonrpc: '2.0', id: 1, result: 'user-1' });
+            expect(channel.send).toHaveBeenCalledWith({ jsonrpc: '2.0', id: 2, result: 'user-1' });
+        });
+
+        it('should not answer notifications and ignore responses', async () => {
+            const channel = createMockChannel();
+            const log = vi.fn();
+            const server = createJsonRpcServer({ log }, { logger: mockLogger });
+
+            server.connect(channel);
+            channel.receive(createJsonRpcNotification('log', { message: 'hi' }));
+            channel.receive(createJsonRpcSuccessResponse(1, 'result of one of our calls'));
+
+            await vi.waitFor(() => expect(log).toHaveBeenCalled());
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            expect(channel.send).not.toHaveBeenCalled();
+            expect(mockLogger.warn).not.toHaveBeenCalled();
+        });
+
+        it('should answer invalid messages with errors', async () => {
+            const channel = createMockChannel();
+            const server = createJsonRpcServer({}, { logger: mockLogger });
+
+            server.connect(channel);
+            channel.receive('{ not json');
+
+            await vi.waitFor(() =>
+                expect(channel.send).toHaveBeenCalledWith(
+                    expect.objectContaining({ id: null, error: expect.objectContaining({ code: JSONRPC_ERROR_CODES.PARSE_ERROR }) }),
+                ),
+            );
+        });
+
+        it('should serve Content-Length framed streams and answer malformed frames with parse errors', async () => {
+            let onData!: (chunk: unknown) => void;
+            const readable = {
+                on: vi.fn((event: string, listener: (chunk: unknown) => void) => {
+                    if (event === 'data') onData = listener;
+                }),
+                off: vi.fn(),
+            };
+            const written: string[] = [];
+            const writable = { write: (chunk: string) => written.push(chunk) };
+            const server = createJsonRpcServer({ add: ({ a, b }: { a: number; b: number }) => a + b }, { logger: mockLogger });
+
+            server.connect(createStreamChannel(readable, writable, { framing: 'content-length' }), {});
+            const request = JSON.stringify(createJsonRpcRequest('add', 1, { a: 1, b: 2 }));
+            onData(`Content-Length: ${request.length}\r\n\r\n${request.slice(0, 10)}`);
+            onData(`${request.slice(10)}Content-Length: 8\r\n\r\nnot json`);
+
+            await vi.waitFor(() => expect(written).toHaveLength(2));
+            const responses = written.map((frame) => JSON.parse(frame.slice(frame.indexOf('\r\n\r\n') + 4)));
+            expect(responses).toContainEqual({ jsonrpc: '2.0', id: 1, result: 3 });
+            expect(responses).toContainEqual(
+                expect.objectContaining({ id: null, error: expect.objectContaining({ code: JSONRPC_ERROR_CODES.PARSE_ERROR }) }),
+            );
+        });
+
+        it('should stop serving and cancel in-flight requests when the channel closes', async () => {
+            const channel = createMockChannel();
+            let signal!: AbortSignal;
+            const server = createJsonRpcServer({
+                slow: (_params: unknown, _context: unknown, extra: { signal: AbortSignal }) => {
+                    signal = extra.signal;
+                    return new Promise(() => {});
+                },
+            }, { logger: mockLogger });
+
+            server.connect(channel, {});
+            channel.receive(createJsonRpcRequest('slow', 1));
+            await vi.waitFor(() => expect(signal).toBeDefined());
+
+            channel.closeRemotely();
+
+            expect(signal.aborted).toBe(true);
+            expect(channel.listenerCount()).toBe(0);
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            expect(channel.send).not.toHaveBeenCalled();
+        });
+
+        it('should stop serving when the returned function is called', async () => {
+            const channel = createMockChannel();
+            const test = vi.fn(() => 'ok');
+            const server = createJsonRpcServer({ test });
+
+            const disconnect = server.connect(channel);
+            disconnect();
+            channel.receive(createJsonRpcRequest('test', 1));
+
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            expect(test).not.toHaveBeenCalled();
+            expect(channel.close).not.toHaveBeenCalled();
+        });
+
+        it('should log responses that cannot be sent', async () => {
+            const channel = createMockChannel();
+            channel.send.mockImplementation(() => {
+                throw new Error('Socket closed');
+            });
+            const server = createJsonRpcServer({ test: () => 'ok' }, { logger: mockLogger });
+
+            server.connect(channel);
+            channel.receive(createJsonRpcRequest('test', 1));
+
+            await vi.waitFor(() =>
+                expect(mockLogger.error).toHaveBeenCalledWith('JSON-RPC failed to send response', { error: expect.any(Error) }),
+            );
+        });
+
+        it('should log messages whose handling fails instead of leaving the rejection unhandled', async () => {
+            const channel = createMockChannel();
+            const loggerError = new Error('Log sink unavailable');
+            mockLogger.warn.mockImplementation(() => {
+                throw loggerError;
+            });
+            const server = createJsonRpcServer({}, { logger: mockLogger });
+
+            server.connect(channel);
+            channel.receive(createJsonRpcRequest('unknown', 1));
+
+            await vi.waitFor(() =>
+                expect(mockLogger.error).toHaveBeenCalledWith('JSON-RPC failed to handle message', { error: loggerError }),
+            );
+        });
+    });
+
+    describe('subscriptions', () => {
+        function connectServer(methods: JsonRpcMethodMap) {
+            const [serverChannel, clientChannel] = createInMemoryChannelPair();
+            const received: unknown[] = [];
+            clientChannel.onMessage((message) => received.push(message));
+            createJsonRpcServer(methods, { logger: mockLogger }).connect(serverChannel, {});
+            return { clientChannel, received };
+        }
+
+        it('should send events after the response of the subscribe request', async () => {
+            const { clientChannel, received } = connectServer({
+                watch: (_params, _context, { subscribe }) => {
+                    const subscription = subscribe<number>();
+                    subscription.emit(1);
+                    setTimeout(() => subscription.emit(2), 0);
+                    return subscription.id;
+                },
+            });
+
+            clientChannel.send(createJsonRpcRequest('watch', 1));
+
+            await vi.waitFor(() => expect(received).toHaveLength(3));
+            expect(received).toEqual([
+                { jsonrpc: '2.0', id: 1, result: '1' },
+                createJsonRpcSubscriptionNotification('1', 1),
+                createJsonRpcSubscriptionNotification('1', 2),
+            ]);
+        });
+
+        it('should end subscriptions on $/unsubscribe', async () => {
+            let signal!: AbortSignal;
+            const { clientChannel, received } = connectServer({
+                watch: (_params, _context, { subscribe }) => {
+                    const subscription = subscribe();
+                    signal = subscription.signal;
+                    return subscription.id;
+                },
+            });
+
+            clientChannel.send(createJsonRpcRequest('watch', 1));
+            await vi.waitFor(() => expect(received).toHaveLength(1));
+            clientChannel.send(createJsonRpcRequest(JSONRPC_UNSUBSCRIBE_METHOD, 2, { subscription: '1' }));
+            clientChannel.send(createJsonRpcRequest(JSONRPC_UNSUBSCRIBE_METHOD, 3, { subscription: '1' }));
+
+            await vi.waitFor(() => expect(received).toHaveLength(3));
+            expect(signal.aborted).toBe(true);
+            expect(received).toContainEqual({ jsonrpc: '2.0', id: 2, result: true });
+            expect(received).toContainEqual({ jsonrpc: '2.0', id: 3, result: false });
+        });
+
+        it('should end subscriptions when the connection closes or the handler fails', async () => {
+            const signals: AbortSignal[] = [];
+            const { clientChannel, received } = connectServer({
+                watch: (_params, _context, { subscribe }) => {
+                    const subscription = subscribe();
+                    signals.push(subscription.signal);
+                    return subscription.id;
+                },
+                broken: (_params, _context, { subscribe }) => {
+                    signals.push(subscribe().signal);
+                    throw new Error('Boom');
+                },
+            });
+
+            clientChannel.send(createJsonRpcRequest('watch', 1));
+            clientChannel.send(createJsonRpcRequest('broken', 2));
+            await vi.waitFor(() => expect(received).toHaveLength(2));
+            expect(signals.map((signal) => signal.aborted)).toEqual([false, true]);
+
+            clientChannel.close();
+            expect(signals[0].aborted).toBe(true);
+        });
+
+        it('should reject subscriptions outside of a connection', async () => {
+            const server = createJsonRpcServer(
+                { watch: (_params: unknown, _context: unknown, { subscribe }) => subscribe().id },
+                { logger: mockLogger },
+            );
+
+            const result = await server.handleJsonRpcRequest(createJsonRpcRequest('watch', 1));
+
+            expect(result).toEqual({
+                jsonrpc: '2.0',
+                id: 1,
+                error: { code: JSONRPC_SUBSCRIPTIONS_NOT_SUPPORTED, message: 'Subscriptions not supported' },
+            });
+        });
+
+        it('should reject unsubscriptions outside of a connection', async () => {
+            const server = createJsonRpcServer({}, { logger: mockLogger });
+
+            const result = await server.handleJsonRpcRequest([
+                createJsonRpcRequest(JSONRPC_UNSUBSCRIBE_METHOD, 1, { subscription: 'sub-1' }),
+                createJsonRpcNotification(JSONRPC_UNSUBSCRIBE_METHOD, { subscription: 'sub-1' }),
+            ]);
+
+            expect(result).toEqual([
+                {
+                    jsonrpc: '2.0',
+                    id: 1,
+                    error: { code: JSONRPC_SUBSCRIPTIONS_NOT_SUPPORTED, message: 'Subscriptions not supported' },
+                },
+            ]);
+        });
+    });
+
+    describe('streaming', () => {
+        function connectServer(methods: JsonRpcMethodMap, options: JsonRpcServerOptions = {}) {
+            const [serverChannel, clientChannel] = createInMemoryChannelPair();
+            const received: unknown[] = [];
+            clientChannel.onMessage((message) => received.push(message));
+            createJsonRpcServer(methods, { logger: mockLogger, ...options }).connect(serverChannel, {});
+            return { clientChannel, received };
+        }
+
+        async function* count(to: number, onEnd?: () => void) {
+            try {
+                for (let value = 1; value <= to; value++) {
+                    yield value;
+                }
+            } finally {
+                onEnd?.();
+            }
+        }
+
+        it('should send the chunks of async iterable results, then a null response', async () => {
+            const { clientChannel, received } = connectServer({ count: (params: { to: number }) => count(params.to) });
+
+            clientChannel.send(createJsonRpcRequest('count', 1, { to: 2 }));
+
+            await vi.waitFor(() => expect(received).toHaveLength(3));
+            expect(received).toEqual([
+                createJsonRpcStreamChunkNotification(1, 1),
+                createJsonRpcStreamChunkNotification(1, 2),
+                { jsonrpc: '2.0', id: 1, result: null },
+            ]);
+        });
+
+        it('should wait for acknowledgements once the stream window is full', async () => {
+            const { clientChannel, received } = connectServer(
+                { count: (params: { to: number }) => count(params.to) },
+                { streamWindow: 2 },
+            );
+
+            clientChannel.send(createJsonRpcRequest('count', 1, { to: 4 }));
+            await vi.waitFor(() => expect(received).toHaveLength(2));
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            expect(received).toHaveLength(2);
+
+            clientChannel.send(createJsonRpcStreamAckNotification(1, 2));
+
+            await vi.waitFor(() => expect(received).toHaveLength(5));
+            expect(received[4]).toEqual({ jsonrpc: '2.0', id: 1, result: null });
+        });
+
+        it('should stop iterating when the request is cancelled', async () => {
+            const onEnd = vi.fn();
+            const { clientChannel, received } = connectServer(
+                { count: () => count(Infinity, onEnd) },
+                { streamWindow: 1 },
+            );
+
+            clientChannel.send(createJsonRpcRequest('count', 1));
+            await vi.waitFor(() => expect(received).toHaveLength(1));
+            clientChannel.send(createJsonRpcCancelNotification(1));
+
+            await vi.waitFor(() => expect(onEnd).toHaveBeenCalled());
+            await vi.waitFor(() =>
+                expect(received[1]).toMatchObject({ id: 1, error: { code: JSONRPC_REQUEST_CANCELLED } }),
+            );
+        });
+
+        it('should collect the chunks outside of a connection', async () => {
+            const server = createJsonRpcServer({ count: (params: { to: number }) => count(params.to) });
+
+            const result = await server.handleJsonRpcRequest(createJsonRpcRequest('count', 1, { to: 3 }));
+
+            expect(result).toEqual({ jsonrpc: '2.0', id: 1, result: [1, 2, 3] });
         });
     });
 
@@ -248,7 +952,11 @@ describe('createJsonRpcServer', () => {
             const result = await server.handleJsonRpcRequest(notification);
 
             expect(result).toBeNull();
-            expect(mockMethod).toHaveBeenCalledWith({ data: 'test' }, undefined);
+            expect(mockMethod).toHaveBeenCalledWith(
+                { data: 'test' },
+                undefined,
+                expect.objectContaining({ method: 'notify', id: null }),
+            );
         });
 
         it('should log unknown notification method and return null', async () => {
@@ -259,7 +967,7 @@ describe('createJsonRpcServer', () => {
             const result = await server.handleJsonRpcRequest(notification);
 
             expect(result).toBeNull();
-            expect(mockLogger.info).toHaveBeenCalledWith('JSON-RPC notification for unknown method: unknown');
+            expect(mockLogger.info).toHaveBeenCalledWith('JSON-RPC notification for unknown method', { method: 'unknown' });
         });
 
         it('should handle notification method errors silently', async () => {
@@ -274,7 +982,7 @@ describe('createJsonRpcServer', () => {
             const result = await server.handleJsonRpcRequest(notification);
 
             expect(result).toBeNull();
-            expect(mockLogger.error).toHaveBeenCalledWith('JSON-RPC notification method error in errorNotification:', expect.any(Error));
+            expect(mockLogger.error).toHaveBeenCalledWith('JSON-RPC notification method error', { method: 'errorNotification', error: expect.any(Error) });
         });
     });
 
@@ -365,6 +1073,151 @@ describe('createJsonRpcServer', () => {
                 },
             ]);
         });
+
+        /**
+         * Creates methods recording when their calls start and end, and how many run at once.
+         */
+        function createTrackedMethods() {
+            const events: string[] = [];
+            let active = 0;
+            let maxActive = 0;
+            const track = async (name: string, ms: number) => {
+                events.push(`start ${name}`);
+                maxActive = Math.max(maxActive, ++active);
+                await new Promise((resolve) => setTimeout(resolve, ms));
+                active--;
+                events.push(`end ${name}`);
+                return name;
+            };
+            const methods: JsonRpcMethodMap = {
+                wait: (params: { name: string; ms: number }) => track(params.name, params.ms),
+                write: (params: { name: string; ms: number }) => track(params.name, params.ms),
+            };
+            return { methods, events, maxActive: () => maxActive };
+        }
+
+        it('should handle batch items one after the other by default', async () => {
+            const { methods, maxActive } = createTrackedMethods();
+            const server = createJsonRpcServer(methods);
+
+            await server.handleJsonRpcRequest([
+                createJsonRpcRequest('wait', 1, { name: 'a', ms: 5 }),
+                createJsonRpcRequest('wait', 2, { name: 'b', ms: 5 }),
+            ]);
+
+            expect(maxActive()).toBe(1);
+        });
+
+        it('should handle batch items concurrently up to batchConcurrency, keeping the response order', async () => {
+            const { methods, maxActive } = createTrackedMethods();
+            const server = createJsonRpcServer(methods, { batchConcurrency: 2 });
+
+            const result = await server.handleJsonRpcRequest([
+                createJsonRpcRequest('wait', 1, { name: 'a', ms: 30 }),
+                createJsonRpcRequest('wait', 2, { name: 'b', ms: 5 }),
+                createJsonRpcNotification('wait', { name: 'c', ms: 5 }),
+                createJsonRpcRequest('wait', 3, { name: 'd', ms: 5 }),
+            ]);
+
+            expect(maxActive()).toBe(2);
+            expect(result).toEqual([
+                { jsonrpc: '2.0', id: 1, result: 'a' },
+                { jsonrpc: '2.0', id: 2, result: 'b' },
+                { jsonrpc: '2.0', id: 3, result: 'd' },
+            ]);
+        });
+
+        it('should run sequential methods on their own', async () => {
+            const { methods, events } = createTrackedMethods();
+            const server = createJsonRpcServer(methods, {
+                batchConcurrency: Infinity,
+                methodOptions: { write: { sequential: true } },
+            });
+
+            await server.handleJsonRpcRequest([
+                createJsonRpcRequest('wait', 1, { name: 'a', ms: 10 }),
+                createJsonRpcRequest('write', 2, { name: 'b', ms: 5 }),
+                createJsonRpcRequest('wait', 3, { name: 'c', ms: 5 }),
+                createJsonRpcRequest('wait', 4, { name: 'd', ms: 5 }),
+            ]);
+
+            expect(events.slice(0, 4)).toEqual(['start a', 'end a', 'start b', 'end b']);
+            expect(events.slice(4, 6)).toEqual(['start c', 'start d']);
+        });
+
+        it('should answer items whose handling fails with an internal error, without failing the batch', async () => {
+            const loggerError = new Error('Log sink unavailable');
+            mockLogger.warn.mockImplementation(() => {
+                throw loggerError;
+            });
+            const server = createJsonRpcServer({ add: ({ a, b }: { a: number; b: number }) => a + b }, {
+                logger: mockLogger,
+                batchConcurrency: 2,
+            });
+
+            const result = await server.handleJsonRpcRequest([
+                createJsonRpcRequest('add', 1, { a: 1, b: 2 }),
+                createJsonRpcRequest('unknown', 2),
+                createJsonRpcRequest('add', 3, { a: 3, b: 4 }),
+                createJsonRpcRequest('add', 4, { a: 5, b: 6 }),
+            ]);
+
+            expect(result).toEqual([
+                { jsonrpc: '2.0', id: 1, result: 3 },
+                { jsonrpc: '2.0', id: 2, error: { code: JSONRPC_ERROR_CODES.INTERNAL_ERROR, message: 'Internal error' } },
+                { jsonrpc: '2.0', id: 3, result: 7 },
+                { jsonrpc: '2.0', id: 4, result: 11 },
+            ]);
+            expect(mockLogger.error).toHaveBeenCalledWith('JSON-RPC batch item failed', {
+                method: 'unknown',
+                id: 2,
+                error: loggerError,
+            });
+        });
+
+        it('should answer items whose error mapping fails with an internal error, without failing the batch', async () => {
+            const mapperError = new Error('Mapper bug');
+            mockLogger.error.mockImplementation(() => {
+                throw new Error('Log sink unavailable');
+            });
+            const server = createJsonRpcServer(
+                {
+                    add: ({ a, b }: { a: number; b: number }) => a + b,
+                    crash: () => {
+                        throw new Error('Boom');
+                    },
+                },
+                {
+                    logger: mockLogger,
+                    batchConcurrency: 2,
+                    errorMapper: () => {
+                        throw mapperError;
+                    },
+                },
+            );
+
+            const result = await server.handleJsonRpcRequest([
+                createJsonRpcRequest('add', 1, { a: 1, b: 2 }),
+                createJsonRpcRequest('crash', 2),
+                createJsonRpcRequest('add', 3, { a: 3, b: 4 }),
+            ]);
+
+            expect(result).toEqual([
+                { jsonrpc: '2.0', id: 1, result: 3 },
+                { jsonrpc: '2.0', id: 2, error: { code: JSONRPC_ERROR_CODES.INTERNAL_ERROR, message: 'Internal error' } },
+                { jsonrpc: '2.0', id: 3, result: 7 },
+            ]);
+            expect(mockLogger.error).toHaveBeenCalledWith('JSON-RPC batch item failed', expect.objectContaining({ method: 'crash', id: 2 }));
+        });
+
+        it('should reject batch concurrencies that are not positive integers', () => {
+            for (const batchConcurrency of [0, -1, 1.5, NaN]) {
+                expect(() => createJsonRpcServer({}, { batchConcurrency })).toThrow(
+                    `JSON-RPC batchConcurrency must be a positive integer or Infinity, got ${batchConcurrency}`,
+                );
+            }
+            expect(() => createJsonRpcServer({}, { batchConcurrency: Infinity })).not.toThrow();
+        });
     });
 
     describe('server options', () => {
@@ -376,7 +1229,7 @@ describe('createJsonRpcServer', () => {
 
             await server.handleJsonRpcRequest(createJsonRpcRequest('unknown', 1));
 
-            expect(consoleSpy).toHaveBeenCalledWith('JSON-RPC method not found: unknown');
+            expect(consoleSpy).toHaveBeenCalledWith('JSON-RPC method not found', { method: 'unknown', id: 1 });
             consoleSpy.mockRestore();
         });
 
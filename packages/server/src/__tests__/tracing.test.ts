@@ -0,0 +1,176 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createJsonRpcServer, JsonRpcMethodMap } from '../index.js';
+import {
+    createJsonRpcNotification,
+    createJsonRpcRequest,
+    JSONRPC_ERROR_CODES,
+    JSONRPC_SPAN_STATUS,
+    JsonRpcException,
+    JsonRpcSpanOptions,
+    JsonRpcTracer,
+} from '@ts-json-rpc/core';
+
+describe('tracing', () => {
+    const failure = new Error('Disk full');
+    const methods: JsonRpcMethodMap = {
+        add: (params: { a: number; b: number }) => params.a + params.b,
+        save: () => {
+            throw failure;
+        },
+        withdraw: () => {
+            throw new JsonRpcException(-32001, 'Insufficient funds');
+        },
+    };
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+    /**
+     * Creates a tracer recording its spans in memory.
+     */
+    function createTracer() {
+        const spans: {
+            name: string;
+            options: JsonRpcSpanOptions;
+            attributes: Record<string, unknown>;
+            status?: { code: number; message?: string };
+            exceptions: Error[];
+            ended: boolean;
+        }[] = [];
+        const tracer: JsonRpcTracer = {
+            startSpan(name, options) {
+                const span = { name, options, attributes: { ...options.attributes }, exceptions: [] as Error[], ended: false };
+                spans.push(span);
+                return {
+                    spanContext: () => ({ traceId: 'a'.repeat(32), spanId: 'b'.repeat(16), traceFlags: 1 }),
+                    setAttribute: (key, value) => (span.attributes[key] = value),
+                    setStatus: (status) => Object.assign(span, { status }),
+                    recordException: (exception) => span.exceptions.push(exception),
+                    end: () => (span.ended = true),
+                };
+            },
+        };
+        return { tracer, spans };
+    }
+
+    it('should create a server span per method invocation, child of the propagated traceparent', async () => {
+        const { tracer, spans } = createTracer();
+        const server = createJsonRpcServer(methods, { tracer });
+
+        const response = await server.handleJsonRpcRequest(
+            { ...createJsonRpcRequest('add', 1, { a: 1, b: 2 }), _meta: { traceparent } },
+        );
+
+        expect(response).toEqual({ jsonrpc: '2.0', id: 1, result: 3 });
+        expect(spans).toEqual([
+            {
+                name: 'add',
+                options: {
+                    kind: 'server',
+                    attributes: expect.any(Object),
+                    parent: { traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7', traceFlags: 1 },
+                },
+                attributes: {
+                    'rpc.system': 'jsonrpc',
+                    'rpc.method': 'add',
+                    'rpc.jsonrpc.version': '2.0',
+                    'rpc.jsonrpc.request_id': '1',
+                },
+                exceptions: [],
+                ended: true,
+            },
+        ]);
+    });
+
+    it('should start root spans when no valid traceparent is propagated', async () => {
+        const { tracer, spans } = createTracer();
+        const server = createJsonRpcServer(methods, { tracer });
+
+        await server.handleJsonRpcRequest(createJsonRpcRequest('add', 1, { a: 1, b: 2 }));
+        await server.handleJsonRpcRequest({ ...createJsonRpcRequest('add', 2, { a: 1, b: 2 }), _meta: { traceparent: 'invalid' } });
+
+        expect(spans.map((span) => span.options.parent)).toEqual([undefined, undefined]);
+    });
+
+    it('should record JSON-RPC error codes as span status', async () => {
+        const { tracer, spans } = createTracer();
+        const server = createJsonRpcServer(methods, { tracer, logger });
+
+        await server.handleJsonRpcRequest(createJsonRpcRequest('withdraw', 1));
+        await server.handleJsonRpcRequest(createJsonRpcRequest('unknown', 2));
+
+        expect(spans[0].attributes).toMatchObject({
+            'rpc.jsonrpc.error_code': -32001,
+            'rpc.jsonrpc.error_message': 'Insufficient funds',
+        });
+        expect(spans[0].status).toEqual({ code: JSONRPC_SPAN_STATUS.ERROR, message: 'Insufficient funds' });
+        expect(spans[1].attributes['rpc.jsonrpc.error_code']).toBe(JSONRPC_ERROR_CODES.METHOD_NOT_FOUND);
+        expect(spans.every((span) => span.ended)).toBe(true);
+    });
+
+    it('should record thrown errors as exceptions, with the code of the error sent', async () => {
+        const { tracer, spans } = createTracer();
+        const server = createJsonRpcServer(methods, { tracer, logger });
+
+        await server.handleJsonRpcRequest(createJsonRpcRequest('save', 1));
+
+        expect(spans[0].exceptions).toEqual([failure]);
+        expect(spans[0].attributes['rpc.jsonrpc.error_code']).toBe(JSONRPC_ERROR_CODES.INTERNAL_ERROR);
+        expect(spans[0].status).toEqual({ code: JSONRPC_SPAN_STATUS.ERROR, message: 'Internal error' });
+    });
+
+    it('should trace notifications and the errors of their handlers', async () => {
+        const { tracer, spans } = createTracer();
+        const server = createJsonRpcServer(methods, { tracer, logger });
+
+        await server.handleJsonRpcRequest(createJsonRpcNotification('save'));
+
+        expect(spans[0].name).toBe('save');
+        expect(spans[0].attributes).not.toHaveProperty('rpc.jsonrpc.request_id');
+        expect(spans[0].status).toEqual({ code: JSONRPC_SPAN_STATUS.ERROR, message: 'Disk full' });
+        expect(spans[0].exceptions).toEqual([failure]);
+        expect(spans[0].ended).toBe(true);
+    });
+
+    it('should log the errors of the tracer without affecting responses', async () => {
+        const tracerError = new Error('Exporter unavailable');
+        const failingLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+        const server = createJsonRpcServer(methods, {
+            logger: failingLogger,
+            tracer: {
+                startSpan: () => {
+                    throw tracerError;
+                },
+            },
+        });
+
+        const response = await server.handleJsonRpcRequest(createJsonRpcRequest('add', 1, { a: 1, b: 2 }));
+
+        expect(response).toEqual({ jsonrpc: '2.0', id: 1, result: 3 });
+        expect(failingLogger.error).toHaveBeenCalledWith('JSON-RPC tracer failed', { method: 'add', error: tracerError });
+    });
+
+    it('should log the errors of spans without affecting responses', async () => {
+        const spanError = new Error('Span already ended');
+        const failingLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+        const server = createJsonRpcServer(methods, {
+            logger: failingLogger,
+            tracer: {
+                startSpan: () => ({
+                    spanContext: () => ({ traceId: 'a'.repeat(32), spanId: 'b'.repeat(16), traceFlags: 1 }),
+                    setAttribute: vi.fn(),
+                    setStatus: () => {
+                        throw spanError;
+                    },
+                    end: () => {
+                        throw spanError;
+                    },
+                }),
+            },
+        });
+
+        const response = await server.handleJsonRpcRequest(createJsonRpcRequest('withdraw', 1));
+
+        expect(response).toMatchObject({ id: 1, error: { code: -32001 } });
+        expect(failingLogger.error).toHaveBeenCalledWith('JSON-RPC tracer failed', { method: 'withdraw', error: spanError });
+    });
+});
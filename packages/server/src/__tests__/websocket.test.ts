@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createJsonRpcServer, createWebSocketServerChannel, JsonRpcWebSocketLike } from '../index.js';
+import { createJsonRpcRequest } from '@ts-json-rpc/core';
+
+/**
+ * Minimal `ws`-like socket recording sent frames.
+ */
+function createMockSocket() {
+    const listeners = new Map<string, Set<(data?: unknown) => void>>();
+    const socket = {
+        readyState: 1,
+        sent: [] as string[],
+        send: vi.fn((data: string) => {
+            socket.sent.push(data);
+        }),
+        close: vi.fn(() => {
+            socket.readyState = 3;
+            socket.emit('close');
+        }),
+        terminate: vi.fn(() => {
+            socket.readyState = 3;
+            socket.emit('close');
+        }),
+        ping: vi.fn(),
+        on: vi.fn((event: string, listener: (data?: unknown) => void) => {
+            if (!listeners.has(event)) {
+                listeners.set(event, new Set());
+            }
+            listeners.get(event)!.add(listener);
+            return socket;
+        }),
+        off: vi.fn((event: string, listener: (data?: unknown) => void) => {
+            listeners.get(event)?.delete(listener);
+            return socket;
+        }),
+        emit: (event: string, data?: unknown) => {
+            listeners.get(event)?.forEach((listener) => listener(data));
+        },
+        listenerCount: (event: string) => listeners.get(event)?.size ?? 0,
+    };
+    return socket;
+}
+
+describe('createWebSocketServerChannel', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should serve JSON-RPC requests over the socket', async () => {
+        const socket = createMockSocket();
+        const server = createJsonRpcServer({ add: (params: { a: number; b: number }) => params.a + params.b });
+
+        server.connect(createWebSocketServerChannel(socket as JsonRpcWebSocketLike));
+        socket.emit('message', new TextEncoder().encode(JSON.stringify(createJsonRpcRequest('add', 1, { a: 1, b: 2 }))));
+
+        await vi.waitFor(() => expect(socket.sent).toHaveLength(1));
+        expect(JSON.parse(socket.sent[0])).toEqual({ jsonrpc: '2.0', id: 1, result: 3 });
+    });
+
+    it('should hand frames that are not JSON over as text', () => {
+        const socket = createMockSocket();
+        const listener = vi.fn();
+
+        createWebSocketServerChannel(socket as JsonRpcWebSocketLike).onMessage(listener);
+        socket.emit('message', '{ not json');
+        socket.emit('message', '{"jsonrpc":"2.0","method":"log"}');
+
+        expect(listener).toHaveBeenNthCalledWith(1, '{ not json');
+        expect(listener).toHaveBeenNthCalledWith(2, { jsonrpc: '2.0', method: 'log' });
+    });
+
+    it('should refuse to send on a socket that is not open', () => {
+        const socket = createMockSocket();
+        socket.readyState = 3;
+
+        const channel = createWebSocketServerChannel(socket as JsonRpcWebSocketLike);
+
+        expect(() => channel.send(createJsonRpcRequest('test', 1))).toThrow('WebSocket is not open');
+    });
+
+    it('should report the socket closing', () => {
+        const socket = createMockSocket();
+        const onClose = vi.fn();
+
+        const channel = createWebSocketServerChannel(socket as JsonRpcWebSocketLike);
+        channel.onClose?.(onClose);
+        channel.close();
+
+        expect(socket.close).toHaveBeenCalled();
+        expect(onClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ping the socket and terminate it when a pong is missing', () => {
+        vi.useFakeTimers();
+        const socket = createMockSocket();
+
+        createWebSocketServerChannel(socket as JsonRpcWebSocketLike, { heartbeatInterval: 1000 });
+
+        vi.advanceTimersByTime(1000);
+        expect(socket.ping).toHaveBeenCalledTimes(1);
+        socket.emit('pong');
+
+        vi.advanceTimersByTime(1000);
+        expect(socket.ping).toHaveBeenCalledTimes(2);
+        expect(socket.terminate).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(1000);
+        expect(socket.terminate).toHaveBeenCalledTimes(1);
+        expect(socket.listenerCount('pong')).toBe(0);
+
+        vi.advanceTimersByTime(5000);
+        expect(socket.ping).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop the heartbeat when the socket closes', () => {
+        vi.useFakeTimers();
+        const socket = createMockSocket();
+
+        createWebSocketServerChannel(socket as JsonRpcWebSocketLike, { heartbeatInterval: 1000 });
+        socket.emit('close');
+
+        vi.advanceTimersByTime(5000);
+        expect(socket.ping).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,206 @@
+import { createJsonRpcError, createStandardJsonRpcError, JSONRPCError, JsonRpcException } from '@ts-json-rpc/core';
+
+import { JsonRpcServerLogger } from './logger.js';
+
+/**
+ * How much information about errors the server sends to clients.
+ * - `'production'`: only the `code`, `message` and `data` of JSON-RPC errors, and a bare "Internal error" otherwise
+ * - `'development'`: additionally, the stack trace and cause chain of the thrown error in `error.data.debug`
+ */
+export type JsonRpcServerMode = 'production' | 'development';
+
+/**
+ * Information about the request whose handler threw an error, passed to the error mapper.
+ */
+export interface JsonRpcErrorMapperRequest {
+    /** Name of the called method */
+    method: string;
+    /** ID of the request */
+    id: string | number;
+}
+
+/**
+ * Maps an error thrown while handling a request to the JSON-RPC error sent to the client,
+ * e.g. to translate database or validation errors. Return `undefined` to use the default mapping:
+ * JSON-RPC errors are sent as is, other errors as "Internal error".
+ *
+ * @param error The thrown error
+ * @param request The request whose handler threw the error
+ * @returns The JSON-RPC error (or `JsonRpcException`) to send, or undefined
+ *
+ * @example
+ * ```typescript
+ * const errorMapper: JsonRpcErrorMapper = (error) => {
+ *   if (error instanceof NotFoundError) {
+ *     return createJsonRpcError(-32004, 'Not found', { resource: error.resource });
+ *   }
+ * };
+ * ```
+ */
+export type JsonRpcErrorMapper = (error: unknown, request: JsonRpcErrorMapperRequest) => JSONRPCError | undefined;
+
+/**
+ * Debug information about a thrown error, sent in development mode.
+ */
+export interface JsonRpcErrorDebugInfo {
+    /** Name of the error, e.g. `TypeError` */
+    name?: string;
+    /** Message of the error */
+    message: string;
+    /** Stack trace of the error */
+    stack?: string;
+    /** Debug information about the cause of the error, if any */
+    cause?: JsonRpcErrorDebugInfo;
+}
+
+/**
+ * Options of the error serializer.
+ *
+ * @internal
+ */
+export interface JsonRpcErrorSerializerOptions {
+    /** How much information about errors is sent */
+    mode: JsonRpcServerMode;
+    /** Optional hook mapping thrown errors to JSON-RPC errors */
+    errorMapper?: JsonRpcErrorMapper;
+    /** Keys whose values are redacted from error data */
+    redactKeys: string[];
+    /** Logs errors thrown by the error mapper */
+    logger: JsonRpcServerLogger;
+}
+
+/**
+ * Converts an error thrown while handling a request into the JSON-RPC error sent to the client.
+ *
+ * @internal
+ */
+export type JsonRpcErrorSerializer = (error: unknown, request: JsonRpcErrorMapperRequest) => JSONRPCError;
+
+/** Value replacing redacted keys in error data */
+const REDACTED = '[REDACTED]';
+
+/** Maximum depth of the cause chains and error data walked through */
+const MAX_DEPTH = 10;
+
+/**
+ * Checks whether a thrown value carries a JSON-RPC error, i.e. is a `JsonRpcException`
+ * or an object with a numeric `code` and a string `message`.
+ *
+ * @param error The thrown value
+ * @returns True if the value can be sent as a JSON-RPC error
+ *
+ * @internal
+ */
+export function isJsonRpcErrorLike(error: unknown): error is JSONRPCError {
+    return (
+        error instanceof JsonRpcException ||
+        (typeof error === 'object' &&
+            error !== null &&
+            'code' in error &&
+            typeof error.code === 'number' &&
+            'message' in error &&
+            typeof error.message === 'string')
+    );
+}
+
+/**
+ * Checks whether a value is a plain object (or an array) whose keys can be walked through.
+ *
+ * @param value The value to check
+ * @returns True if the value is an array or an object created by a literal
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const prototype: unknown = Object.getPrototypeOf(value);
+    return Array.isArray(value) || prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Returns a copy of error data whose redacted keys are replaced, at any depth.
+ * Objects are copied the way they are serialized to JSON: through their `toJSON` method if any,
+ * otherwise as their own enumerable properties, so class instances and errors are redacted too.
+ *
+ * @param value The error data
+ * @param keys The keys to redact
+ * @param depth The current depth
+ * @returns The redacted copy
+ */
+function redact(value: unknown, keys: Set<string>, depth = 0): unknown {
+    if (keys.size === 0 || typeof value !== 'object' || value === null || depth >= MAX_DEPTH) {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => redact(item, keys, depth + 1));
+    }
+    if ('toJSON' in value && typeof value.toJSON === 'function') {
+        return redact((value.toJSON as () => unknown)(), keys, depth + 1);
+    }
+
+    const copy: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+        copy[key] = keys.has(key) ? REDACTED : redact(item, keys, depth + 1);
+    }
+    return copy;
+}
+
+/**
+ * Describes a thrown value and its cause chain.
+ *
+ * @param error The thrown value
+ * @param depth The current depth in the cause chain
+ * @returns The debug information
+ */
+function describeError(error: unknown, depth = 0): JsonRpcErrorDebugInfo {
+    if (!(error instanceof Error)) {
+        return { message: isJsonRpcErrorLike(error) ? error.message : String(error) };
+    }
+
+    const info: JsonRpcErrorDebugInfo = { name: error.name, message: error.message, stack: error.stack };
+    if (error.cause !== undefined && depth + 1 < MAX_DEPTH) {
+        info.cause = describeError(error.cause, depth + 1);
+    }
+    return info;
+}
+
+/**
+ * Creates the function converting errors thrown by method handlers into the JSON-RPC errors sent to clients.
+ * Only the `code`, `message` and `data` of the error are kept, and configured keys are redacted from its data.
+ * In development mode, `data` carries debug information about the thrown error under `debug`,
+ * when it is an object or undefined.
+ *
+ * @param options The serializer options
+ * @returns The error serializer
+ *
+ * @internal
+ */
+export function createErrorSerializer(options: JsonRpcErrorSerializerOptions): JsonRpcErrorSerializer {
+    const redactKeys = new Set(options.redactKeys);
+
+    function mapError(error: unknown, request: JsonRpcErrorMapperRequest): JSONRPCError {
+        if (options.errorMapper) {
+            try {
+                const mapped = options.errorMapper(error, request);
+                if (isJsonRpcErrorLike(mapped)) {
+                    return mapped;
+                }
+            } catch (mapperError) {
+                options.logger.error('JSON-RPC error mapper failed', { ...request, error: mapperError });
+            }
+        }
+
+        return isJsonRpcErrorLike(error) ? error : createStandardJsonRpcError('INTERNAL_ERROR');
+    }
+
+    return (error, request) => {
+        const mapped = mapError(error, request);
+        let data = redact(mapped.data, redactKeys);
+
+        if (options.mode === 'development' && (data === undefined || (isPlainObject(data) && !Array.isArray(data)))) {
+            data = { ...data, debug: describeError(error) };
+        }
+
+        return createJsonRpcError(mapped.code, mapped.message, data);
+    };
+}
@@ -0,0 +1,154 @@
+import { JSONRPCResponse } from '@ts-json-rpc/core';
+
+import { JsonRpcServerLogger } from './logger.js';
+
+/**
+ * Event of a request about to be handled, passed to `onRequest`.
+ *
+ * @template TContext The type of the context object
+ */
+export interface JsonRpcRequestEvent<TContext = unknown> {
+    /** Name of the called method */
+    method: string;
+    /** ID of the request */
+    id: string | number;
+    /** Parameters of the request */
+    params: unknown;
+    /** Context the request is handled with */
+    context: TContext;
+}
+
+/**
+ * Event of a notification about to be handled, passed to `onNotification`.
+ *
+ * @template TContext The type of the context object
+ */
+export interface JsonRpcNotificationEvent<TContext = unknown> {
+    /** Name of the notified method */
+    method: string;
+    /** Parameters of the notification */
+    params: unknown;
+    /** Context the notification is handled with */
+    context: TContext;
+}
+
+/**
+ * Event of a handled request, passed to `onResponse`.
+ *
+ * @template TContext The type of the context object
+ */
+export interface JsonRpcResponseEvent<TContext = unknown> extends JsonRpcRequestEvent<TContext> {
+    /** Time spent handling the request, in milliseconds */
+    duration: number;
+    /** Whether the request was answered with a result or an error */
+    outcome: 'success' | 'error';
+    /** The response sent back */
+    response: JSONRPCResponse;
+}
+
+/**
+ * Event of an error thrown while handling a request or notification, passed to `onError`.
+ *
+ * @template TContext The type of the context object
+ */
+export interface JsonRpcErrorEvent<TContext = unknown> {
+    /** Name of the called method */
+    method: string;
+    /** ID of the request, or null for notifications */
+    id: string | number | null;
+    /** Parameters of the request */
+    params: unknown;
+    /** Context the request was handled with */
+    context: TContext;
+    /** Time spent handling the request until the error, in milliseconds */
+    duration: number;
+    /** The thrown error, before it is mapped to a JSON-RPC error */
+    error: unknown;
+}
+
+/**
+ * Event of a handled batch, passed to `onBatch`.
+ *
+ * @template TContext The type of the context object
+ */
+export interface JsonRpcBatchEvent<TContext = unknown> {
+    /** Number of items in the batch */
+    size: number;
+    /** Number of responses sent back */
+    responses: number;
+    /** Time spent handling the batch, in milliseconds */
+    duration: number;
+    /** Context the batch was handled with */
+    context: TContext;
+}
+
+/**
+ * Lifecycle hooks of the server, e.g. to record metrics or audit logs.
+ * Hooks are called synchronously; errors they throw (or reject with) are logged and otherwise ignored.
+ * Protocol messages (`$/cancelRequest`, `$/unsubscribe`, `$/streamAck`) and invalid requests do not trigger them.
+ *
+ * @template TContext The type of the context object
+ *
+ * @example
+ * ```typescript
+ * const hooks: JsonRpcServerHooks = {
+ *   onResponse: ({ method, duration, outcome }) => {
+ *     metrics.histogram('rpc_duration_ms', duration, { method, outcome });
+ *   },
+ *   onError: ({ method, error }) => errorTracker.capture(error, { method }),
+ * };
+ * ```
+ */
+export interface JsonRpcServerHooks<TContext = unknown> {
+    /** Called before a request is handled */
+    onRequest?: (event: JsonRpcRequestEvent<TContext>) => void;
+    /** Called before a notification is handled */
+    onNotification?: (event: JsonRpcNotificationEvent<TContext>) => void;
+    /** Called once a request has been handled, with its response */
+    onResponse?: (event: JsonRpcResponseEvent<TContext>) => void;
+    /** Called when a request or notification handler (or middleware) throws */
+    onError?: (event: JsonRpcErrorEvent<TContext>) => void;
+    /** Called once all the items of a batch have been handled */
+    onBatch?: (event: JsonRpcBatchEvent<TContext>) => void;
+}
+
+/**
+ * Calls a hook of the server, shielding request handling from its errors.
+ *
+ * @internal
+ */
+export type JsonRpcHookRunner<TContext> = <THook extends keyof JsonRpcServerHooks<TContext>>(
+    hook: THook,
+    event: Parameters<NonNullable<JsonRpcServerHooks<TContext>[THook]>>[0],
+) => void;
+
+/**
+ * Creates the function calling the hooks of the server.
+ *
+ * @param hooks The hooks
+ * @param logger The logger reporting hook failures
+ * @returns The hook runner
+ *
+ * @internal
+ */
+export function createHookRunner<TContext>(
+    hooks: JsonRpcServerHooks<TContext>,
+    logger: JsonRpcServerLogger,
+): JsonRpcHookRunner<TContext> {
+    return (hook, event) => {
+        const callback = hooks[hook] as ((event: unknown) => unknown) | undefined;
+        if (!callback) {
+            return;
+        }
+
+        const report = (error: unknown): void => logger.error('JSON-RPC hook failed', { hook, error });
+        try {
+            const result = callback(event);
+            if (result instanceof Promise) {
+                result.catch(report);
+            }
+        } catch (error) {
+            report(error);
+        }
+    };
+}
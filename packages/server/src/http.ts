@@ -0,0 +1,267 @@
+import { isJSONRPCErrorResponse, JSONRPC_ERROR_CODES } from '@ts-json-rpc/core';
+
+import type { JsonRpcServerInstance } from './index.js';
+
+/**
+ * Minimal incoming HTTP request interface, as implemented by Node's `http.IncomingMessage`
+ * (and the request objects of frameworks built on it, such as Express).
+ */
+export interface JsonRpcHttpRequestLike {
+    /** HTTP method */
+    method?: string;
+    /** Request URL */
+    url?: string;
+    /** Request headers, with lower-cased names */
+    headers: Record<string, string | string[] | undefined>;
+    /** Body already read and parsed by a framework (e.g. `express.json()`), if any */
+    body?: unknown;
+    /** Subscribes to body chunks, the end of the body and stream errors */
+    on(event: 'data', listener: (chunk: unknown) => void): unknown;
+    on(event: 'end', listener: () => void): unknown;
+    on(event: 'error', listener: (error: unknown) => void): unknown;
+    /** Stops reading the body */
+    destroy?(): void;
+}
+
+/**
+ * Minimal outgoing HTTP response interface, as implemented by Node's `http.ServerResponse`.
+ */
+export interface JsonRpcHttpResponseLike {
+    /** HTTP status code */
+    statusCode: number;
+    /** Whether the status and headers were already sent */
+    readonly headersSent?: boolean;
+    /** Sets a response header */
+    setHeader(name: string, value: string | number): unknown;
+    /** Sends the body and ends the response */
+    end(body?: string): unknown;
+    /** Aborts the response, e.g. when it fails after its headers were sent */
+    destroy?(error?: Error): unknown;
+}
+
+/**
+ * Default context passed to method handlers by the Node HTTP handler.
+ */
+export interface JsonRpcHttpContext {
+    /** The incoming HTTP request */
+    request: JsonRpcHttpRequestLike;
+}
+
+/**
+ * Configuration options for the Node HTTP handler.
+ *
+ * @template TContext The type of the context object passed to method handlers
+ *
+ * @example
+ * ```typescript
+ * const options: JsonRpcNodeHttpHandlerOptions<{ userId?: string }> = {
+ *   maxBodySize: 64 * 1024,
+ *   getContext: (request) => ({ userId: request.headers['x-user-id'] as string | undefined }),
+ * };
+ * ```
+ */
+export interface JsonRpcNodeHttpHandlerOptions<TContext = JsonRpcHttpContext> {
+    /**
+     * Maximum size of the request body in bytes. Larger bodies are answered with
+     * 413 Payload Too Large. Defaults to 1 MiB.
+     */
+    maxBodySize?: number;
+    /**
+     * Builds the context passed to method handlers from the HTTP request
+     * (e.g. the authenticated user). Defaults to `{ request }`.
+     *
+     * @param request The incoming HTTP request
+     * @returns The context, or a promise resolving to it
+     */
+    getContext?: (request: JsonRpcHttpRequestLike) => TContext | Promise<TContext>;
+}
+
+/**
+ * HTTP status codes of single error responses, by JSON-RPC error code.
+ * Other errors (e.g. application errors) and batches are answered with 200 OK.
+ */
+const ERROR_STATUS_CODES: Record<number, number> = {
+    [JSONRPC_ERROR_CODES.PARSE_ERROR]: 400,
+    [JSONRPC_ERROR_CODES.INVALID_REQUEST]: 400,
+    [JSONRPC_ERROR_CODES.METHOD_NOT_FOUND]: 404,
+    [JSONRPC_ERROR_CODES.INVALID_PARAMS]: 400,
+    [JSONRPC_ERROR_CODES.INTERNAL_ERROR]: 500,
+};
+
+/**
+ * Error raised while reading a request body that exceeds the size limit.
+ */
+class PayloadTooLargeError extends Error {
+    constructor() {
+        super('Payload Too Large');
+        this.name = 'PayloadTooLargeError';
+    }
+}
+
+/**
+ * Reads the body of a request as text, up to a size limit.
+ *
+ * @param request The incoming HTTP request
+ * @param maxBodySize Maximum size of the body in bytes
+ * @returns A promise that resolves to the body text
+ */
+function readBody(request: JsonRpcHttpRequestLike, maxBodySize: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Uint8Array[] = [];
+        let size = 0;
+        let done = false;
+
+        request.on('data', (chunk) => {
+            if (done) {
+                return;
+            }
+
+            const bytes = typeof chunk === 'string' ? new TextEncoder().encode(chunk) : (chunk as Uint8Array);
+            size += bytes.byteLength;
+            if (size > maxBodySize) {
+                done = true;
+                request.destroy?.();
+                reject(new PayloadTooLargeError());
+                return;
+            }
+            chunks.push(bytes);
+        });
+        request.on('end', () => {
+            if (done) {
+                return;
+            }
+
+            done = true;
+            const body = new Uint8Array(size);
+            let offset = 0;
+            for (const chunk of chunks) {
+                body.set(chunk, offset);
+                offset += chunk.byteLength;
+            }
+            resolve(new TextDecoder().decode(body));
+        });
+        request.on('error', (error) => {
+            if (!done) {
+                done = true;
+                reject(error instanceof Error ? error : new Error(String(error)));
+            }
+        });
+    });
+}
+
+/**
+ * Sends a plain text error response.
+ *
+ * @param response The outgoing HTTP response
+ * @param statusCode The HTTP status code
+ * @param message The response body
+ */
+function sendText(response: JsonRpcHttpResponseLike, statusCode: number, message: string): void {
+    response.statusCode = statusCode;
+    response.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    response.end(message);
+}
+
+/**
+ * Gets the HTTP status code for the value returned by `handleJsonRpcRequest`.
+ *
+ * @param result The JSON-RPC response (or batch of responses)
+ * @returns The HTTP status code
+ */
+function getStatusCode(result: unknown): number {
+    if (isJSONRPCErrorResponse(result)) {
+        return ERROR_STATUS_CODES[result.error.code] ?? 200;
+    }
+    return 200;
+}
+
+/**
+ * Creates a framework-neutral `(request, response) => void` handler serving a JSON-RPC server over HTTP,
+ * usable with Node's `http.createServer` and as an Express or Connect route handler.
+ *
+ * - Only `POST` requests are accepted (405 otherwise), with a JSON content type if one is given (415 otherwise)
+ * - The body is read up to `maxBodySize` (413 beyond), unless a framework already parsed it into `request.body`
+ * - Responses are sent as `application/json`; notifications and notification-only batches get 204 No Content
+ * - Single error responses map to HTTP status codes: parse errors, invalid requests and invalid params to 400,
+ *   unknown methods to 404, internal errors to 500; application errors and batches are sent with 200
+ * - Unexpected failures (e.g. `getContext` throwing) are logged with the server logger and answered with
+ *   500 Internal Server Error, or abort the response if its headers were already sent
+ *
+ * @template TContext The type of the context object passed to method handlers
+ * @param server The JSON-RPC server to serve
+ * @param options Optional configuration for the handler
+ * @returns A Node-style HTTP request handler
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from 'node:http';
+ *
+ * const handler = createNodeHttpHandler(server, {
+ *   getContext: (request) => ({ userId: request.headers['x-user-id'] }),
+ * });
+ *
+ * createServer(handler).listen(8080);
+ * // or: app.post('/rpc', handler);
+ * ```
+ */
+export function createNodeHttpHandler<TContext = JsonRpcHttpContext>(
+    server: JsonRpcServerInstance<TContext>,
+    options: JsonRpcNodeHttpHandlerOptions<TContext> = {},
+): (request: JsonRpcHttpRequestLike, response: JsonRpcHttpResponseLike) => void {
+    const maxBodySize = options.maxBodySize ?? 1024 * 1024;
+    const getContext = options.getContext ?? ((request): TContext => ({ request }) as TContext);
+
+    /**
+     * Handles a single HTTP request.
+     *
+     * @param request The incoming HTTP request
+     * @param response The outgoing HTTP response
+     */
+    async function handle(request: JsonRpcHttpRequestLike, response: JsonRpcHttpResponseLike): Promise<void> {
+        if (request.method !== 'POST') {
+            response.setHeader('Allow', 'POST');
+            sendText(response, 405, 'Method Not Allowed');
+            return;
+        }
+
+        const contentType = request.headers['content-type'];
+        if (typeof contentType === 'string' && !contentType.includes('json')) {
+            sendText(response, 415, 'Unsupported Media Type');
+            return;
+        }
+
+        let payload: unknown;
+        try {
+            payload = request.body !== undefined ? request.body : await readBody(request, maxBodySize);
+        } catch (error) {
+            if (error instanceof PayloadTooLargeError) {
+                sendText(response, 413, 'Payload Too Large');
+            } else {
+                sendText(response, 400, 'Bad Request');
+            }
+            return;
+        }
+
+        const result = await server.handleJsonRpcRequest(payload, await getContext(request));
+        if (result === null) {
+            response.statusCode = 204;
+            response.end();
+            return;
+        }
+
+        response.statusCode = getStatusCode(result);
+        response.setHeader('Content-Type', 'application/json; charset=utf-8');
+        response.end(JSON.stringify(result));
+    }
+
+    return (request, response) => {
+        handle(request, response).catch((error: unknown) => {
+            server.logger.error('JSON-RPC HTTP request failed', { error });
+            if (!response.headersSent) {
+                sendText(response, 500, 'Internal Server Error');
+            } else {
+                response.destroy?.(error instanceof Error ? error : new Error(String(error)));
+            }
+        });
+    };
+}
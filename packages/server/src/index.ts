@@ -3,14 +3,95 @@ import {
     JSONRPCNotification,
     JSONRPCResponse,
     JSONRPCSuccessResponse,
-    JSONRPCErrorResponse,
+    createJsonRpcError,
     createJsonRpcErrorResponse,
     createStandardJsonRpcError,
     isJSONRPCRequest,
     isJSONRPCNotification,
-    JSONRPC_ERROR_CODES,
+    JsonRpcContract,
+    JsonRpcContractParams,
+    JsonRpcContractResult,
+    JsonRpcSchema,
+    JsonRpcValidator,
+    toJsonRpcValidator,
+    isJsonRpcCancelNotification,
+    isJsonRpcResponseMessage,
+    JSONRPCMessage,
+    JsonRpcMessageChannel,
+    isJsonRpcSubscriptionNotification,
+    JSONRPC_UNSUBSCRIBE_METHOD,
+    JsonRpcUnsubscribeParams,
+    createJsonRpcStreamChunkNotification,
+    isJsonRpcStreamAckNotification,
+    isJsonRpcStreamChunkNotification,
+    InvalidParamsException,
+    JSONRPC_SUBSCRIPTIONS_NOT_SUPPORTED,
+    JsonRpcException,
+    MethodNotFoundException,
+    RequestCancelledException,
+    JsonRpcTracer,
 } from '@ts-json-rpc/core';
 
+import { createErrorSerializer, isJsonRpcErrorLike, JsonRpcErrorMapper, JsonRpcServerMode } from './errors.js';
+import { createHookRunner, JsonRpcServerHooks } from './hooks.js';
+import { createConsoleLogger, JsonRpcServerLogger } from './logger.js';
+import { composeMiddleware, JsonRpcMiddleware } from './middleware.js';
+import {
+    createSubscriptionRegistry,
+    JsonRpcManagedSubscription,
+    JsonRpcServerSubscription,
+    JsonRpcSubscriptionRegistry,
+} from './subscriptions.js';
+import { JsonRpcMethodTrace, startMethodTrace } from './tracing.js';
+
+export type { JsonRpcErrorDebugInfo, JsonRpcErrorMapper, JsonRpcErrorMapperRequest, JsonRpcServerMode } from './errors.js';
+export type {
+    JsonRpcBatchEvent,
+    JsonRpcErrorEvent,
+    JsonRpcNotificationEvent,
+    JsonRpcRequestEvent,
+    JsonRpcResponseEvent,
+    JsonRpcServerHooks,
+} from './hooks.js';
+export * from './http.js';
+export type { JsonRpcLogFields, JsonRpcServerLogger } from './logger.js';
+export type { JsonRpcMiddleware, JsonRpcMiddlewareNext } from './middleware.js';
+export type { JsonRpcServerSubscription } from './subscriptions.js';
+export * from './websocket.js';
+
+/**
+ * Information about the request being handled, passed as the third argument of method handlers.
+ * 
+ * @example
+ * ```typescript
+ * const search: JsonRpcMethodHandler<{ query: string }, Result[]> = 
+ *   (params, context, { signal }) => searchIndex(params.query, { signal });
+ * ```
+ */
+export interface JsonRpcMethodHandlerExtra {
+    /** Name of the invoked method */
+    method: string;
+    /** ID of the request, or null for notifications */
+    id: string | number | null;
+    /**
+     * Signal aborted when the client cancels the request with a `$/cancelRequest` notification
+     * received on the same connection (see `connect`), or when the connection ends. Once aborted, the server has already answered with a "Request cancelled" error
+     * and the handler result is discarded.
+     */
+    signal: AbortSignal;
+    /**
+     * Creates a subscription on the connection the request was received on, to push events
+     * to the client later. The handler returns `subscription.id`, which the client uses
+     * to tell the events apart and to unsubscribe.
+     * Throws a "Subscriptions not supported" error (`JSONRPC_SUBSCRIPTIONS_NOT_SUPPORTED` code) outside of `connect` (e.g. over HTTP),
+     * where `$/unsubscribe` requests are answered with the same error, and subscriptions created by a failing handler are closed.
+     *
+     * @template TEvent The type of the events
+     * @returns The new subscription
+     */
+    subscribe<TEvent = unknown>(): JsonRpcServerSubscription<TEvent>;
+}
+
 /**
  * Method handler function type for JSON-RPC server methods.
  * Handles incoming JSON-RPC requests and notifications by executing the appropriate logic.
@@ -20,6 +101,7 @@ import {
  * @template TContext The type of the context object passed to all method handlers
  * @param params The parameters passed with the JSON-RPC request/notification
  * @param context Additional context data (e.g., user information, request metadata)
+ * @param extra Information about the request being handled (ID, cancellation signal)
  * @returns The result of the method execution (can be async)
  * 
  * @example
@@ -33,18 +115,28 @@ import {
  *   async (params, context) => {
  *     return await getUserById(params.id);
  *   };
+ * 
+ * const cancellableHandler: JsonRpcMethodHandler<{ url: string }, string> = 
+ *   async (params, context, { signal }) => {
+ *     const response = await fetch(params.url, { signal });
+ *     return response.text();
+ *   };
  * ```
  */
 export type JsonRpcMethodHandler<TParams = unknown, TResult = unknown, TContext = unknown> = (
     params: TParams,
     context: TContext,
+    extra: JsonRpcMethodHandlerExtra,
 ) => Promise<TResult> | TResult;
 
 /**
  * Map of method names to their corresponding handler functions.
  * This defines all the methods that the JSON-RPC server can handle.
+ * When a contract is provided, every method of the contract must be implemented
+ * and each handler is checked against the declared parameter and result types.
  * 
  * @template TContext The type of the context object passed to all method handlers
+ * @template TContract The contract describing the methods (defaults to untyped methods)
  * 
  * @example
  * ```typescript
@@ -53,9 +145,53 @@ export type JsonRpcMethodHandler<TParams = unknown, TResult = unknown, TContext
  *   greet: (params: { name: string }, context) => `Hello ${params.name}! User: ${context.userId}`,
  *   log: (params: { message: string }) => console.log(params.message),
  * };
+ * 
+ * type CalculatorContract = {
+ *   add: { params: { a: number; b: number }; result: number };
+ * };
+ * 
+ * const typedMethods: JsonRpcMethodMap<unknown, CalculatorContract> = {
+ *   add: (params) => params.a + params.b,
+ * };
  * ```
  */
-export type JsonRpcMethodMap<TContext = unknown> = Record<string, JsonRpcMethodHandler<unknown, unknown, TContext>>;
+export type JsonRpcMethodMap<TContext = unknown, TContract extends JsonRpcContract = JsonRpcContract> = {
+    [TMethod in keyof TContract]: JsonRpcMethodHandler<
+        JsonRpcContractParams<TContract, TMethod>,
+        JsonRpcContractResult<TContract, TMethod>,
+        TContext
+    >;
+};
+
+/**
+ * Per-method configuration for the JSON-RPC server.
+ * 
+ * @example
+ * ```typescript
+ * const addOptions: JsonRpcMethodOptions = {
+ *   params: createJsonSchemaValidator({
+ *     type: 'object',
+ *     properties: { a: { type: 'number' }, b: { type: 'number' } },
+ *     required: ['a', 'b'],
+ *   }),
+ * };
+ * ```
+ */
+export interface JsonRpcMethodOptions {
+    /**
+     * Optional schema the params must satisfy before the handler runs.
+     * Accepts a `JsonRpcValidator` or any Zod/Valibot-style schema with `safeParse` or `parse`.
+     * Invalid params are rejected with an "Invalid params" error whose `data.issues` lists the failing paths,
+     * and the handler receives the validated (possibly transformed) value.
+     */
+    params?: JsonRpcSchema;
+    /**
+     * Whether calls to this method in a batch must run on their own, when `batchConcurrency` allows
+     * concurrent batch items. The call waits for the earlier items to complete, and the later items
+     * wait for it. Defaults to false.
+     */
+    sequential?: boolean;
+}
 
 /**
  * Configuration options for the JSON-RPC server.
@@ -64,33 +200,70 @@ export type JsonRpcMethodMap<TContext = unknown> = Record<string, JsonRpcMethodH
  * ```typescript
  * const options: JsonRpcServerOptions = {
  *   logger: {
- *     info: (msg, ...args) => console.log(`[INFO] ${msg}`, ...args),
- *     warn: (msg, ...args) => console.warn(`[WARN] ${msg}`, ...args),
- *     error: (msg, ...args) => console.error(`[ERROR] ${msg}`, ...args),
+ *     info: (message, fields) => console.log(`[INFO] ${message}`, fields ?? {}),
+ *     warn: (message, fields) => console.warn(`[WARN] ${message}`, fields ?? {}),
+ *     error: (message, fields) => console.error(`[ERROR] ${message}`, fields ?? {}),
  *   },
  *   strictMethodHandling: true,
+ *   methodOptions: {
+ *     add: { params: addParamsSchema },
+ *     transfer: { sequential: true },
+ *   },
+ *   batchConcurrency: 8,
  * };
  * ```
  */
-export interface JsonRpcServerOptions {
+export interface JsonRpcServerOptions<TContext = unknown> {
     /**
-     * Optional logger for server operations.
+     * Optional structured logger for server operations, receiving a message and its fields.
      * If not provided, console methods will be used as defaults.
      */
-    logger?: {
-        /** Log informational messages */
-        info: (message: string, ...args: unknown[]) => void;
-        /** Log warning messages */
-        warn: (message: string, ...args: unknown[]) => void;
-        /** Log error messages */
-        error: (message: string, ...args: unknown[]) => void;
-    };
+    logger?: JsonRpcServerLogger;
+    /**
+     * Optional lifecycle hooks, e.g. to record metrics or audit logs.
+     */
+    hooks?: JsonRpcServerHooks<TContext>;
+    /**
+     * Optional tracer creating a span per method invocation (see `JsonRpcTracer`). Spans are children
+     * of the `traceparent` sent by the client in the `_meta` member of requests.
+     */
+    tracer?: JsonRpcTracer;
     /**
      * Whether to return "Method not found" errors for unknown methods.
      * - true (default): Returns error responses for unknown methods
      * - false: Silently ignores unknown methods (returns null)
      */
     strictMethodHandling?: boolean;
+    /**
+     * Optional per-method configuration, keyed by method name.
+     */
+    methodOptions?: Record<string, JsonRpcMethodOptions>;
+    /**
+     * Maximum number of chunks of a streamed result sent ahead of the client's acknowledgements
+     * (see streaming in `connect`). Defaults to 16.
+     */
+    streamWindow?: number;
+    /**
+     * Maximum number of batch items handled concurrently, a positive integer. Defaults to 1 (items are
+     * handled one after the other); use `Infinity` for no limit. Responses keep the order of the batch items,
+     * and methods flagged `sequential` in `methodOptions` always run on their own.
+     */
+    batchConcurrency?: number;
+    /**
+     * Optional hook mapping errors thrown by method handlers to the JSON-RPC errors sent to clients.
+     * Returning undefined falls back to the default mapping.
+     */
+    errorMapper?: JsonRpcErrorMapper;
+    /**
+     * How much information about errors is sent to clients. Defaults to `'production'`:
+     * only the `code`, `message` and `data` of errors. `'development'` adds the stack trace
+     * and cause chain of the thrown error in `error.data.debug`.
+     */
+    mode?: JsonRpcServerMode;
+    /**
+     * Keys whose values are replaced with `'[REDACTED]'` in error data, at any depth (e.g. `['password', 'token']`).
+     */
+    redactKeys?: string[];
 }
 
 /**
@@ -115,7 +288,13 @@ export interface JsonRpcServerOptions {
  * });
  * ```
  */
-export interface JsonRpcServerInstance {
+export interface JsonRpcServerInstance<TContext = unknown> {
+    /**
+     * The logger of the server, also used by transport adapters (e.g. the Node HTTP handler)
+     * to report their own failures.
+     */
+    readonly logger: JsonRpcServerLogger;
+
     /**
      * Handles an incoming JSON-RPC request or notification.
      * Supports both single requests and batch requests.
@@ -146,6 +325,119 @@ export interface JsonRpcServerInstance {
         rawJsonPayload: unknown,
         context?: TContext
     ): Promise<unknown>;
+
+    /**
+     * Registers a middleware running around every request and notification dispatched to a method handler.
+     * Middlewares run in registration order (the first registered is the outermost) and can
+     * replace the context, short-circuit by throwing a JSON-RPC error, time the call or transform the result.
+     * 
+     * @param middleware The middleware to register
+     * @returns The server instance, for chaining
+     * 
+     * @example
+     * ```typescript
+     * server
+     *   .use(async (request, context, next) => {
+     *     if (!context.userId) {
+     *       throw createJsonRpcError(-32001, 'Not authorized');
+     *     }
+     *     return next();
+     *   })
+     *   .use(async (request, context, next) => {
+     *     const start = Date.now();
+     *     const result = await next();
+     *     logger.info('JSON-RPC method timing', { method: request.method, duration: Date.now() - start });
+     *     return result;
+     *   });
+     * ```
+     */
+    use(middleware: JsonRpcMiddleware<TContext>): JsonRpcServerInstance<TContext>;
+
+    /**
+     * Serves a duplex message channel (WebSocket, worker port, stdio...): every incoming request
+     * and notification is handled with the given context and its response is sent back on the channel.
+     * Incoming responses are ignored, leaving them to a client sharing the channel.
+     * 
+     * The same context is used for the whole connection. `$/cancelRequest` notifications only apply
+     * to the connection's own requests, and requests still running when the connection ends are cancelled.
+     * Subscriptions created by handlers with `extra.subscribe()` send their events on the channel
+     * and end with the connection.
+     * 
+     * Handlers may return an `AsyncIterable` to stream their result: every chunk is sent as a
+     * `$/streamChunk` notification tied to the request ID, followed by a null response once the iterable
+     * is exhausted. At most `streamWindow` chunks are sent ahead of the client's `$/streamAck`
+     * acknowledgements, and a `$/cancelRequest` notification stops the iteration.
+     * Outside of `connect`, the chunks are collected into an array result.
+     * 
+     * @param channel The channel to serve
+     * @param context Optional context data to pass to method handlers
+     * @returns A function to stop serving the channel (without closing it)
+     * 
+     * @example
+     * ```typescript
+     * webSocketServer.on('connection', (socket, request) => {
+     *   server.connect(createWebSocketServerChannel(socket), { userId: request.headers['x-user-id'] });
+     * });
+     * ```
+     */
+    connect(channel: JsonRpcMessageChannel, context?: TContext): () => void;
+}
+
+/**
+ * Connection a payload was received on, when served through `connect`.
+ * 
+ * @internal
+ */
+type ConnectionScope = {
+    /** Sends a notification over the connection */
+    send: (notification: JSONRPCNotification) => void;
+    /** Subscriptions of the connection */
+    subscriptions: JsonRpcSubscriptionRegistry;
+    /** Subscriptions created while handling the payload, activated once its response is sent */
+    created: JsonRpcManagedSubscription[];
+    /** Results being streamed over the connection, by request ID */
+    streams: Map<string | number, ResultStream>;
+    /** Requests of the connection being handled, by request ID, so that they can be cancelled */
+    inFlightRequests: Map<string | number, AbortController>;
+};
+
+/**
+ * Result being streamed over a connection.
+ * 
+ * @internal
+ */
+type ResultStream = {
+    /** Allows more chunks to be sent, as the client has consumed some */
+    acknowledge: (count: number) => void;
+    /** Stops streaming, e.g. when the connection closes */
+    abort: () => void;
+};
+
+/**
+ * Checks whether a handler result is an async iterable to stream.
+ * 
+ * @param value The handler result
+ * @returns True if the value implements `Symbol.asyncIterator`
+ */
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] === 'function'
+    );
+}
+
+/**
+ * Recovers the ID of an invalid request, to answer it with an "Invalid Request" error.
+ * 
+ * @param request The invalid request
+ * @returns The request's ID if it is a string or a number, null otherwise
+ */
+function recoverRequestId(request: unknown): string | number | null {
+    if (typeof request !== 'object' || request === null || !('id' in request)) {
+        return null;
+    }
+    return typeof request.id === 'string' || typeof request.id === 'number' ? request.id : null;
 }
 
 /**
@@ -153,9 +445,11 @@ export interface JsonRpcServerInstance {
  * The server handles parsing, validation, method dispatch, error handling, and response formatting.
  * 
  * @template TContext The type of the context object passed to method handlers
+ * @template TContract The contract the method handlers must implement (inferred from `methods`)
  * @param methods Map of method names to their handler functions
  * @param options Optional configuration for the server
  * @returns A JSON-RPC server instance
+ * @throws {Error} If `batchConcurrency` is not a positive integer or Infinity
  * 
  * @example
  * ```typescript
@@ -173,18 +467,45 @@ export interface JsonRpcServerInstance {
  * 
  * // Use with HTTP server
  * const response = await server.handleJsonRpcRequest(requestBody, { userId: '123' });
+ * 
+ * // Enforce handler signatures with a shared contract
+ * const typedServer = createJsonRpcServer<unknown, CalculatorContract>({
+ *   add: (params) => params.a + params.b,
+ * });
  * ```
  */
-export function createJsonRpcServer<TContext = unknown>(
-    methods: JsonRpcMethodMap<TContext>,
-    options: JsonRpcServerOptions = {}
-): JsonRpcServerInstance {
-    const logger = options.logger || {
-        info: (...args: unknown[]) => console.log(...args),
-        warn: (...args: unknown[]) => console.warn(...args),
-        error: (...args: unknown[]) => console.error(...args),
-    };
+export function createJsonRpcServer<TContext = unknown, TContract extends JsonRpcContract = JsonRpcContract>(
+    methods: JsonRpcMethodMap<TContext, TContract>,
+    options: JsonRpcServerOptions<TContext> = {}
+): JsonRpcServerInstance<TContext> {
+    const logger = options.logger || createConsoleLogger();
+    const runHook = createHookRunner<TContext>(options.hooks ?? {}, logger);
+    const tracer = options.tracer;
     const strictMethodHandling = options.strictMethodHandling ?? true;
+    const streamWindow = options.streamWindow ?? 16;
+    const batchConcurrency = options.batchConcurrency ?? 1;
+    if (batchConcurrency !== Infinity && !(Number.isInteger(batchConcurrency) && batchConcurrency >= 1)) {
+        throw new Error(`JSON-RPC batchConcurrency must be a positive integer or Infinity, got ${batchConcurrency}`);
+    }
+    const serializeError = createErrorSerializer({
+        mode: options.mode ?? 'production',
+        errorMapper: options.errorMapper,
+        redactKeys: options.redactKeys ?? [],
+        logger,
+    });
+    // Incoming method names are arbitrary strings, so look handlers up through an untyped view
+    const methodHandlers = methods as Record<string, JsonRpcMethodHandler<unknown, unknown, TContext> | undefined>;
+    const middlewares: JsonRpcMiddleware<TContext>[] = [];
+    const paramsValidators = new Map<string, JsonRpcValidator>();
+    const sequentialMethods = new Set<string>();
+    for (const [method, methodOptions] of Object.entries(options.methodOptions ?? {})) {
+        if (methodOptions.params) {
+            paramsValidators.set(method, toJsonRpcValidator(methodOptions.params));
+        }
+        if (methodOptions.sequential) {
+            sequentialMethods.add(method);
+        }
+    }
 
     /**
      * Implementation of the main request handling logic.
@@ -195,9 +516,25 @@ export function createJsonRpcServer<TContext = unknown>(
      * @param context Optional context data to pass to method handlers
      * @returns Promise that resolves to the response (null for notifications)
      */
-    async function handleJsonRpcRequest<TContext = unknown>(
+    function handleJsonRpcRequest<TContext = unknown>(
         rawJsonPayload: unknown,
         context?: TContext
+    ): Promise<unknown> {
+        return handlePayload(rawJsonPayload, context);
+    }
+
+    /**
+     * Parses and validates a payload, then handles its single request or batch.
+     * 
+     * @param rawJsonPayload The raw JSON payload (string or parsed object)
+     * @param context Optional context data to pass to method handlers
+     * @param connection The connection the payload was received on, if any
+     * @returns Promise that resolves to the response (null for notifications)
+     */
+    async function handlePayload(
+        rawJsonPayload: unknown,
+        context?: unknown,
+        connection?: ConnectionScope
     ): Promise<unknown> {
         // Parse JSON payload
         let parsedPayload: unknown;
@@ -208,18 +545,11 @@ export function createJsonRpcServer<TContext = unknown>(
                 parsedPayload = rawJsonPayload;
             }
         } catch (error) {
-            logger.error('JSON-RPC parse error:', error);
+            logger.error('JSON-RPC parse error', { error });
             const parseError = createStandardJsonRpcError('PARSE_ERROR');
             return createJsonRpcErrorResponse(null, parseError);
         }
 
-        // Validate JSON-RPC structure
-        if (!isValidJsonRpcPayload(parsedPayload)) {
-            logger.warn('JSON-RPC invalid request structure:', parsedPayload);
-            const invalidRequestError = createStandardJsonRpcError('INVALID_REQUEST');
-            return createJsonRpcErrorResponse(null, invalidRequestError);
-        }
-
         // Handle batch requests
         if (Array.isArray(parsedPayload)) {
             if (parsedPayload.length === 0) {
@@ -228,19 +558,96 @@ export function createJsonRpcServer<TContext = unknown>(
                 return createJsonRpcErrorResponse(null, invalidRequestError);
             }
 
-            const responses: JSONRPCResponse[] = [];
-            for (const item of parsedPayload) {
-                const response = await handleSingleRequest(item, context);
-                if (response !== null) {
-                    responses.push(response);
-                }
-            }
-
+            const startTime = performance.now();
+            const responses = await handleBatch(parsedPayload, context, connection);
+            runHook('onBatch', {
+                size: parsedPayload.length,
+                responses: responses.length,
+                duration: performance.now() - startTime,
+                context: context as TContext,
+            });
             return responses.length > 0 ? responses : null;
         }
 
         // Handle single request
-        return handleSingleRequest(parsedPayload, context);
+        if (!isValidJsonRpcRequest(parsedPayload)) {
+            return createInvalidRequestResponse(parsedPayload);
+        }
+        return handleSingleRequest(parsedPayload, context, connection);
+    }
+
+    /**
+     * Handles the items of a batch, running up to `batchConcurrency` of them at a time.
+     * Items calling a `sequential` method run on their own. Each item is validated on its own:
+     * invalid items get an "Invalid Request" response, and the valid ones are still handled.
+     * 
+     * @param items The items of the batch
+     * @param context Optional context data to pass to method handlers
+     * @param connection The connection the batch was received on, if any
+     * @returns Promise that resolves to the responses, in the order of the batch items
+     */
+    async function handleBatch(
+        items: unknown[],
+        context?: unknown,
+        connection?: ConnectionScope
+    ): Promise<JSONRPCResponse[]> {
+        const responses: (JSONRPCResponse | null)[] = Array.from({ length: items.length }, () => null);
+        const running = new Set<Promise<void>>();
+
+        for (const [index, item] of items.entries()) {
+            if (!isValidJsonRpcRequest(item)) {
+                responses[index] = createInvalidRequestResponse(item);
+                continue;
+            }
+
+            const sequential = sequentialMethods.has(item.method);
+            if (sequential) {
+                await Promise.all(running);
+            }
+            while (running.size >= batchConcurrency) {
+                await Promise.race(running);
+            }
+
+            const task: Promise<void> = handleSingleRequest(item, context, connection)
+                .then(
+                    (response) => {
+                        responses[index] = response;
+                    },
+                    (error: unknown) => {
+                        responses[index] = createBatchItemErrorResponse(item, error);
+                    },
+                )
+                .finally(() => running.delete(task));
+            running.add(task);
+            if (sequential) {
+                await task;
+            }
+        }
+        await Promise.all(running);
+
+        return responses.filter((response): response is JSONRPCResponse => response !== null);
+    }
+
+    /**
+     * Creates the response of a batch item whose handling failed unexpectedly (e.g. a throwing logger,
+     * hook or error mapper), so that the failure does not affect the other items.
+     * It never throws, even if the logger keeps failing.
+     * 
+     * @param item The failed request or notification
+     * @param error The error handling failed with
+     * @returns An "Internal error" response, or null for notifications
+     */
+    function createBatchItemErrorResponse(
+        item: JSONRPCRequest | JSONRPCNotification,
+        error: unknown
+    ): JSONRPCResponse | null {
+        const id = isJSONRPCRequest(item) ? item.id : null;
+        try {
+            logger.error('JSON-RPC batch item failed', { method: item.method, id, error });
+        } catch {
+            // The item is answered anyway, there is nowhere left to report the failure
+        }
+        return id === null ? null : createJsonRpcErrorResponse(id, createStandardJsonRpcError('INTERNAL_ERROR'));
     }
 
     /**
@@ -248,14 +655,15 @@ export function createJsonRpcServer<TContext = unknown>(
      * Validates the request, dispatches to the appropriate method handler,
      * and formats the response according to JSON-RPC 2.0 specification.
      * 
-     * @template TContext The type of the context object
      * @param request The JSON-RPC request or notification to handle
      * @param context Optional context data to pass to method handlers
+     * @param connection The connection the request was received on, if any
      * @returns Promise that resolves to a response (null for notifications)
      */
-    async function handleSingleRequest<TContext = unknown>(
+    async function handleSingleRequest(
         request: JSONRPCRequest | JSONRPCNotification,
-        context?: TContext
+        context?: unknown,
+        connection?: ConnectionScope
     ): Promise<JSONRPCResponse | null> {
         const isRequest = isJSONRPCRequest(request);
         const isNotification = isJSONRPCNotification(request);
@@ -266,36 +674,141 @@ export function createJsonRpcServer<TContext = unknown>(
         }
 
         const method = request.method;
-        const params = request.params;
         const id = isRequest ? request.id : null;
 
+        // Cancel in-flight requests of the connection
+        if (isJsonRpcCancelNotification(request)) {
+            const controller = connection?.inFlightRequests.get(request.params.id);
+            if (controller) {
+                logger.info('JSON-RPC request cancelled', { id: request.params.id });
+                controller.abort();
+            }
+            return null;
+        }
+
+        // End subscriptions of the connection
+        if (method === JSONRPC_UNSUBSCRIBE_METHOD) {
+            if (!connection) {
+                return isRequest
+                    ? createJsonRpcErrorResponse(id, createJsonRpcError(JSONRPC_SUBSCRIPTIONS_NOT_SUPPORTED, 'Subscriptions not supported'))
+                    : null;
+            }
+
+            const subscription = (request.params as Partial<JsonRpcUnsubscribeParams> | undefined)?.subscription;
+            const unsubscribed = subscription !== undefined && connection.subscriptions.unsubscribe(subscription);
+            return isRequest ? ({ jsonrpc: '2.0', id, result: unsubscribed } as JSONRPCSuccessResponse) : null;
+        }
+
+        // Let streamed results send more chunks
+        if (isJsonRpcStreamAckNotification(request)) {
+            connection?.streams.get(request.params.id)?.acknowledge(request.params.count);
+            return null;
+        }
+
+        // Report the call to the hooks around its execution
+        const startTime = performance.now();
+        const event = { method, params: request.params, context: context as TContext };
+        if (id !== null) {
+            runHook('onRequest', { ...event, id });
+        } else {
+            runHook('onNotification', event);
+        }
+
+        const trace = tracer ? startMethodTrace(tracer, request, logger) : undefined;
+        const response = await executeMethod(request, context, connection, startTime, trace);
+        trace?.end(response);
+        if (id !== null && response !== null) {
+            const outcome = 'error' in response ? 'error' : 'success';
+            runHook('onResponse', { ...event, id, duration: performance.now() - startTime, outcome, response });
+        }
+        return response;
+    }
+
+    /**
+     * Runs the middlewares and method handler of a request or notification,
+     * and formats the response according to JSON-RPC 2.0 specification.
+     * 
+     * @param request The JSON-RPC request or notification to handle
+     * @param context Optional context data to pass to method handlers
+     * @param connection The connection the request was received on, if any
+     * @param startTime When handling started, as returned by `performance.now()`
+     * @param trace The span of the invocation, if traced
+     * @returns Promise that resolves to a response (null for notifications)
+     */
+    async function executeMethod(
+        request: JSONRPCRequest | JSONRPCNotification,
+        context: unknown,
+        connection: ConnectionScope | undefined,
+        startTime: number,
+        trace?: JsonRpcMethodTrace
+    ): Promise<JSONRPCResponse | null> {
+        const method = request.method;
+        const id = isJSONRPCRequest(request) ? request.id : null;
+        const isNotification = id === null;
+
         // Check if method exists
-        const methodHandler = methods[method];
+        const methodHandler = methodHandlers[method];
         if (!methodHandler) {
             if (isNotification) {
-                logger.info(`JSON-RPC notification for unknown method: ${method}`);
+                logger.info('JSON-RPC notification for unknown method', { method });
                 return null;
             }
 
             if (strictMethodHandling) {
-                logger.warn(`JSON-RPC method not found: ${method}`);
+                logger.warn('JSON-RPC method not found', { method, id });
                 const methodNotFoundError = createStandardJsonRpcError('METHOD_NOT_FOUND');
                 return createJsonRpcErrorResponse(id, methodNotFoundError);
             }
 
-            logger.info(`JSON-RPC method not found (non-strict mode): ${method}`);
+            logger.info('JSON-RPC method not found (non-strict mode)', { method, id });
             return null;
         }
 
-        // Execute method handler
+        // Track requests of connections so that they can be cancelled
+        const controller = new AbortController();
+        const inFlightRequests = connection?.inFlightRequests;
+        if (id !== null) {
+            inFlightRequests?.set(id, controller);
+        }
+        const subscriptions: JsonRpcServerSubscription[] = [];
+        const extra: JsonRpcMethodHandlerExtra = {
+            method,
+            id,
+            signal: controller.signal,
+            subscribe<TEvent = unknown>(): JsonRpcServerSubscription<TEvent> {
+                if (!connection) {
+                    throw new JsonRpcException(JSONRPC_SUBSCRIPTIONS_NOT_SUPPORTED, 'Subscriptions not supported');
+                }
+
+                const subscription = connection.subscriptions.create<TEvent>();
+                connection.created.push(subscription);
+                subscriptions.push(subscription);
+                return subscription;
+            },
+        };
+
+        // Execute the middleware chain and method handler
         try {
-            const result = await methodHandler(params, context as any);
+            const execution = composeMiddleware<TContext>(middlewares, (currentRequest, currentContext) =>
+                invokeMethod(currentRequest, currentContext, extra),
+            )(request, context as TContext);
+            let result = await raceCancellation(execution, controller.signal);
             
             // Return null for notifications (no response)
             if (isNotification) {
                 return null;
             }
 
+            // Stream async iterable results, or collect them when the transport cannot stream
+            if (isAsyncIterable(result) && id !== null) {
+                if (connection) {
+                    await streamResult(result, id, connection, controller);
+                    result = null;
+                } else {
+                    result = await raceCancellation(collectResult(result, controller.signal), controller.signal);
+                }
+            }
+
             // Return success response for requests
             return {
                 jsonrpc: '2.0',
@@ -303,41 +816,277 @@ export function createJsonRpcServer<TContext = unknown>(
                 result,
             } as JSONRPCSuccessResponse;
         } catch (error) {
+            // Nobody will know the IDs of the subscriptions created by a failing handler
+            subscriptions.forEach((subscription) => subscription.close());
+            runHook('onError', {
+                method,
+                id,
+                params: request.params,
+                context: context as TContext,
+                duration: performance.now() - startTime,
+                error,
+            });
+            trace?.fail(error);
+
             // Don't return error responses for notifications
             if (isNotification) {
-                logger.error(`JSON-RPC notification method error in ${method}:`, error);
+                logger.error('JSON-RPC notification method error', { method, error });
                 return null;
             }
 
             // Handle errors for requests
-            if (error && typeof error === 'object' && 'code' in error && 'message' in error) {
-                // Custom JSON-RPC error
-                logger.warn(`JSON-RPC method error in ${method}:`, error);
-                return createJsonRpcErrorResponse(id, error as any);
+            if (isJsonRpcErrorLike(error)) {
+                // JsonRpcException or JSON-RPC error object
+                logger.warn('JSON-RPC method error', { method, id, error });
             } else {
                 // Internal server error
-                logger.error(`JSON-RPC internal error in ${method}:`, error);
-                const internalError = createStandardJsonRpcError('INTERNAL_ERROR');
-                return createJsonRpcErrorResponse(id, internalError);
+                logger.error('JSON-RPC internal error', { method, id, error });
+            }
+
+            // Map the error, keeping only what the server mode allows to send
+            return createJsonRpcErrorResponse(id, serializeError(error, { method, id }));
+        } finally {
+            if (id !== null && inFlightRequests?.get(id) === controller) {
+                inFlightRequests.delete(id);
             }
         }
     }
 
     /**
-     * Type guard to validate if a payload is a valid JSON-RPC request structure.
-     * Supports both single requests/notifications and batch arrays.
+     * Settles with the execution result, or rejects with a "Request cancelled" error
+     * as soon as the signal is aborted.
      * 
-     * @param payload The payload to validate
-     * @returns True if the payload is a valid JSON-RPC structure
+     * @param execution The pending method execution
+     * @param signal The cancellation signal of the request
+     * @returns Promise that resolves to the execution result
+     */
+    function raceCancellation(execution: Promise<unknown>, signal: AbortSignal): Promise<unknown> {
+        return new Promise((resolve, reject) => {
+            const onAbort = (): void => reject(new RequestCancelledException());
+            signal.addEventListener('abort', onAbort, { once: true });
+            execution
+                .then(resolve, reject)
+                .finally(() => signal.removeEventListener('abort', onAbort));
+        });
+    }
+
+    /**
+     * Sends the chunks of a streamed result as `$/streamChunk` notifications,
+     * never more than `streamWindow` chunks ahead of the client's acknowledgements.
+     * 
+     * @param iterable The async iterable returned by the handler
+     * @param id The ID of the request
+     * @param connection The connection the request was received on
+     * @param controller The abort controller of the request
+     * @returns Promise that resolves once the iterable is exhausted
+     */
+    async function streamResult(
+        iterable: AsyncIterable<unknown>,
+        id: string | number,
+        connection: ConnectionScope,
+        controller: AbortController
+    ): Promise<void> {
+        const iterator = iterable[Symbol.asyncIterator]();
+        let credit = streamWindow;
+        let onCredit: (() => void) | undefined;
+        let exhausted = false;
+        connection.streams.set(id, {
+            acknowledge: (count) => {
+                credit += count;
+                onCredit?.();
+            },
+            abort: () => controller.abort(),
+        });
+
+        try {
+            for (;;) {
+                const next = (await raceCancellation(iterator.next(), controller.signal)) as IteratorResult<unknown>;
+                if (next.done) {
+                    exhausted = true;
+                    return;
+                }
+
+                while (credit <= 0) {
+                    await raceCancellation(new Promise<void>((resolve) => (onCredit = resolve)), controller.signal);
+                }
+                credit--;
+                connection.send(createJsonRpcStreamChunkNotification(id, next.value));
+            }
+        } finally {
+            connection.streams.delete(id);
+            if (!exhausted) {
+                iterator.return?.()?.catch((error: unknown) => logger.error('JSON-RPC failed to end stream', { id, error }));
+            }
+        }
+    }
+
+    /**
+     * Collects the chunks of a streamed result into an array, for transports that cannot stream.
+     * 
+     * @param iterable The async iterable returned by the handler
+     * @param signal The cancellation signal of the request
+     * @returns Promise that resolves to the chunks
+     */
+    async function collectResult(iterable: AsyncIterable<unknown>, signal: AbortSignal): Promise<unknown[]> {
+        const chunks: unknown[] = [];
+        for await (const chunk of iterable) {
+            if (signal.aborted) {
+                break;
+            }
+            chunks.push(chunk);
+        }
+        return chunks;
+    }
+
+    /**
+     * Final step of the middleware chain.
+     * Validates the params against the method schema, if any, and invokes the method handler.
+     * 
+     * @param request The JSON-RPC request or notification to execute
+     * @param context Context data to pass to the method handler
+     * @param extra Information about the request passed to the method handler
+     * @returns Promise that resolves to the handler result
+     */
+    async function invokeMethod(
+        request: JSONRPCRequest | JSONRPCNotification,
+        context: TContext,
+        extra: JsonRpcMethodHandlerExtra
+    ): Promise<unknown> {
+        const methodHandler = methodHandlers[request.method];
+        if (!methodHandler) {
+            throw new MethodNotFoundException();
+        }
+
+        // Validate params before the handler runs
+        let params = request.params;
+        const paramsValidator = paramsValidators.get(request.method);
+        if (paramsValidator) {
+            const validation = await paramsValidator.validate(params);
+            if (!validation.success) {
+                throw new InvalidParamsException(undefined, { issues: validation.issues });
+            }
+            params = validation.value;
+        }
+
+        return methodHandler(params, context, extra);
+    }
+
+    /**
+     * Registers a middleware wrapped around every method invocation.
+     * Middlewares run in registration order, the first registered being the outermost.
+     * 
+     * @param middleware The middleware to register
+     * @returns The server instance, for chaining
+     */
+    function use(middleware: JsonRpcMiddleware<TContext>): JsonRpcServerInstance<TContext> {
+        middlewares.push(middleware);
+        return server;
+    }
+
+    /**
+     * Implementation of the connect method, serving a duplex message channel.
+     * 
+     * @param channel The channel to serve
+     * @param context Optional context data to pass to method handlers
+     * @returns A function to stop serving the channel
      */
-    function isValidJsonRpcPayload(payload: unknown): payload is JSONRPCRequest | JSONRPCNotification | (JSONRPCRequest | JSONRPCNotification)[] {
-        if (Array.isArray(payload)) {
-            return payload.every(item => isJSONRPCRequest(item) || isJSONRPCNotification(item));
+    function connect(channel: JsonRpcMessageChannel, context?: TContext): () => void {
+        let connected = true;
+        const streams = new Map<string | number, ResultStream>();
+        // Request IDs are only unique per client, so in-flight requests are tracked per connection
+        const inFlightRequests = new Map<string | number, AbortController>();
+
+        function send(notification: JSONRPCNotification): void {
+            try {
+                channel.send(notification);
+            } catch (error) {
+                logger.error('JSON-RPC failed to send notification', { error });
+            }
+        }
+
+        const subscriptions = createSubscriptionRegistry(send);
+
+        async function handleMessage(message: unknown): Promise<void> {
+            // Responses, subscription events and stream chunks are left to a client sharing the channel
+            if (
+                isJsonRpcResponseMessage(message) ||
+                isJsonRpcSubscriptionNotification(message) ||
+                isJsonRpcStreamChunkNotification(message)
+            ) {
+                return;
+            }
+
+            const connection: ConnectionScope = { send, subscriptions, created: [], streams, inFlightRequests };
+            const response = await handlePayload(message, context, connection);
+            if (!connected) {
+                return;
+            }
+
+            if (response !== null) {
+                try {
+                    channel.send(response as JSONRPCMessage);
+                } catch (error) {
+                    logger.error('JSON-RPC failed to send response', { error });
+                }
+            }
+
+            // Events emitted so far are sent once the client knows the subscription IDs
+            connection.created.forEach((subscription) => subscription.activate());
+        }
+
+        function disconnect(): void {
+            if (!connected) {
+                return;
+            }
+
+            connected = false;
+            unsubscribeMessages();
+            unsubscribeClose?.();
+            subscriptions.closeAll();
+            streams.forEach((stream) => stream.abort());
+
+            // Nobody is left to receive the responses of the connection's requests
+            inFlightRequests.forEach((controller) => controller.abort());
         }
+
+        const unsubscribeMessages = channel.onMessage((message) => {
+            handleMessage(message).catch((error: unknown) => {
+                logger.error('JSON-RPC failed to handle message', { error });
+            });
+        });
+        const unsubscribeClose = channel.onClose?.(disconnect);
+
+        return disconnect;
+    }
+
+    /**
+     * Type guard to validate if a payload, or an item of a batch, is a valid JSON-RPC request or notification.
+     * 
+     * @param payload The payload to validate
+     * @returns True if the payload is a valid JSON-RPC request or notification
+     */
+    function isValidJsonRpcRequest(payload: unknown): payload is JSONRPCRequest | JSONRPCNotification {
         return isJSONRPCRequest(payload) || isJSONRPCNotification(payload);
     }
 
-    return {
+    /**
+     * Creates the "Invalid Request" response of an invalid payload or batch item.
+     * 
+     * @param payload The invalid payload
+     * @returns An error response with the payload's ID, when it can be recovered
+     */
+    function createInvalidRequestResponse(payload: unknown): JSONRPCResponse {
+        logger.warn('JSON-RPC invalid request structure', { request: payload });
+        const invalidRequestError = createStandardJsonRpcError('INVALID_REQUEST');
+        return createJsonRpcErrorResponse(recoverRequestId(payload), invalidRequestError);
+    }
+
+    const server: JsonRpcServerInstance<TContext> = {
+        logger,
         handleJsonRpcRequest,
+        use,
+        connect,
     };
+
+    return server;
 }
\ No newline at end of file
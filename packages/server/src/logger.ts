@@ -0,0 +1,56 @@
+/**
+ * Structured fields of a log entry, describing what the message is about.
+ */
+export interface JsonRpcLogFields {
+    /** Name of the called method */
+    method?: string;
+    /** ID of the request, or null for notifications */
+    id?: string | number | null;
+    /** The error being reported */
+    error?: unknown;
+    /** Any other field */
+    [field: string]: unknown;
+}
+
+/**
+ * Structured logger of the server. Each level receives a constant message, and the details
+ * (method, request ID, error...) as fields, so that logs can be filtered and aggregated
+ * without parsing strings. `console` satisfies it, as do most logging libraries.
+ *
+ * @example
+ * ```typescript
+ * const logger: JsonRpcServerLogger = {
+ *   info: (message, fields) => log.info({ ...fields, msg: message }),
+ *   warn: (message, fields) => log.warn({ ...fields, msg: message }),
+ *   error: (message, fields) => log.error({ ...fields, msg: message }),
+ * };
+ * ```
+ */
+export interface JsonRpcServerLogger {
+    /** Log informational messages */
+    info: (message: string, fields?: JsonRpcLogFields) => void;
+    /** Log warning messages */
+    warn: (message: string, fields?: JsonRpcLogFields) => void;
+    /** Log error messages */
+    error: (message: string, fields?: JsonRpcLogFields) => void;
+}
+
+/**
+ * Creates the default logger, writing to the console.
+ *
+ * @returns A logger printing the message, followed by the fields if any
+ *
+ * @internal
+ */
+export function createConsoleLogger(): JsonRpcServerLogger {
+    const write =
+        (print: (...args: unknown[]) => void) =>
+        (message: string, fields?: JsonRpcLogFields): void =>
+            fields === undefined ? print(message) : print(message, fields);
+
+    return {
+        info: write((...args) => console.log(...args)),
+        warn: write((...args) => console.warn(...args)),
+        error: write((...args) => console.error(...args)),
+    };
+}
@@ -0,0 +1,85 @@
+import { JSONRPCRequest, JSONRPCNotification } from '@ts-json-rpc/core';
+
+/**
+ * Continues the middleware chain.
+ * Resolves to the value produced by the rest of the chain (ultimately the method handler result).
+ *
+ * @template TContext The type of the context object
+ * @param context Optional replacement context for the rest of the chain
+ * @returns Promise that resolves to the result of the rest of the chain
+ */
+export type JsonRpcMiddlewareNext<TContext = unknown> = (context?: TContext) => Promise<unknown>;
+
+/**
+ * Middleware function wrapped around every request and notification dispatched to a method handler.
+ * A middleware can inspect or replace the context, short-circuit by throwing a JSON-RPC error
+ * (or returning without calling `next`), measure the call, and transform the result.
+ *
+ * @template TContext The type of the context object passed to method handlers
+ * @param request The JSON-RPC request or notification being handled
+ * @param context The current context
+ * @param next Function invoking the rest of the chain
+ * @returns The result to send back (can be async)
+ *
+ * @example
+ * ```typescript
+ * const auth: JsonRpcMiddleware<{ user?: User }> = (request, context, next) => {
+ *   if (!context.user) {
+ *     throw createJsonRpcError(-32001, 'Not authorized');
+ *   }
+ *   return next();
+ * };
+ *
+ * const timing: JsonRpcMiddleware = async (request, context, next) => {
+ *   const start = Date.now();
+ *   try {
+ *     return await next();
+ *   } finally {
+ *     metrics.record(request.method, Date.now() - start);
+ *   }
+ * };
+ * ```
+ */
+export type JsonRpcMiddleware<TContext = unknown> = (
+    request: JSONRPCRequest | JSONRPCNotification,
+    context: TContext,
+    next: JsonRpcMiddlewareNext<TContext>,
+) => unknown;
+
+/**
+ * Composes middlewares into a single function running them in registration order
+ * around a final handler.
+ *
+ * @template TContext The type of the context object
+ * @param middlewares The middlewares to run, outermost first
+ * @param handler The final handler invoked at the end of the chain
+ * @returns A function running the whole chain for a request
+ *
+ * @internal
+ */
+export function composeMiddleware<TContext>(
+    middlewares: readonly JsonRpcMiddleware<TContext>[],
+    handler: (request: JSONRPCRequest | JSONRPCNotification, context: TContext) => Promise<unknown>,
+): (request: JSONRPCRequest | JSONRPCNotification, context: TContext) => Promise<unknown> {
+    return (request, context) => {
+        let lastIndex = -1;
+
+        async function dispatch(index: number, currentContext: TContext): Promise<unknown> {
+            if (index <= lastIndex) {
+                throw new Error('JSON-RPC middleware called next() multiple times');
+            }
+            lastIndex = index;
+
+            const middleware = middlewares[index];
+            if (!middleware) {
+                return handler(request, currentContext);
+            }
+
+            return middleware(request, currentContext, (nextContext) =>
+                dispatch(index + 1, nextContext === undefined ? currentContext : nextContext),
+            );
+        }
+
+        return dispatch(0, context);
+    };
+}
@@ -0,0 +1,141 @@
+import { createJsonRpcSubscriptionNotification, JSONRPCNotification } from '@ts-json-rpc/core';
+
+/**
+ * Subscription created by a method handler with `extra.subscribe()`, pushing events
+ * to the subscriber over its connection as `$/subscription` notifications.
+ *
+ * @template TEvent The type of the events
+ *
+ * @example
+ * ```typescript
+ * const methods = {
+ *   subscribePrices: (params: { symbol: string }, context, { subscribe }) => {
+ *     const subscription = subscribe<number>();
+ *     const unwatch = market.watch(params.symbol, (price) => subscription.emit(price));
+ *     subscription.signal.addEventListener('abort', unwatch);
+ *     return subscription.id;
+ *   },
+ * };
+ * ```
+ */
+export interface JsonRpcServerSubscription<TEvent = unknown> {
+    /** ID of the subscription, to be returned by the method handler */
+    readonly id: string;
+    /**
+     * Signal aborted when the subscription ends: unsubscribed by the client, closed by the server,
+     * or its connection closed. Stop producing events once it is aborted.
+     */
+    readonly signal: AbortSignal;
+    /**
+     * Sends an event to the subscriber. Events emitted before the response of the subscribe request
+     * has been sent are delivered right after it; events emitted once the subscription has ended are dropped.
+     *
+     * @param event The event to send
+     */
+    emit(event: TEvent): void;
+    /**
+     * Ends the subscription on the server side. The subscriber is not notified.
+     */
+    close(): void;
+}
+
+/**
+ * Server subscription whose events are held back until it is activated.
+ *
+ * @internal
+ */
+export interface JsonRpcManagedSubscription<TEvent = unknown> extends JsonRpcServerSubscription<TEvent> {
+    /**
+     * Starts delivering events, sending those emitted so far.
+     */
+    activate(): void;
+}
+
+/**
+ * Subscriptions of a connection.
+ *
+ * @internal
+ */
+export interface JsonRpcSubscriptionRegistry {
+    /**
+     * Creates a subscription, delivering no events until it is activated.
+     *
+     * @returns The subscription
+     */
+    create<TEvent = unknown>(): JsonRpcManagedSubscription<TEvent>;
+    /**
+     * Ends a subscription at the subscriber's request.
+     *
+     * @param id The ID of the subscription
+     * @returns True if the subscription existed
+     */
+    unsubscribe(id: string | number): boolean;
+    /**
+     * Ends every subscription, e.g. when the connection closes.
+     */
+    closeAll(): void;
+}
+
+/**
+ * Creates the subscription registry of a connection.
+ *
+ * @param send Function sending a notification over the connection
+ * @returns The subscription registry
+ *
+ * @internal
+ */
+export function createSubscriptionRegistry(send: (notification: JSONRPCNotification) => void): JsonRpcSubscriptionRegistry {
+    const subscriptions = new Map<string, JsonRpcManagedSubscription>();
+    let nextId = 1;
+
+    function create<TEvent = unknown>(): JsonRpcManagedSubscription<TEvent> {
+        const id = String(nextId++);
+        const controller = new AbortController();
+        let pendingEvents: TEvent[] | undefined = [];
+
+        const subscription: JsonRpcManagedSubscription<TEvent> = {
+            id,
+            signal: controller.signal,
+            emit(event) {
+                if (controller.signal.aborted) {
+                    return;
+                }
+
+                if (pendingEvents) {
+                    pendingEvents.push(event);
+                } else {
+                    send(createJsonRpcSubscriptionNotification(id, event));
+                }
+            },
+            close() {
+                subscriptions.delete(id);
+                pendingEvents = undefined;
+                controller.abort();
+            },
+            activate() {
+                const events = pendingEvents ?? [];
+                pendingEvents = undefined;
+                for (const event of events) {
+                    subscription.emit(event);
+                }
+            },
+        };
+
+        subscriptions.set(id, subscription);
+        return subscription;
+    }
+
+    function unsubscribe(id: string | number): boolean {
+        const subscription = subscriptions.get(String(id));
+        subscription?.close();
+        return subscription !== undefined;
+    }
+
+    function closeAll(): void {
+        for (const subscription of [...subscriptions.values()]) {
+            subscription.close();
+        }
+    }
+
+    return { create, unsubscribe, closeAll };
+}
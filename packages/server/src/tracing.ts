@@ -0,0 +1,93 @@
+import {
+    createJsonRpcSpanAttributes,
+    isJSONRPCErrorResponse,
+    isJSONRPCRequest,
+    JSONRPC_SPAN_STATUS,
+    JSONRPCNotification,
+    JSONRPCRequest,
+    JSONRPCResponse,
+    JsonRpcSpan,
+    JsonRpcTracer,
+    parseTraceparent,
+    setJsonRpcSpanError,
+} from '@ts-json-rpc/core';
+
+import { JsonRpcServerLogger } from './logger.js';
+
+/**
+ * Span of a method invocation, as seen by the server.
+ *
+ * @internal
+ */
+export interface JsonRpcMethodTrace {
+    /**
+     * Records an error thrown by the middlewares or the method handler.
+     *
+     * @param error The thrown error, before it is mapped to a JSON-RPC error
+     */
+    fail(error: unknown): void;
+    /**
+     * Ends the span, setting the JSON-RPC error of the response if any.
+     *
+     * @param response The response sent back, or null for notifications
+     */
+    end(response: JSONRPCResponse | null): void;
+}
+
+/**
+ * Starts the server span of a request or notification, named after its method.
+ * The span is the child of the `traceparent` sent in the `_meta` member of the request, if valid.
+ * Errors thrown by the tracer or the span are logged and otherwise ignored, like those of hooks.
+ *
+ * @param tracer The tracer creating the span
+ * @param request The request or notification being handled
+ * @param logger The logger reporting tracer failures
+ * @returns The trace of the invocation
+ *
+ * @internal
+ */
+export function startMethodTrace(
+    tracer: JsonRpcTracer,
+    request: JSONRPCRequest | JSONRPCNotification,
+    logger: JsonRpcServerLogger,
+): JsonRpcMethodTrace {
+    const method = request.method;
+
+    function shield(run: () => void): void {
+        try {
+            run();
+        } catch (error) {
+            logger.error('JSON-RPC tracer failed', { method, error });
+        }
+    }
+
+    let span: JsonRpcSpan | undefined;
+    shield(() => {
+        const isRequest = isJSONRPCRequest(request);
+        span = tracer.startSpan(method, {
+            kind: 'server',
+            attributes: createJsonRpcSpanAttributes(method, isRequest ? request.id : undefined),
+            parent: isRequest ? parseTraceparent(request._meta?.traceparent) : undefined,
+        });
+    });
+
+    return {
+        fail(error: unknown): void {
+            shield(() => {
+                const message = error instanceof Error ? error.message : String(error);
+                span?.setStatus({ code: JSONRPC_SPAN_STATUS.ERROR, message });
+                if (error instanceof Error) {
+                    span?.recordException?.(error);
+                }
+            });
+        },
+        end(response: JSONRPCResponse | null): void {
+            shield(() => {
+                if (span && response !== null && isJSONRPCErrorResponse(response)) {
+                    setJsonRpcSpanError(span, response.error);
+                }
+                span?.end();
+            });
+        },
+    };
+}
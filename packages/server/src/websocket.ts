@@ -0,0 +1,149 @@
+import { JsonRpcMessageChannel } from '@ts-json-rpc/core';
+
+/**
+ * Minimal server-side WebSocket interface, as implemented by the `ws` package sockets
+ * (and compatible libraries).
+ */
+export interface JsonRpcWebSocketLike {
+    /** Current state of the connection, `1` meaning open */
+    readonly readyState: number;
+    /** Sends a text frame */
+    send(data: string): void;
+    /** Closes the connection */
+    close(code?: number, reason?: string): void;
+    /** Destroys the connection without a closing handshake */
+    terminate?(): void;
+    /** Sends a ping frame, answered with a pong frame by compliant clients */
+    ping?(): void;
+    /** Subscribes to socket events */
+    on(event: 'message', listener: (data: unknown) => void): unknown;
+    on(event: 'close' | 'pong', listener: () => void): unknown;
+    /** Unsubscribes from socket events */
+    off(event: 'message', listener: (data: unknown) => void): unknown;
+    off(event: 'close' | 'pong', listener: () => void): unknown;
+}
+
+/**
+ * Configuration options for a server-side WebSocket channel.
+ *
+ * @example
+ * ```typescript
+ * // Ping every 30s and drop connections that did not answer the previous ping
+ * const options: JsonRpcWebSocketServerChannelOptions = { heartbeatInterval: 30_000 };
+ * ```
+ */
+export interface JsonRpcWebSocketServerChannelOptions {
+    /**
+     * Interval in milliseconds between ping frames. A connection that has not answered
+     * the previous ping with a pong when the next one is due is terminated.
+     * Requires the socket to support `ping`. Defaults to no heartbeat.
+     */
+    heartbeatInterval?: number;
+}
+
+/** `readyState` of an open WebSocket */
+const OPEN = 1;
+
+/**
+ * Converts the payload of a message event to text.
+ *
+ * @param data The message payload (string, `Buffer`, `ArrayBuffer`...)
+ * @returns The payload as text
+ */
+function toText(data: unknown): string {
+    if (typeof data === 'string') {
+        return data;
+    }
+    if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+        return new TextDecoder().decode(data);
+    }
+    return String(data);
+}
+
+/**
+ * Wraps a server-side WebSocket (e.g. from the `ws` package) into a message channel,
+ * to be served with `server.connect` or used by a peer.
+ * Messages are sent and received as JSON text frames; frames that are not valid JSON are handed over
+ * as text, so that the server answers them with a parse error.
+ *
+ * @param socket The accepted WebSocket connection
+ * @param options Optional configuration for the channel
+ * @returns A message channel over the socket
+ *
+ * @example
+ * ```typescript
+ * import { WebSocketServer } from 'ws';
+ *
+ * const webSocketServer = new WebSocketServer({ port: 8080 });
+ * webSocketServer.on('connection', (socket) => {
+ *   server.connect(createWebSocketServerChannel(socket, { heartbeatInterval: 30_000 }), { socket });
+ * });
+ * ```
+ */
+export function createWebSocketServerChannel(
+    socket: JsonRpcWebSocketLike,
+    options: JsonRpcWebSocketServerChannelOptions = {},
+): JsonRpcMessageChannel {
+    let alive = true;
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+    function onPong(): void {
+        alive = true;
+    }
+
+    function stopHeartbeat(): void {
+        clearInterval(heartbeat);
+        socket.off('pong', onPong);
+        socket.off('close', stopHeartbeat);
+    }
+
+    if (options.heartbeatInterval !== undefined && socket.ping) {
+        socket.on('pong', onPong);
+        socket.on('close', stopHeartbeat);
+        heartbeat = setInterval(() => {
+            if (!alive) {
+                stopHeartbeat();
+                if (socket.terminate) {
+                    socket.terminate();
+                } else {
+                    socket.close();
+                }
+                return;
+            }
+
+            alive = false;
+            socket.ping?.();
+        }, options.heartbeatInterval);
+    }
+
+    return {
+        send(message): void {
+            if (socket.readyState !== OPEN) {
+                throw new Error('WebSocket is not open');
+            }
+            socket.send(JSON.stringify(message));
+        },
+        onMessage(listener) {
+            const onData = (data: unknown): void => {
+                const text = toText(data);
+                let message: unknown;
+                try {
+                    message = JSON.parse(text);
+                } catch {
+                    message = text;
+                }
+                listener(message);
+            };
+            socket.on('message', onData);
+            return () => socket.off('message', onData);
+        },
+        onClose(listener) {
+            socket.on('close', listener);
+            return () => socket.off('close', listener);
+        },
+        close(): void {
+            stopHeartbeat();
+            socket.close();
+        },
+    };
+}